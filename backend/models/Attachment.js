@@ -0,0 +1,49 @@
+const mongoose = require('mongoose');
+
+const attachmentSchema = new mongoose.Schema({
+  request: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'HelpRequest',
+    required: true
+  },
+  uploader: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Set once the attachment has been sent in a message
+  message: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Message'
+  },
+  originalName: {
+    type: String,
+    required: true
+  },
+  // Key of the file in the storage backend; never exposed to clients
+  storedName: {
+    type: String,
+    required: true
+  },
+  mimeType: {
+    type: String,
+    required: true
+  },
+  size: {
+    type: Number,
+    required: true
+  },
+  kind: {
+    type: String,
+    enum: ['image', 'file'],
+    default: 'file'
+  }
+}, {
+  timestamps: true
+});
+
+attachmentSchema.index({ request: 1, createdAt: -1 });
+// Finds uploads that were never sent; see utils/attachmentCleanup.js
+attachmentSchema.index({ message: 1, createdAt: 1 });
+
+module.exports = mongoose.model('Attachment', attachmentSchema);
@@ -45,21 +45,72 @@ const helpRequestSchema = new mongoose.Schema({
   },
   status: {
     type: String,
-    enum: ['open', 'in_progress', 'completed', 'cancelled'],
+    enum: ['open', 'in_progress', 'pending_confirmation', 'completed', 'disputed', 'cancelled'],
     default: 'open'
   },
   helper: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User'
   },
+  // Price from the proposal the requester accepted
+  agreedPrice: {
+    type: Number
+  },
   acceptedAt: {
     type: Date
   },
+  // Set when the helper marks the request done; it completes once the
+  // requester confirms or confirmationDueAt passes
+  completionRequestedAt: {
+    type: Date
+  },
+  confirmationDueAt: {
+    type: Date
+  },
   completedAt: {
     type: Date
-  }
+  },
+  autoConfirmed: {
+    type: Boolean,
+    default: false
+  },
+  disputedAt: {
+    type: Date
+  },
+  disputeReason: {
+    type: String
+  },
+  cancelledAt: {
+    type: Date
+  },
+  cancellationReason: {
+    type: String
+  },
+  // Changes made by the requester while the request was open
+  editHistory: [{
+    editedAt: {
+      type: Date,
+      default: Date.now
+    },
+    editedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    changes: [{
+      field: String,
+      from: mongoose.Schema.Types.Mixed,
+      to: mongoose.Schema.Types.Mixed
+    }]
+  }]
 }, {
   timestamps: true
 });
 
+// Dashboards list a user's own requests and the feed filters by status, newest first
+helpRequestSchema.index({ requester: 1, status: 1, createdAt: -1 });
+helpRequestSchema.index({ helper: 1, status: 1, createdAt: -1 });
+helpRequestSchema.index({ status: 1, createdAt: -1 });
+// Finds completions whose confirmation window has run out
+helpRequestSchema.index({ status: 1, confirmationDueAt: 1 });
+
 module.exports = mongoose.model('HelpRequest', helpRequestSchema); 
\ No newline at end of file
@@ -13,23 +13,93 @@ const messageSchema = new mongoose.Schema({
   },
   content: {
     type: String,
-    required: true
+    // Deleted messages are kept as tombstones without their content
+    required: function () { return !this.deletedAt; }
   },
   messageType: {
     type: String,
-    enum: ['text', 'image', 'file', 'system'],
+    enum: ['text', 'image', 'file', 'system', 'session'],
     default: 'text'
   },
+  // Session proposed in this message, for messageType 'session'
+  session: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Session'
+  },
+  // Id the sender's client gave the message, so a retried send isn't stored twice
+  clientId: String,
   // File metadata for image/file messages
+  attachment: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Attachment'
+  },
   fileName: String,
   fileUrl: String,
   fileSize: Number,
-  isRead: {
-    type: Boolean,
-    default: false
-  }
+  // Earlier message in the same conversation this one quotes
+  replyTo: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Message'
+  },
+  // Emoji reactions, at most one of each emoji per user
+  reactions: [{
+    emoji: {
+      type: String,
+      required: true
+    },
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  // Read receipts, one per recipient; the sender is never listed
+  readBy: [{
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    readAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  editedAt: Date,
+  deletedAt: Date,
+  // Audit trail: what the message said before each edit or delete
+  history: [{
+    action: {
+      type: String,
+      enum: ['edited', 'deleted'],
+      required: true
+    },
+    content: String,
+    fileName: String,
+    by: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    at: {
+      type: Date,
+      default: Date.now
+    }
+  }]
 }, {
   timestamps: true
 });
 
+messageSchema.index({ request: 1, createdAt: 1 });
+// Per-conversation history search; text queries must also match on request
+messageSchema.index({ request: 1, content: 'text' });
+messageSchema.index(
+  { sender: 1, clientId: 1 },
+  { unique: true, partialFilterExpression: { clientId: { $type: 'string' } } }
+);
+
 module.exports = mongoose.model('Message', messageSchema); 
\ No newline at end of file
@@ -0,0 +1,58 @@
+const mongoose = require('mongoose');
+
+const notificationSchema = new mongoose.Schema({
+  recipient: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: [
+      'message_received',
+      'file_received',
+      'request_accepted',
+      'completion_requested',
+      'request_completed',
+      'request_disputed',
+      'request_cancelled',
+      'request_withdrawn',
+      'request_reopened',
+      'request_match',
+      'proposal_received',
+      'proposal_accepted',
+      'proposal_declined',
+      'session_proposed',
+      'session_scheduled',
+      'session_declined',
+      'session_cancelled',
+      'session_reminder'
+    ],
+    required: true
+  },
+  message: {
+    type: String,
+    required: true
+  },
+  request: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'HelpRequest'
+  },
+  requestTitle: {
+    type: String
+  },
+  isRead: {
+    type: Boolean,
+    default: false
+  },
+  readAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+notificationSchema.index({ recipient: 1, createdAt: -1 });
+notificationSchema.index({ recipient: 1, isRead: 1 });
+
+module.exports = mongoose.model('Notification', notificationSchema);
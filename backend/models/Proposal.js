@@ -0,0 +1,45 @@
+const mongoose = require('mongoose');
+
+// A helper's offer to take on an open request. The requester picks one, which
+// assigns that helper; see routes/proposals.js
+const proposalSchema = new mongoose.Schema({
+  request: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'HelpRequest',
+    required: true
+  },
+  helper: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  message: {
+    type: String,
+    required: true
+  },
+  // May fall inside or outside the request's budget range
+  price: {
+    type: Number,
+    min: 0
+  },
+  availability: {
+    type: String
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'accepted', 'declined', 'withdrawn'],
+    default: 'pending'
+  },
+  respondedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// One proposal per helper per request; a withdrawn or declined one is reused
+// if the helper proposes again
+proposalSchema.index({ request: 1, helper: 1 }, { unique: true });
+proposalSchema.index({ helper: 1, status: 1, createdAt: -1 });
+
+module.exports = mongoose.model('Proposal', proposalSchema);
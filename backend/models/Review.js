@@ -0,0 +1,43 @@
+const mongoose = require('mongoose');
+
+const reviewSchema = new mongoose.Schema({
+  request: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'HelpRequest',
+    required: true
+  },
+  reviewer: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  reviewee: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Whether the reviewee was the requester or the helper on this request
+  revieweeRole: {
+    type: String,
+    enum: ['requester', 'helper'],
+    required: true
+  },
+  rating: {
+    type: Number,
+    required: true,
+    min: 1,
+    max: 5
+  },
+  comment: {
+    type: String,
+    default: ''
+  }
+}, {
+  timestamps: true
+});
+
+// One review per party per request
+reviewSchema.index({ request: 1, reviewer: 1 }, { unique: true });
+reviewSchema.index({ reviewee: 1, createdAt: -1 });
+
+module.exports = mongoose.model('Review', reviewSchema);
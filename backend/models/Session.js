@@ -0,0 +1,72 @@
+const mongoose = require('mongoose');
+
+const slotSchema = new mongoose.Schema({
+  start: {
+    type: Date,
+    required: true
+  },
+  end: {
+    type: Date,
+    required: true
+  }
+});
+
+// A time to meet for an in-progress request. One participant proposes a few
+// slots and the other accepts one from the chat; see utils/sessionService.js
+const sessionSchema = new mongoose.Schema({
+  request: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'HelpRequest',
+    required: true
+  },
+  // The request's requester and helper when the session was proposed. A later
+  // helper change doesn't hand the session over to the new helper.
+  requester: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  helper: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  proposedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  slots: [slotSchema],
+  note: {
+    type: String
+  },
+  status: {
+    type: String,
+    enum: ['proposed', 'scheduled', 'declined', 'cancelled'],
+    default: 'proposed'
+  },
+  // Copy of the slot the other participant accepted
+  scheduledSlot: slotSchema,
+  respondedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  respondedAt: {
+    type: Date
+  },
+  cancelledBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reminderSentAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+sessionSchema.index({ request: 1, createdAt: -1 });
+// Finds scheduled sessions that are about to start and haven't been reminded
+sessionSchema.index({ status: 1, reminderSentAt: 1, 'scheduledSlot.start': 1 });
+
+module.exports = mongoose.model('Session', sessionSchema);
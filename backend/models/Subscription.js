@@ -0,0 +1,71 @@
+const mongoose = require('mongoose');
+
+// What a helper wants to hear about when new requests are posted; see
+// utils/subscriptionService.js
+const subscriptionSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    unique: true
+  },
+  categories: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Category'
+  }],
+  // Stored normalized (lowercase, synonyms resolved) so they compare directly
+  skills: [{
+    type: String
+  }],
+  // Push a notification over the socket as soon as a matching request is posted
+  realtime: {
+    type: Boolean,
+    default: true
+  },
+  emailDigest: {
+    type: String,
+    enum: ['off', 'daily'],
+    default: 'off'
+  },
+  // Most matching-request notifications in any rolling hour
+  maxPerHour: {
+    type: Number,
+    min: 1,
+    max: 20,
+    default: 5
+  },
+  // No real-time pushes or digests between start and end (minutes after
+  // midnight in `timezone`); the window may wrap past midnight
+  quietHours: {
+    enabled: {
+      type: Boolean,
+      default: false
+    },
+    start: {
+      type: Number,
+      min: 0,
+      max: 1439,
+      default: 22 * 60
+    },
+    end: {
+      type: Number,
+      min: 0,
+      max: 1439,
+      default: 7 * 60
+    },
+    timezone: {
+      type: String,
+      default: 'UTC'
+    }
+  },
+  lastDigestAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+subscriptionSchema.index({ categories: 1 });
+subscriptionSchema.index({ skills: 1 });
+
+module.exports = mongoose.model('Subscription', subscriptionSchema);
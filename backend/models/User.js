@@ -32,6 +32,10 @@ const userSchema = new mongoose.Schema({
   totalReviews: {
     type: Number,
     default: 0
+  },
+  // When the user was last connected; see utils/presence.js
+  lastSeenAt: {
+    type: Date
   }
 }, {
   timestamps: true
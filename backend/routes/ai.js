@@ -1,25 +1,11 @@
 const express = require('express');
 const router = express.Router();
-const multer = require('multer');
-const fs = require('fs');
-const path = require('path');
 const axios = require('axios');
 
-// Configure multer for file uploads
-const storage = multer.diskStorage({
-  destination: function (req, file, cb) {
-    const uploadsDir = path.join(__dirname, '../uploads');
-    if (!fs.existsSync(uploadsDir)) {
-      fs.mkdirSync(uploadsDir, { recursive: true });
-    }
-    cb(null, uploadsDir);
-  },
-  filename: function (req, file, cb) {
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    cb(null, file.fieldname + '-' + uniqueSuffix + path.extname(file.originalname));
-  }
-});
-const upload = multer({ storage: storage });
+const { createUpload, AI_INPUT_TYPES } = require('../utils/uploads');
+
+// Files are kept in memory and only forwarded to Gemini, never stored
+const upload = createUpload({ allowedTypes: AI_INPUT_TYPES });
 
 // POST /api/ai-help
 router.post('/help', upload.array('files'), async (req, res) => {
@@ -33,13 +19,10 @@ router.post('/help', upload.array('files'), async (req, res) => {
     }
 
     // Prepare files for Gemini API (base64 encode)
-    const fileData = await Promise.all(files.map(async (file) => {
-      const data = await fs.promises.readFile(file.path);
-      return {
-        filename: file.originalname,
-        content: data.toString('base64'),
-        mimetype: file.mimetype
-      };
+    const fileData = files.map((file) => ({
+      filename: file.originalname,
+      content: file.buffer.toString('base64'),
+      mimetype: file.mimetype
     }));
 
     // Call Gemini API (example for text + file, adjust as per Gemini API docs)
@@ -61,9 +44,6 @@ router.post('/help', upload.array('files'), async (req, res) => {
       }
     );
 
-    // Clean up uploaded files
-    files.forEach(file => fs.unlink(file.path, () => {}));
-
     // Return AI response
     res.json({
       aiResponse: response.data.candidates?.[0]?.content?.parts?.[0]?.text || 'No response from AI.'
@@ -0,0 +1,133 @@
+const express = require("express");
+const router = express.Router();
+const mongoose = require("mongoose");
+const jwt = require("jsonwebtoken");
+const Attachment = require("../models/Attachment");
+const HelpRequest = require("../models/HelpRequest");
+const { signAttachmentUrl, verifyAttachmentSignature, SIGNED_URL_TTL_SECONDS } = require("../utils/attachmentUrls");
+const { getStorage } = require("../utils/storage");
+
+// Middleware to verify JWT token
+const authenticateToken = async (req, res, next) => {
+  const authHeader = req.headers["authorization"];
+  const token = authHeader && authHeader.split(" ")[1];
+
+  if (!token) {
+    return res.status(401).json({ error: "Access token required" });
+  }
+
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-secret-key');
+    req.user = decoded;
+    next();
+  } catch (error) {
+    return res.status(403).json({ error: "Invalid or expired token" });
+  }
+};
+
+// Only the requester and current helper of the request may see its files
+const isParticipant = (request, userId) =>
+  !!request && (
+    request.requester.toString() === userId ||
+    request.helper?.toString() === userId
+  );
+
+// Load an attachment and check the user may access it, or send an error response
+const findAccessibleAttachment = async (req, res, userId) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    res.status(400).json({ error: "Invalid attachment id" });
+    return null;
+  }
+
+  const attachment = await Attachment.findById(req.params.id);
+  if (!attachment) {
+    res.status(404).json({ error: "Attachment not found" });
+    return null;
+  }
+
+  if (userId) {
+    const request = await HelpRequest.findById(attachment.request);
+    if (!isParticipant(request, userId)) {
+      res.status(403).json({ error: "Not authorized to access this file" });
+      return null;
+    }
+  }
+
+  return attachment;
+};
+
+// Get a fresh short-lived download URL for an attachment
+router.get("/:id/url", authenticateToken, async (req, res) => {
+  try {
+    const attachment = await findAccessibleAttachment(req, res, req.user.id);
+    if (!attachment) return;
+
+    res.json({
+      url: signAttachmentUrl(attachment._id),
+      expiresIn: SIGNED_URL_TTL_SECONDS
+    });
+  } catch (error) {
+    console.error("Error signing attachment url:", error);
+    res.status(500).json({ error: "Failed to get attachment url" });
+  }
+});
+
+// Download an attachment with either a signed URL or a participant's token
+router.get("/:id/download", async (req, res) => {
+  try {
+    const { expires, signature } = req.query;
+    const signed = mongoose.Types.ObjectId.isValid(req.params.id) &&
+      verifyAttachmentSignature(req.params.id, expires, signature);
+
+    let userId = null;
+    if (!signed) {
+      const authHeader = req.headers["authorization"];
+      const token = authHeader && authHeader.split(" ")[1];
+      if (!token) {
+        return res.status(401).json({ error: "Access token required" });
+      }
+      try {
+        userId = jwt.verify(token, process.env.JWT_SECRET || 'your-secret-key').id;
+      } catch (error) {
+        return res.status(403).json({ error: "Invalid or expired token" });
+      }
+    }
+
+    const attachment = await findAccessibleAttachment(req, res, userId);
+    if (!attachment) return;
+
+    let stream;
+    try {
+      stream = await getStorage().createReadStream(attachment.storedName);
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return res.status(404).json({ error: "File not found" });
+      }
+      throw error;
+    }
+
+    // Only images are shown in the page; anything else, text included, is downloaded
+    const inline = attachment.kind === 'image' && attachment.mimeType.startsWith('image/');
+    const disposition = inline ? 'inline' : 'attachment';
+    res.set({
+      'Content-Type': attachment.mimeType,
+      'X-Content-Type-Options': 'nosniff',
+      'Content-Length': attachment.size,
+      'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.originalName)}`,
+      'Cache-Control': 'private, max-age=300',
+      // The frontend is served from another origin and embeds images directly
+      'Cross-Origin-Resource-Policy': 'cross-origin'
+    });
+
+    stream.on('error', (error) => {
+      console.error("Error streaming attachment:", error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    console.error("Error downloading attachment:", error);
+    res.status(500).json({ error: "Failed to download attachment" });
+  }
+});
+
+module.exports = router;
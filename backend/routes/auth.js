@@ -3,6 +3,7 @@ const router = express.Router();
 const { body, validationResult } = require("express-validator");
 const jwt = require("jsonwebtoken");
 const User = require("../models/User");
+const { verifyGoogleIdToken } = require("../utils/googleAuth");
 
 // Middleware to verify JWT token
 const authenticateToken = async (req, res, next) => {
@@ -22,14 +23,11 @@ const authenticateToken = async (req, res, next) => {
   }
 };
 
-// Login/Register with Google
+// Login/Register with Google - identity comes only from the verified ID token
 router.post(
   "/google",
   [
-    body("email").isEmail().normalizeEmail(),
-    body("name").trim().isLength({ min: 1 }),
-    body("googleId").trim().isLength({ min: 1 }),
-    body("picture").optional().isURL(),
+    body("credential").isString().isLength({ min: 1 }),
   ],
   async (req, res) => {
     try {
@@ -38,7 +36,18 @@ router.post(
         return res.status(400).json({ errors: errors.array() });
       }
 
-      const { email, name, googleId, picture } = req.body;
+      let payload;
+      try {
+        payload = await verifyGoogleIdToken(req.body.credential);
+      } catch (verifyError) {
+        console.error("Google token verification failed:", verifyError.message);
+        return res.status(401).json({ error: "Invalid Google credential" });
+      }
+
+      const googleId = payload.sub;
+      const email = payload.email.toLowerCase();
+      const name = payload.name || email;
+      const picture = payload.picture;
 
       // Check if user exists
       let user = await User.findOne({ 
@@ -117,6 +126,64 @@ router.get("/profile", authenticateToken, async (req, res) => {
   }
 });
 
+// Update current user profile
+router.put(
+  "/profile",
+  authenticateToken,
+  [
+    body("bio").optional().isString().trim().isLength({ max: 500 }),
+    body("skills").optional().isArray({ max: 30 }),
+    body("skills.*").isString().trim().isLength({ min: 1, max: 50 }),
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const user = await User.findById(req.user.id);
+
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const { bio, skills } = req.body;
+
+      if (bio !== undefined) {
+        user.bio = bio;
+      }
+
+      if (skills !== undefined) {
+        // Drop case-insensitive duplicates while keeping the first spelling
+        const seen = new Set();
+        user.skills = skills.filter((skill) => {
+          const key = skill.toLowerCase();
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        });
+      }
+
+      await user.save();
+
+      res.json({
+        id: user._id,
+        email: user.email,
+        name: user.name,
+        picture: user.picture,
+        bio: user.bio,
+        skills: user.skills,
+        rating: user.rating,
+        totalReviews: user.totalReviews,
+      });
+    } catch (error) {
+      console.error("Profile update error:", error);
+      res.status(500).json({ error: "Failed to update profile" });
+    }
+  }
+);
+
 // Verify token
 router.get("/verify", authenticateToken, (req, res) => {
   res.json({ valid: true, user: req.user });
@@ -1,47 +1,26 @@
 const express = require("express");
 const router = express.Router();
+const mongoose = require("mongoose");
 const { body, validationResult } = require("express-validator");
 const jwt = require("jsonwebtoken");
-const multer = require("multer");
-const path = require("path");
-const fs = require("fs");
 const Message = require("../models/Message");
 const HelpRequest = require("../models/HelpRequest");
-const User = require("../models/User");
-const { sendEmail } = require('../utils/emailService');
-
-// Configure multer for file uploads
-const storage = multer.diskStorage({
-  destination: function (req, file, cb) {
-    const uploadsDir = path.join(__dirname, '../uploads');
-    if (!fs.existsSync(uploadsDir)) {
-      fs.mkdirSync(uploadsDir, { recursive: true });
-    }
-    cb(null, uploadsDir);
-  },
-  filename: function (req, file, cb) {
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    cb(null, file.fieldname + '-' + uniqueSuffix + path.extname(file.originalname));
-  }
-});
-
-const upload = multer({ 
-  storage: storage,
-  limits: {
-    fileSize: 10 * 1024 * 1024 // 10MB limit
-  },
-  fileFilter: function (req, file, cb) {
-    const allowedTypes = /jpeg|jpg|png|gif|pdf|doc|docx|txt|zip|rar/;
-    const extname = allowedTypes.test(path.extname(file.originalname).toLowerCase());
-    const mimetype = allowedTypes.test(file.mimetype);
-    
-    if (mimetype && extname) {
-      return cb(null, true);
-    } else {
-      cb(new Error('Only image and document files are allowed!'));
-    }
-  }
-});
+const Attachment = require("../models/Attachment");
+const { userRoom } = require('../utils/socketRooms');
+const {
+  sendMessage,
+  editMessage,
+  deleteMessage,
+  addReaction,
+  removeReaction,
+  formatMessage,
+  REPLY_TO_POPULATE
+} = require('../utils/messageService');
+const { signAttachmentUrl } = require('../utils/attachmentUrls');
+const { createUpload, generateStorageKey } = require('../utils/uploads');
+const { getStorage } = require('../utils/storage');
+
+const upload = createUpload();
 
 // Middleware to verify JWT token
 const authenticateToken = async (req, res, next) => {
@@ -61,53 +40,229 @@ const authenticateToken = async (req, res, next) => {
   }
 };
 
-// Get messages for a specific request
+// Messages sent before read receipts only carry an isRead flag. Until
+// scripts/fix-database.js turns it into a receipt, count it as read.
+const NOT_READ_BEFORE_RECEIPTS = { isRead: { $ne: true } };
+
+// Record a read receipt for `readerId` on every message the other party sent in
+// this request that they have not read yet, and tell both participants which
+// messages were seen. Returns the number of messages marked.
+const markRequestMessagesRead = async (io, request, readerId) => {
+  const unread = await Message.find({
+    request: request._id,
+    sender: { $ne: readerId },
+    'readBy.user': { $ne: readerId },
+    ...NOT_READ_BEFORE_RECEIPTS
+  }).select('_id');
+
+  if (unread.length === 0) {
+    return 0;
+  }
+
+  const messageIds = unread.map(message => message._id);
+  const readAt = new Date();
+
+  await Message.updateMany(
+    { _id: { $in: messageIds }, 'readBy.user': { $ne: readerId } },
+    { $push: { readBy: { user: readerId, readAt } } }
+  );
+
+  if (io) {
+    const rooms = [userRoom(request.requester)];
+    if (request.helper) {
+      rooms.push(userRoom(request.helper));
+    }
+    io.to(rooms).emit('messages_read', {
+      requestId: request._id,
+      readerId,
+      messageIds,
+      readAt
+    });
+  }
+
+  return messageIds.length;
+};
+
+const DEFAULT_PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 100;
+const MAX_SEARCH_RESULTS = 20;
+
+const parseLimit = (value, fallback) => {
+  const limit = parseInt(value, 10);
+  if (Number.isNaN(limit) || limit < 1) {
+    return fallback;
+  }
+  return Math.min(limit, MAX_PAGE_SIZE);
+};
+
+// Messages are ordered by (createdAt, _id); these match the ones either side of `cursor`
+const olderThan = (cursor) => ({
+  $or: [
+    { createdAt: { $lt: cursor.createdAt } },
+    { createdAt: cursor.createdAt, _id: { $lt: cursor._id } }
+  ]
+});
+
+const newerThan = (cursor) => ({
+  $or: [
+    { createdAt: { $gt: cursor.createdAt } },
+    { createdAt: cursor.createdAt, _id: { $gt: cursor._id } }
+  ]
+});
+
+// Load the request and check the user takes part in it, or send an error response
+const findParticipantRequest = async (req, res) => {
+  const { requestId } = req.params;
+  if (!mongoose.Types.ObjectId.isValid(requestId)) {
+    res.status(400).json({ error: "Invalid request id" });
+    return null;
+  }
+
+  const request = await HelpRequest.findById(requestId);
+  if (!request) {
+    res.status(404).json({ error: "Request not found" });
+    return null;
+  }
+
+  // Check if user is requester or helper
+  if (request.requester.toString() !== req.user.id &&
+      request.helper?.toString() !== req.user.id) {
+    res.status(403).json({ error: "Not authorized to view messages" });
+    return null;
+  }
+
+  return request;
+};
+
+// Up to `limit` messages of the request on one side of `cursor` (or the
+// latest ones without a cursor), plus whether more exist beyond them
+const findPage = async (requestId, { cursor, direction, limit }) => {
+  const query = { request: requestId };
+  if (cursor) {
+    Object.assign(query, direction === 'after' ? newerThan(cursor) : olderThan(cursor));
+  }
+
+  const order = direction === 'after' ? 1 : -1;
+  const messages = await Message.find(query)
+    .populate('sender', 'name email picture')
+    .populate(REPLY_TO_POPULATE)
+    .sort({ createdAt: order, _id: order })
+    .limit(limit + 1);
+
+  const hasMore = messages.length > limit;
+  const page = messages.slice(0, limit);
+  return {
+    messages: direction === 'after' ? page : page.reverse(),
+    hasMore
+  };
+};
+
+// Get messages for a specific request, oldest first. Without a cursor this is
+// the latest page; `before`/`after` page from a message id and `around`
+// centres the page on one message (used to jump to a search result).
 router.get("/request/:requestId", authenticateToken, async (req, res) => {
   try {
-    const { requestId } = req.params;
-    
-    // Verify user has access to this request
-    const request = await HelpRequest.findById(requestId);
-    if (!request) {
-      return res.status(404).json({ error: "Request not found" });
+    const request = await findParticipantRequest(req, res);
+    if (!request) return;
+
+    const { before, after, around } = req.query;
+    const cursorIds = [before, after, around].filter(Boolean);
+    if (cursorIds.length > 1) {
+      return res.status(400).json({ error: "Use only one of before, after or around" });
     }
 
-    // Check if user is requester or helper
-    if (request.requester.toString() !== req.user.id && 
-        request.helper?.toString() !== req.user.id) {
-      return res.status(403).json({ error: "Not authorized to view messages" });
+    const limit = parseLimit(req.query.limit, DEFAULT_PAGE_SIZE);
+
+    let cursor = null;
+    if (cursorIds.length === 1) {
+      if (!mongoose.Types.ObjectId.isValid(cursorIds[0])) {
+        return res.status(400).json({ error: "Invalid message id" });
+      }
+      cursor = await Message.findOne({ _id: cursorIds[0], request: request._id })
+        .populate('sender', 'name email picture')
+        .populate(REPLY_TO_POPULATE);
+      if (!cursor) {
+        return res.status(404).json({ error: "Message not found" });
+      }
     }
 
-    const messages = await Message.find({ request: requestId })
-      .populate('sender', 'name email picture')
-      .sort({ createdAt: 1 });
+    let messages;
+    let hasMoreBefore;
+    let hasMoreAfter;
+
+    if (around) {
+      // The anchor counts towards the limit; an empty side still reports hasMore
+      const beforeLimit = Math.floor((limit - 1) / 2);
+      const older = await findPage(request._id, { cursor, direction: 'before', limit: beforeLimit });
+      const newer = await findPage(request._id, { cursor, direction: 'after', limit: limit - 1 - beforeLimit });
+      messages = [...older.messages, cursor, ...newer.messages];
+      hasMoreBefore = older.hasMore;
+      hasMoreAfter = newer.hasMore;
+    } else if (after) {
+      const newer = await findPage(request._id, { cursor, direction: 'after', limit });
+      messages = newer.messages;
+      hasMoreBefore = true;
+      hasMoreAfter = newer.hasMore;
+    } else {
+      const older = await findPage(request._id, { cursor, direction: 'before', limit });
+      messages = older.messages;
+      hasMoreBefore = older.hasMore;
+      hasMoreAfter = !!cursor;
+    }
 
     // Transform messages to match frontend format
-    const transformedMessages = messages.map(message => ({
-      _id: message._id,
-      requestId: message.request,
-      senderId: message.sender._id,
-      senderName: message.sender.name,
-      senderPicture: message.sender.picture,
-      content: message.content,
-      messageType: message.messageType,
-      fileName: message.fileName,
-      fileSize: message.fileSize,
-      createdAt: message.createdAt,
-      isRead: message.isRead
-    }));
-
-    res.json(transformedMessages);
+    res.json({
+      messages: messages.map(message => formatMessage(message, message.sender)),
+      hasMoreBefore,
+      hasMoreAfter
+    });
   } catch (error) {
     console.error("Error fetching messages:", error);
     res.status(500).json({ error: "Failed to fetch messages" });
   }
 });
 
+// Search one conversation's history, best matches first
+router.get("/request/:requestId/search", authenticateToken, async (req, res) => {
+  try {
+    const request = await findParticipantRequest(req, res);
+    if (!request) return;
+
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (!q) {
+      return res.status(400).json({ error: "Search query is required" });
+    }
+    if (q.length > 200) {
+      return res.status(400).json({ error: "Search query is too long" });
+    }
+
+    const limit = Math.min(parseLimit(req.query.limit, MAX_SEARCH_RESULTS), MAX_SEARCH_RESULTS);
+
+    const messages = await Message.find(
+      { request: request._id, $text: { $search: q } },
+      { score: { $meta: 'textScore' } }
+    )
+      .populate('sender', 'name email picture')
+      .populate(REPLY_TO_POPULATE)
+      .sort({ score: { $meta: 'textScore' }, createdAt: -1 })
+      .limit(limit);
+
+    res.json({
+      results: messages.map(message => formatMessage(message, message.sender))
+    });
+  } catch (error) {
+    console.error("Error searching messages:", error);
+    res.status(500).json({ error: "Failed to search messages" });
+  }
+});
+
 // Send a new message
 router.post("/", authenticateToken, [
   body("requestId").isMongoId(),
-  body("content").trim().isLength({ min: 1 }),
+  body("content").optional().isString(),
+  body("attachmentId").optional().isMongoId(),
+  body("replyTo").optional().isMongoId(),
+  body("clientId").optional().isString(),
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -115,70 +270,26 @@ router.post("/", authenticateToken, [
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { requestId, content, messageType = 'text', fileName, fileSize } = req.body;
-
-    // Verify request exists and user has access
-    const request = await HelpRequest.findById(requestId);
-    if (!request) {
-      return res.status(404).json({ error: "Request not found" });
-    }
-
-    // Check if user is requester or helper
-    if (request.requester.toString() !== req.user.id && 
-        request.helper?.toString() !== req.user.id) {
-      return res.status(403).json({ error: "Not authorized to send messages" });
-    }
-
-    // Get user details for the message
-    const user = await User.findById(req.user.id);
-    if (!user) {
-      return res.status(404).json({ error: "User not found" });
-    }
+    const { requestId, content, messageType, attachmentId, replyTo, clientId } = req.body;
 
-    const newMessage = new Message({
-      request: requestId,
-      sender: req.user.id,
+    // Same path as the socket `send_message` event: access checks, storage,
+    // broadcast to the chat room and a notification for the other party
+    const message = await sendMessage({
+      io: req.app.get('io'),
+      senderId: req.user.id,
+      requestId,
       content,
-      messageType: messageType || 'text',
-      fileName,
-      fileSize,
-      isRead: false
+      messageType,
+      attachmentId,
+      replyTo,
+      clientId
     });
 
-    await newMessage.save();
-
-    // Determine recipient (other party)
-    let recipient;
-    if (request.requester.toString() === req.user.id) {
-      recipient = await User.findById(request.helper);
-    } else {
-      recipient = await User.findById(request.requester);
-    }
-    if (recipient && recipient.email) {
-      await sendEmail({
-        to: recipient.email,
-        subject: `New message on request: ${request.title}`,
-        text: `Hi ${recipient.name},\n\nYou have a new message from ${user.name} regarding the request '${request.title}':\n\n${content}\n\nPlease log in to SkillFull to reply.`,
-      });
-    }
-
-    // Create response object with user details
-    const messageResponse = {
-      _id: newMessage._id,
-      requestId: newMessage.request,
-      senderId: newMessage.sender,
-      senderName: user.name,
-      senderPicture: user.picture,
-      content: newMessage.content,
-      messageType: newMessage.messageType,
-      fileName: newMessage.fileName,
-      fileSize: newMessage.fileSize,
-      createdAt: newMessage.createdAt,
-      isRead: newMessage.isRead
-    };
-
-    res.status(201).json(messageResponse);
+    res.status(201).json(message);
   } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error("Error sending message:", error);
     res.status(500).json({ error: "Failed to send message" });
   }
@@ -201,16 +312,10 @@ router.put("/request/:requestId/read", authenticateToken, async (req, res) => {
       return res.status(403).json({ error: "Not authorized" });
     }
 
-    // Mark all messages in this request as read (since both users can see all messages)
-    await Message.updateMany(
-      { 
-        request: requestId, 
-        isRead: false 
-      },
-      { isRead: true }
-    );
+    // Only messages from the other party can be read by the caller
+    const count = await markRequestMessagesRead(req.app.get('io'), request, req.user.id);
 
-    res.json({ message: "Messages marked as read" });
+    res.json({ message: "Messages marked as read", count });
   } catch (error) {
     console.error("Error marking messages as read:", error);
     res.status(500).json({ error: "Failed to mark messages as read" });
@@ -228,18 +333,14 @@ router.put("/read-all", authenticateToken, async (req, res) => {
       ]
     });
 
-    const requestIds = userRequests.map(req => req._id);
-
-    // Mark all messages in user's requests as read
-    await Message.updateMany(
-      { 
-        request: { $in: requestIds },
-        isRead: false 
-      },
-      { isRead: true }
-    );
+    // Mark messages from the other party in each of the user's requests as read
+    const io = req.app.get('io');
+    let count = 0;
+    for (const request of userRequests) {
+      count += await markRequestMessagesRead(io, request, req.user.id);
+    }
 
-    res.json({ message: "All messages marked as read" });
+    res.json({ message: "All messages marked as read", count });
   } catch (error) {
     console.error("Error marking all messages as read:", error);
     res.status(500).json({ error: "Failed to mark all messages as read" });
@@ -259,9 +360,13 @@ router.get("/unread/count", authenticateToken, async (req, res) => {
 
     const requestIds = userRequests.map(req => req._id);
 
+    // Count only messages from the other party that the user has not read
     const count = await Message.countDocuments({
       request: { $in: requestIds },
-      isRead: false
+      sender: { $ne: req.user.id },
+      'readBy.user': { $ne: req.user.id },
+      deletedAt: null,
+      ...NOT_READ_BEFORE_RECEIPTS
     });
 
     res.json({ count });
@@ -271,7 +376,101 @@ router.get("/unread/count", authenticateToken, async (req, res) => {
   }
 });
 
-// Upload file and send message
+// Edit the text of a message the user sent recently
+router.patch("/:id", authenticateToken, [
+  body("content").isString(),
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const message = await editMessage({
+      io: req.app.get('io'),
+      userId: req.user.id,
+      messageId: req.params.id,
+      content: req.body.content
+    });
+
+    res.json(message);
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error editing message:", error);
+    res.status(500).json({ error: "Failed to edit message" });
+  }
+});
+
+// Delete a message the user sent recently, leaving a tombstone in the conversation
+router.delete("/:id", authenticateToken, async (req, res) => {
+  try {
+    const message = await deleteMessage({
+      io: req.app.get('io'),
+      userId: req.user.id,
+      messageId: req.params.id
+    });
+
+    res.json(message);
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error deleting message:", error);
+    res.status(500).json({ error: "Failed to delete message" });
+  }
+});
+
+// React to a message with an emoji
+router.post("/:id/reactions", authenticateToken, [
+  body("emoji").isString(),
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const result = await addReaction({
+      io: req.app.get('io'),
+      userId: req.user.id,
+      messageId: req.params.id,
+      emoji: req.body.emoji
+    });
+
+    res.json(result);
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error adding reaction:", error);
+    res.status(500).json({ error: "Failed to add reaction" });
+  }
+});
+
+// Remove the user's emoji reaction from a message
+router.delete("/:id/reactions/:emoji", authenticateToken, async (req, res) => {
+  try {
+    const result = await removeReaction({
+      io: req.app.get('io'),
+      userId: req.user.id,
+      messageId: req.params.id,
+      emoji: req.params.emoji
+    });
+
+    res.json(result);
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error removing reaction:", error);
+    res.status(500).json({ error: "Failed to remove reaction" });
+  }
+});
+
+// Upload a file as an attachment on a request; it is sent by passing the
+// returned attachmentId with a file or image message
 router.post("/upload", authenticateToken, upload.single('file'), async (req, res) => {
   try {
     if (!req.file) {
@@ -281,7 +480,9 @@ router.post("/upload", authenticateToken, upload.single('file'), async (req, res
     const { requestId } = req.body;
 
     // Verify request exists and user has access
-    const request = await HelpRequest.findById(requestId);
+    const request = mongoose.Types.ObjectId.isValid(requestId)
+      ? await HelpRequest.findById(requestId)
+      : null;
     if (!request) {
       return res.status(404).json({ error: "Request not found" });
     }
@@ -292,17 +493,27 @@ router.post("/upload", authenticateToken, upload.single('file'), async (req, res
       return res.status(403).json({ error: "Not authorized to send messages" });
     }
 
-    // Determine message type based on file
-    const fileExt = path.extname(req.file.originalname).toLowerCase();
-    const isImage = /\.(jpg|jpeg|png|gif)$/i.test(fileExt);
-    const messageType = isImage ? 'image' : 'file';
+    // Determine message type from the sniffed content type
+    const messageType = req.file.mimetype.startsWith('image/') ? 'image' : 'file';
 
-    // Create file URL
-    const fileUrl = `${req.protocol}://${req.get('host')}/uploads/${req.file.filename}`;
+    const storedName = generateStorageKey(req.file);
+    await getStorage().save(storedName, req.file.buffer, req.file.mimetype);
+
+    const attachment = new Attachment({
+      request: request._id,
+      uploader: req.user.id,
+      originalName: req.file.originalname,
+      storedName,
+      mimeType: req.file.mimetype,
+      size: req.file.size,
+      kind: messageType
+    });
+    await attachment.save();
 
     // Return file data for frontend to create message
     res.json({
-      fileUrl,
+      attachmentId: attachment._id,
+      fileUrl: signAttachmentUrl(attachment._id),
       fileName: req.file.originalname,
       fileSize: req.file.size,
       fileType: messageType
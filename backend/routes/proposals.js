@@ -0,0 +1,357 @@
+const express = require("express");
+const router = express.Router();
+const mongoose = require("mongoose");
+const { body, validationResult } = require("express-validator");
+const jwt = require("jsonwebtoken");
+const Proposal = require("../models/Proposal");
+const HelpRequest = require("../models/HelpRequest");
+const { sendEmail } = require('../utils/emailService');
+const { notify } = require('../utils/notificationService');
+const { userRoom, FEED_ROOM, emitToParticipants } = require('../utils/socketRooms');
+
+// Middleware to verify JWT token
+const authenticateToken = async (req, res, next) => {
+  const authHeader = req.headers["authorization"];
+  const token = authHeader && authHeader.split(" ")[1];
+
+  if (!token) {
+    return res.status(401).json({ error: "Access token required" });
+  }
+
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-secret-key');
+    req.user = decoded;
+    next();
+  } catch (error) {
+    return res.status(403).json({ error: "Invalid or expired token" });
+  }
+};
+
+const PROPOSAL_STATUSES = Proposal.schema.path('status').enumValues;
+
+// Helper details shown when comparing proposals
+const HELPER_FIELDS = 'name email picture rating totalReviews skills';
+
+// Get the current user's proposals as a helper, optionally filtered by status
+router.get("/mine", authenticateToken, async (req, res) => {
+  try {
+    const query = { helper: req.user.id };
+    if (req.query.status !== undefined) {
+      if (!PROPOSAL_STATUSES.includes(req.query.status)) {
+        return res.status(400).json({ error: "Invalid status" });
+      }
+      query.status = req.query.status;
+    }
+
+    const proposals = await Proposal.find(query)
+      .sort({ createdAt: -1 })
+      .limit(100)
+      .populate('request', 'title status');
+
+    res.json(proposals);
+  } catch (error) {
+    console.error("Error fetching my proposals:", error);
+    res.status(500).json({ error: "Failed to fetch your proposals" });
+  }
+});
+
+// Get proposals for a request: all of them for its requester, only their own for a helper
+router.get("/request/:requestId", authenticateToken, async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.requestId)) {
+      return res.status(400).json({ error: "Invalid request id" });
+    }
+
+    const request = await HelpRequest.findById(req.params.requestId).select('requester');
+    if (!request) {
+      return res.status(404).json({ error: "Request not found" });
+    }
+
+    const query = { request: request._id };
+    if (request.requester.toString() !== req.user.id) {
+      query.helper = req.user.id;
+    }
+
+    const proposals = await Proposal.find(query)
+      .sort({ createdAt: 1 })
+      .populate('helper', HELPER_FIELDS);
+
+    res.json(proposals);
+  } catch (error) {
+    console.error("Error fetching proposals:", error);
+    res.status(500).json({ error: "Failed to fetch proposals" });
+  }
+});
+
+// Send a proposal for an open request
+router.post("/", authenticateToken, [
+  body("requestId").isMongoId(),
+  body("message").isString().trim().isLength({ min: 1, max: 1000 }),
+  body("price").optional({ values: 'null' }).isFloat({ min: 0 }).toFloat(),
+  body("availability").optional().isString().trim().isLength({ max: 200 }),
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { requestId, message, price, availability } = req.body;
+
+    const request = await HelpRequest.findById(requestId).populate('requester', 'name email');
+    if (!request) {
+      return res.status(404).json({ error: "Request not found" });
+    }
+
+    if (request.status !== 'open') {
+      return res.status(400).json({ error: "Request is not available" });
+    }
+
+    if (request.requester._id.toString() === req.user.id) {
+      return res.status(400).json({ error: "Cannot send a proposal for your own request" });
+    }
+
+    let proposal = await Proposal.findOne({ request: request._id, helper: req.user.id });
+    if (proposal && (proposal.status === 'pending' || proposal.status === 'accepted')) {
+      return res.status(400).json({ error: "You have already sent a proposal for this request" });
+    }
+
+    if (!proposal) {
+      proposal = new Proposal({ request: request._id, helper: req.user.id });
+    }
+    proposal.message = message;
+    proposal.price = price ?? undefined;
+    proposal.availability = availability || undefined;
+    proposal.status = 'pending';
+    proposal.respondedAt = undefined;
+
+    try {
+      await proposal.save();
+    } catch (error) {
+      // Two submissions raced past the check above
+      if (error.code === 11000) {
+        return res.status(400).json({ error: "You have already sent a proposal for this request" });
+      }
+      throw error;
+    }
+
+    await proposal.populate('helper', HELPER_FIELDS);
+
+    const io = req.app.get('io');
+    if (io) {
+      io.to(userRoom(request.requester._id)).emit("proposal_received", {
+        requestId: request._id,
+        requestTitle: request.title,
+        proposal
+      });
+    }
+
+    await notify(io, {
+      recipient: request.requester._id,
+      type: 'proposal_received',
+      message: `${req.user.name} sent a proposal for "${request.title}"`,
+      requestId: request._id,
+      requestTitle: request.title
+    });
+
+    try {
+      await sendEmail({
+        to: request.requester.email,
+        subject: `New proposal for your request: ${request.title}`,
+        text: `Hi ${request.requester.name},\n\n${req.user.name} would like to help with '${request.title}'.\n\n${message}${price !== undefined && price !== null ? `\n\nProposed price: $${price}` : ''}${availability ? `\nAvailability: ${availability}` : ''}\n\nCompare proposals and choose a helper from My Requests on SkillFull.`,
+      });
+    } catch (e) {
+      console.error('Failed to send proposal email:', e);
+    }
+
+    res.status(201).json(proposal);
+  } catch (error) {
+    console.error("Error sending proposal:", error);
+    res.status(500).json({ error: "Failed to send proposal" });
+  }
+});
+
+// Accept a proposal (requester only): assigns its helper and declines the rest
+router.post("/:id/accept", authenticateToken, async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ error: "Invalid proposal id" });
+    }
+
+    const proposal = await Proposal.findById(req.params.id);
+    if (!proposal) {
+      return res.status(404).json({ error: "Proposal not found" });
+    }
+
+    const existing = await HelpRequest.findById(proposal.request).select('requester');
+    if (!existing) {
+      return res.status(404).json({ error: "Request not found" });
+    }
+    if (existing.requester.toString() !== req.user.id) {
+      return res.status(403).json({ error: "Only the requester can choose a proposal" });
+    }
+
+    // Claim the proposal first so a withdrawal can't slip in before it is accepted
+    const now = new Date();
+    const accepted = await Proposal.findOneAndUpdate(
+      { _id: proposal._id, status: 'pending' },
+      { status: 'accepted', respondedAt: now },
+      { new: true }
+    );
+    if (!accepted) {
+      return res.status(400).json({ error: "This proposal is no longer pending" });
+    }
+
+    // Only move the request out of 'open' once, even if two proposals are accepted at the same time
+    let request;
+    try {
+      request = await HelpRequest.findOneAndUpdate(
+        { _id: proposal.request, requester: req.user.id, status: 'open' },
+        { helper: proposal.helper, status: 'in_progress', acceptedAt: now, agreedPrice: proposal.price },
+        { new: true }
+      );
+    } finally {
+      if (!request) {
+        await Proposal.updateOne(
+          { _id: proposal._id, status: 'accepted' },
+          { status: 'pending', $unset: { respondedAt: 1 } }
+        );
+      }
+    }
+
+    if (!request) {
+      return res.status(400).json({ error: "Request is not open" });
+    }
+
+    const declinedProposals = await Proposal.find({
+      request: request._id,
+      status: 'pending',
+      _id: { $ne: proposal._id }
+    }).populate('helper', 'name email');
+
+    await Proposal.updateMany(
+      { _id: { $in: declinedProposals.map((p) => p._id) } },
+      { status: 'declined', respondedAt: now }
+    );
+
+    const populatedRequest = await HelpRequest.findById(request._id)
+      .populate('requester', 'name email picture')
+      .populate('category', 'name description icon')
+      .populate('helper', 'name email picture');
+
+    const io = req.app.get('io');
+    if (io) {
+      const payload = {
+        requestId: request._id,
+        requestTitle: request.title,
+        helperId: proposal.helper.toString(),
+        requesterId: request.requester.toString(),
+        helperName: populatedRequest.helper.name,
+        requesterName: populatedRequest.requester.name
+      };
+
+      emitToParticipants(io, request, "request_accepted", payload);
+      emitToParticipants(io, request, "request_status_updated", { ...payload, status: 'in_progress' });
+
+      // Let everyone browsing the feed know the request was taken, without naming anyone
+      io.to(FEED_ROOM).emit("request_unavailable", {
+        requestId: request._id,
+        status: 'in_progress'
+      });
+    }
+
+    await notify(io, {
+      recipient: proposal.helper,
+      type: 'proposal_accepted',
+      message: `${populatedRequest.requester.name} chose your proposal for "${request.title}"`,
+      requestId: request._id,
+      requestTitle: request.title
+    });
+
+    for (const declined of declinedProposals) {
+      await notify(io, {
+        recipient: declined.helper._id,
+        type: 'proposal_declined',
+        message: `${populatedRequest.requester.name} chose another helper for "${request.title}"`,
+        requestId: request._id,
+        requestTitle: request.title
+      });
+    }
+
+    try {
+      // Notify the chosen helper
+      await sendEmail({
+        to: populatedRequest.helper.email,
+        subject: `Your proposal was accepted!`,
+        text: `Hi ${populatedRequest.helper.name},\n\n${populatedRequest.requester.name} chose your proposal for '${populatedRequest.title}'.\n\nYou can now chat and collaborate.`,
+      });
+      // Notify requester
+      await sendEmail({
+        to: populatedRequest.requester.email,
+        subject: `You chose a helper for your request`,
+        text: `Hi ${populatedRequest.requester.name},\n\n${populatedRequest.helper.name} is now helping with '${populatedRequest.title}'.\n\nYou can now chat and collaborate.`,
+      });
+      // Let everyone else know they weren't chosen
+      for (const declined of declinedProposals) {
+        await sendEmail({
+          to: declined.helper.email,
+          subject: `Update on your proposal for: ${populatedRequest.title}`,
+          text: `Hi ${declined.helper.name},\n\n${populatedRequest.requester.name} has chosen another helper for '${populatedRequest.title}'.\n\nThank you for offering your help on SkillFull!`,
+        });
+      }
+    } catch (e) {
+      console.error('Failed to send proposal acceptance email:', e);
+    }
+
+    res.json({ request: populatedRequest, proposal: accepted });
+  } catch (error) {
+    console.error("Error accepting proposal:", error);
+    res.status(500).json({ error: "Failed to accept proposal" });
+  }
+});
+
+// Withdraw a pending proposal (its helper only)
+router.post("/:id/withdraw", authenticateToken, async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ error: "Invalid proposal id" });
+    }
+
+    const proposal = await Proposal.findById(req.params.id);
+    if (!proposal) {
+      return res.status(404).json({ error: "Proposal not found" });
+    }
+
+    if (proposal.helper.toString() !== req.user.id) {
+      return res.status(403).json({ error: "Only the helper can withdraw this proposal" });
+    }
+
+    // Only withdraw if it is still pending, so an acceptance in the meantime stands
+    const withdrawn = await Proposal.findOneAndUpdate(
+      { _id: proposal._id, helper: req.user.id, status: 'pending' },
+      { status: 'withdrawn', respondedAt: new Date() },
+      { new: true }
+    );
+    if (!withdrawn) {
+      return res.status(400).json({ error: "This proposal is no longer pending" });
+    }
+
+    const io = req.app.get('io');
+    if (io) {
+      const request = await HelpRequest.findById(withdrawn.request).select('requester');
+      if (request) {
+        io.to(userRoom(request.requester)).emit("proposal_withdrawn", {
+          requestId: withdrawn.request,
+          proposalId: withdrawn._id
+        });
+      }
+    }
+
+    res.json(withdrawn);
+  } catch (error) {
+    console.error("Error withdrawing proposal:", error);
+    res.status(500).json({ error: "Failed to withdraw proposal" });
+  }
+});
+
+module.exports = router;
@@ -1,11 +1,19 @@
 const express = require("express");
 const router = express.Router();
+const mongoose = require("mongoose");
 const { body, validationResult } = require("express-validator");
 const jwt = require("jsonwebtoken");
 const HelpRequest = require("../models/HelpRequest");
+const Proposal = require("../models/Proposal");
 const Category = require("../models/Category");
 const User = require("../models/User");
 const { sendEmail } = require('../utils/emailService');
+const { createNotification } = require('../utils/notificationService');
+const { FEED_ROOM, emitToParticipants } = require('../utils/socketRooms');
+const { recommendRequests } = require('../utils/matchingService');
+const { notifyMatchingHelpers } = require('../utils/subscriptionService');
+const { requestCompletion, confirmCompletion, disputeCompletion } = require('../utils/completionService');
+const { cancelRequestSessions } = require('../utils/sessionService');
 
 // Middleware to verify JWT token
 const authenticateToken = async (req, res, next) => {
@@ -25,45 +33,277 @@ const authenticateToken = async (req, res, next) => {
   }
 };
 
-// Get all help requests
-router.get("/", async (req, res) => {
-  try {
-    const { status, category, search } = req.query;
-    
-    let query = {};
-    
-    // Only filter by status if it's explicitly provided
-    if (status) {
-      query.status = status;
-    }
-    
-    if (category) {
-      const categoryDoc = await Category.findOne({ name: category });
-      if (categoryDoc) {
-        query.category = categoryDoc._id;
-      }
+// Validation shared by create and update
+const requestValidationRules = [
+  body("title").trim().isLength({ min: 1 }),
+  body("description").trim().isLength({ min: 1 }),
+  body("categoryId").isMongoId(),
+];
+
+// Fields a requester may change, mapped from body keys to document paths
+const EDITABLE_FIELDS = {
+  title: 'title',
+  description: 'description',
+  categoryId: 'category',
+  skillsNeeded: 'skillsNeeded',
+  urgency: 'urgency',
+  estimatedDuration: 'estimatedDuration',
+  location: 'location',
+  isRemote: 'isRemote',
+  budgetMin: 'budgetMin',
+  budgetMax: 'budgetMax'
+};
+
+// The edit form sends "" for fields left blank, which is the same as unset
+const normalizeEditValue = (value) => (value === undefined || value === null || value === '' ? null : value);
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+const parseLimit = (value, fallback) => {
+  const limit = parseInt(value, 10);
+  if (Number.isNaN(limit) || limit < 1) {
+    return fallback;
+  }
+  return Math.min(limit, MAX_PAGE_SIZE);
+};
+
+// Sort keys for each sort option, all descending. `_id` is always the final
+// tie-breaker so the cursor identifies a unique position in the result set.
+const REQUEST_SORTS = {
+  newest: ['createdAt', '_id'],
+  urgency: ['urgencyRank', 'createdAt', '_id'],
+  budget: ['budgetSort', 'createdAt', '_id']
+};
+
+// Computed fields used for filtering and sorting, removed before responding
+const COMPUTED_FIELDS = {
+  urgencyRank: {
+    $switch: {
+      branches: [
+        { case: { $eq: ['$urgency', 'high'] }, then: 3 },
+        { case: { $eq: ['$urgency', 'medium'] }, then: 2 }
+      ],
+      default: 1
     }
-    
-    if (search) {
-      query.$or = [
-        { title: { $regex: search, $options: 'i' } },
-        { description: { $regex: search, $options: 'i' } }
-      ];
+  },
+  budgetHigh: { $ifNull: ['$budgetMax', '$budgetMin'] },
+  budgetLow: { $ifNull: ['$budgetMin', '$budgetMax'] },
+  budgetSort: { $ifNull: ['$budgetMax', { $ifNull: ['$budgetMin', -1] }] }
+};
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const toList = (value) => (Array.isArray(value) ? value : String(value).split(','))
+  .map((item) => item.trim())
+  .filter(Boolean);
+
+const encodeCursor = (doc, keys) =>
+  Buffer.from(JSON.stringify(keys.map((key) => doc[key]))).toString('base64url');
+
+const decodeCursor = (cursor, keys) => {
+  const values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  if (!Array.isArray(values) || values.length !== keys.length) {
+    throw new Error('Invalid cursor');
+  }
+  return values.map((value, i) => {
+    if (keys[i] === '_id') return new mongoose.Types.ObjectId(value);
+    if (keys[i] === 'createdAt') return new Date(value);
+    if (typeof value !== 'number') throw new Error('Invalid cursor');
+    return value;
+  });
+};
+
+// Match everything strictly after the cursor position in descending order:
+// (k1 < v1) OR (k1 = v1 AND k2 < v2) OR ...
+const cursorCondition = (keys, values) => ({
+  $or: keys.map((key, i) => {
+    const condition = {};
+    keys.slice(0, i).forEach((prevKey, j) => {
+      condition[prevKey] = values[j];
+    });
+    condition[key] = { $lt: values[i] };
+    return condition;
+  })
+});
+
+// Respond with one page of help requests matching the query string filters.
+// `scope` is applied on top of the filters, e.g. to restrict results to one user.
+const sendRequestPage = async (req, res, scope = {}) => {
+  const {
+    status,
+    category,
+    categoryId,
+    search,
+    urgency,
+    isRemote,
+    budgetMin,
+    budgetMax,
+    skillsNeeded,
+    requester,
+    helper,
+    cursor
+  } = req.query;
+  const sort = req.query.sort || 'newest';
+  const limit = parseLimit(req.query.limit, DEFAULT_PAGE_SIZE);
+
+  const sortKeys = REQUEST_SORTS[sort];
+  if (!sortKeys) {
+    return res.status(400).json({ error: "Invalid sort option" });
+  }
+
+  for (const [name, value] of Object.entries({ categoryId, requester, helper })) {
+    if (value && !mongoose.Types.ObjectId.isValid(value)) {
+      return res.status(400).json({ error: `Invalid ${name}` });
     }
+  }
 
-    const requests = await HelpRequest.find(query)
-      .populate('requester', 'name email picture')
-      .populate('category', 'name description icon')
-      .populate('helper', 'name email picture')
-      .sort({ createdAt: -1 });
+  const query = {};
+  const computedQuery = {};
+
+  // Only filter by status if it's explicitly provided; accepts a comma-separated list
+  if (status) {
+    const statuses = toList(status);
+    query.status = statuses.length === 1 ? statuses[0] : { $in: statuses };
+  }
+
+  if (categoryId) {
+    query.category = new mongoose.Types.ObjectId(categoryId);
+  } else if (category) {
+    const categoryDoc = await Category.findOne({ name: category });
+    if (categoryDoc) {
+      query.category = categoryDoc._id;
+    }
+  }
+
+  if (urgency) {
+    const levels = toList(urgency);
+    query.urgency = levels.length === 1 ? levels[0] : { $in: levels };
+  }
+
+  if (isRemote === 'true' || isRemote === 'false') {
+    query.isRemote = isRemote === 'true';
+  }
+
+  if (skillsNeeded) {
+    query.skillsNeeded = {
+      $in: toList(skillsNeeded).map((skill) => new RegExp(`^${escapeRegex(skill)}$`, 'i'))
+    };
+  }
+
+  if (requester) {
+    query.requester = new mongoose.Types.ObjectId(requester);
+  }
+
+  if (helper) {
+    query.helper = new mongoose.Types.ObjectId(helper);
+  }
+
+  Object.assign(query, scope);
+
+  if (search) {
+    const pattern = escapeRegex(String(search));
+    query.$or = [
+      { title: { $regex: pattern, $options: 'i' } },
+      { description: { $regex: pattern, $options: 'i' } }
+    ];
+  }
+
+  // A request matches a budget range when its own range overlaps it
+  if (budgetMin !== undefined && budgetMin !== '') {
+    const min = Number(budgetMin);
+    if (Number.isNaN(min)) {
+      return res.status(400).json({ error: "Invalid budgetMin" });
+    }
+    computedQuery.budgetHigh = { $gte: min };
+  }
+
+  if (budgetMax !== undefined && budgetMax !== '') {
+    const max = Number(budgetMax);
+    if (Number.isNaN(max)) {
+      return res.status(400).json({ error: "Invalid budgetMax" });
+    }
+    computedQuery.budgetLow = { $lte: max };
+  }
+
+  if (cursor) {
+    try {
+      Object.assign(computedQuery, cursorCondition(sortKeys, decodeCursor(cursor, sortKeys)));
+    } catch (error) {
+      return res.status(400).json({ error: "Invalid cursor" });
+    }
+  }
 
-    res.json(requests);
+  const sortStage = {};
+  sortKeys.forEach((key) => {
+    sortStage[key] = -1;
+  });
+
+  const docs = await HelpRequest.aggregate([
+    { $match: query },
+    { $addFields: COMPUTED_FIELDS },
+    { $match: computedQuery },
+    { $sort: sortStage },
+    { $limit: limit + 1 }
+  ]);
+
+  const hasMore = docs.length > limit;
+  const page = hasMore ? docs.slice(0, limit) : docs;
+  const nextCursor = hasMore ? encodeCursor(page[page.length - 1], sortKeys) : null;
+
+  page.forEach((doc) => {
+    Object.keys(COMPUTED_FIELDS).forEach((field) => delete doc[field]);
+  });
+
+  const requests = await HelpRequest.populate(page, [
+    { path: 'requester', select: 'name email picture' },
+    { path: 'category', select: 'name description icon' },
+    { path: 'helper', select: 'name email picture' }
+  ]);
+
+  res.json({ requests, nextCursor, hasMore });
+};
+
+// Get help requests, paginated with an opaque cursor
+router.get("/", async (req, res) => {
+  try {
+    await sendRequestPage(req, res);
   } catch (error) {
     console.error("Error fetching requests:", error);
     res.status(500).json({ error: "Failed to fetch requests" });
   }
 });
 
+// Get requests the current user posted (role=requester) or is helping with (role=helper)
+router.get("/mine", authenticateToken, async (req, res) => {
+  try {
+    const role = req.query.role || 'requester';
+    if (!['requester', 'helper'].includes(role)) {
+      return res.status(400).json({ error: "Invalid role" });
+    }
+
+    await sendRequestPage(req, res, { [role]: new mongoose.Types.ObjectId(req.user.id) });
+  } catch (error) {
+    console.error("Error fetching my requests:", error);
+    res.status(500).json({ error: "Failed to fetch your requests" });
+  }
+});
+
+// Open requests ranked for the current user as a helper, with the reasons for each match
+router.get("/recommended", authenticateToken, async (req, res) => {
+  try {
+    const limit = parseInt(req.query.limit, 10) || undefined;
+    const recommendations = await recommendRequests(req.user.id, { limit });
+    res.json({ recommendations });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error fetching recommended requests:", error);
+    res.status(500).json({ error: "Failed to fetch recommended requests" });
+  }
+});
+
 // Get single help request
 router.get("/:id", async (req, res) => {
   try {
@@ -84,11 +324,7 @@ router.get("/:id", async (req, res) => {
 });
 
 // Create new help request
-router.post("/", authenticateToken, [
-  body("title").trim().isLength({ min: 1 }),
-  body("description").trim().isLength({ min: 1 }),
-  body("categoryId").isMongoId(),
-], async (req, res) => {
+router.post("/", authenticateToken, requestValidationRules, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -144,6 +380,11 @@ router.post("/", authenticateToken, [
       console.error('Failed to send creation email:', e);
     }
 
+    // Helpers subscribed to this category or these skills
+    notifyMatchingHelpers(req.app.get('io'), populatedRequest).catch((e) => {
+      console.error('Failed to notify subscribed helpers:', e);
+    });
+
     res.status(201).json(populatedRequest);
   } catch (error) {
     console.error("Error creating request:", error);
@@ -151,89 +392,338 @@ router.post("/", authenticateToken, [
   }
 });
 
-// Accept help request
-router.post("/:id/accept", authenticateToken, async (req, res) => {
+// Update help request (requester only, while open)
+router.put("/:id", authenticateToken, requestValidationRules, async (req, res) => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
     const request = await HelpRequest.findById(req.params.id);
-    
+
     if (!request) {
       return res.status(404).json({ error: "Request not found" });
     }
 
+    if (request.requester.toString() !== req.user.id) {
+      return res.status(403).json({ error: "Only the requester can edit this request" });
+    }
+
     if (request.status !== 'open') {
-      return res.status(400).json({ error: "Request is not available" });
+      return res.status(400).json({ error: "Only open requests can be edited" });
+    }
+
+    if (req.body.categoryId !== request.category.toString()) {
+      const category = await Category.findById(req.body.categoryId);
+      if (!category) {
+        return res.status(400).json({ error: "Invalid category" });
+      }
+    }
+
+    const changes = [];
+    Object.entries(EDITABLE_FIELDS).forEach(([bodyKey, path]) => {
+      if (req.body[bodyKey] === undefined) return;
+
+      const from = request[path];
+      const to = req.body[bodyKey];
+      if (JSON.stringify(normalizeEditValue(from)) !== JSON.stringify(normalizeEditValue(to))) {
+        changes.push({ field: path, from, to });
+        request[path] = to;
+      }
+    });
+
+    if (changes.length > 0) {
+      request.editHistory.push({
+        editedBy: req.user.id,
+        changes
+      });
+      await request.save();
+    }
+
+    const populatedRequest = await HelpRequest.findById(request._id)
+      .populate('requester', 'name email picture')
+      .populate('category', 'name description icon')
+      .populate('helper', 'name email picture');
+
+    res.json(populatedRequest);
+  } catch (error) {
+    console.error("Error updating request:", error);
+    res.status(500).json({ error: "Failed to update request" });
+  }
+});
+
+// Mark help request as done (helper only); the requester confirms or disputes
+router.post("/:id/complete", authenticateToken, async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ error: "Invalid request id" });
+    }
+
+    const request = await requestCompletion(req.app.get('io'), req.params.id, req.user);
+    res.json(request);
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error completing request:", error);
+    res.status(500).json({ error: "Failed to complete request" });
+  }
+});
+
+// Confirm a request the helper marked as done (requester only)
+router.post("/:id/confirm", authenticateToken, async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ error: "Invalid request id" });
+    }
+
+    const request = await confirmCompletion(req.app.get('io'), req.params.id, { userId: req.user.id });
+    res.json(request);
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error confirming completion:", error);
+    res.status(500).json({ error: "Failed to confirm completion" });
+  }
+});
+
+// Dispute a request the helper marked as done (requester only)
+router.post("/:id/dispute", authenticateToken, [
+  body("reason").isString().trim().isLength({ min: 1, max: 1000 }),
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
     }
 
-    if (request.requester.toString() === req.user.id) {
-      return res.status(400).json({ error: "Cannot accept your own request" });
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ error: "Invalid request id" });
     }
 
-    request.helper = req.user.id;
-    request.status = 'in_progress';
-    request.acceptedAt = new Date();
+    const request = await disputeCompletion(req.app.get('io'), req.params.id, req.user.id, req.body.reason);
+    res.json(request);
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error disputing completion:", error);
+    res.status(500).json({ error: "Failed to dispute completion" });
+  }
+});
+
+// Cancel help request (requester only)
+router.post("/:id/cancel", authenticateToken, [
+  body("reason").optional().trim().isLength({ max: 500 }),
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const request = await HelpRequest.findById(req.params.id);
+
+    if (!request) {
+      return res.status(404).json({ error: "Request not found" });
+    }
+
+    if (request.requester.toString() !== req.user.id) {
+      return res.status(403).json({ error: "Only the requester can cancel this request" });
+    }
+
+    if (request.status !== 'open' && request.status !== 'in_progress') {
+      return res.status(400).json({ error: "Only open or in-progress requests can be cancelled" });
+    }
+
+    request.status = 'cancelled';
+    request.cancelledAt = new Date();
+    request.cancellationReason = req.body.reason;
     await request.save();
 
+    // Nobody can be chosen for a cancelled request
+    await Proposal.updateMany(
+      { request: request._id, status: 'pending' },
+      { status: 'declined', respondedAt: request.cancelledAt }
+    );
+    await cancelRequestSessions(req.app.get('io'), request, req.user.id);
+
     const populatedRequest = await HelpRequest.findById(request._id)
       .populate('requester', 'name email picture')
       .populate('category', 'name description icon')
       .populate('helper', 'name email picture');
 
-    // Emit socket event to notify both users
     const io = req.app.get('io');
     if (io) {
-      // Emit to both helper and requester
-      io.emit("request_accepted", {
+      emitToParticipants(io, request, "request_status_updated", {
         requestId: request._id,
         requestTitle: request.title,
-        helperId: req.user.id,
+        status: 'cancelled',
+        helperId: request.helper?.toString(),
         requesterId: request.requester.toString(),
-        helperName: req.user.name,
-        requesterName: populatedRequest.requester.name
+        cancelledBy: req.user.id,
+        cancelledByName: req.user.name
       });
 
-      // Also emit a status update event
-      io.emit("request_status_updated", {
+      io.to(FEED_ROOM).emit("request_unavailable", {
         requestId: request._id,
-        requestTitle: request.title,
-        status: 'in_progress',
-        helperId: req.user.id,
-        requesterId: request.requester.toString(),
-        helperName: req.user.name,
-        requesterName: populatedRequest.requester.name
+        status: 'cancelled'
       });
 
-      console.log("🎉 Emitted request_accepted event for:", request.title);
+      console.log("🚫 Emitted request cancellation event for:", request.title);
+    }
+
+    if (populatedRequest.helper) {
+      try {
+        await createNotification({
+          recipient: populatedRequest.helper._id,
+          type: 'request_cancelled',
+          message: `${populatedRequest.requester.name} cancelled the request "${request.title}"`,
+          requestId: request._id,
+          requestTitle: request.title
+        });
+      } catch (e) {
+        console.error('Failed to save cancellation notification:', e);
+      }
     }
 
     try {
       // Notify requester
       await sendEmail({
         to: populatedRequest.requester.email,
-        subject: `Your request has been accepted!`,
-        text: `Hi ${populatedRequest.requester.name},\n\nYour request '${populatedRequest.title}' has been accepted by ${populatedRequest.helper.name}.\n\nYou can now chat and collaborate.`,
+        subject: `Your help request has been cancelled`,
+        text: `Hi ${populatedRequest.requester.name},\n\nYour help request '${populatedRequest.title}' has been cancelled.\n\nYou can reopen it at any time from My Requests.`,
       });
       // Notify helper
+      if (populatedRequest.helper) {
+        await sendEmail({
+          to: populatedRequest.helper.email,
+          subject: `A request you were helping with was cancelled`,
+          text: `Hi ${populatedRequest.helper.name},\n\n${populatedRequest.requester.name} has cancelled the request '${populatedRequest.title}'.${request.cancellationReason ? `\n\nReason: ${request.cancellationReason}` : ''}\n\nThank you for offering your help on SkillFull!`,
+        });
+      }
+    } catch (e) {
+      console.error('Failed to send cancellation email:', e);
+    }
+
+    res.json(populatedRequest);
+  } catch (error) {
+    console.error("Error cancelling request:", error);
+    res.status(500).json({ error: "Failed to cancel request" });
+  }
+});
+
+// Reopen help request (requester only) - from cancelled, or releasing the current helper
+router.post("/:id/reopen", authenticateToken, async (req, res) => {
+  try {
+    const request = await HelpRequest.findById(req.params.id);
+
+    if (!request) {
+      return res.status(404).json({ error: "Request not found" });
+    }
+
+    if (request.requester.toString() !== req.user.id) {
+      return res.status(403).json({ error: "Only the requester can reopen this request" });
+    }
+
+    if (request.status !== 'cancelled' && request.status !== 'in_progress') {
+      return res.status(400).json({ error: "Only cancelled or in-progress requests can be reopened" });
+    }
+
+    const previousHelper = request.helper;
+
+    request.status = 'open';
+    request.helper = undefined;
+    request.acceptedAt = undefined;
+    request.agreedPrice = undefined;
+    request.cancelledAt = undefined;
+    request.cancellationReason = undefined;
+    await request.save();
+
+    // The released helper can send a new proposal if they still want to help
+    if (previousHelper) {
+      await Proposal.updateOne(
+        { request: request._id, helper: previousHelper, status: 'accepted' },
+        { status: 'declined', respondedAt: new Date() }
+      );
+    }
+    await cancelRequestSessions(req.app.get('io'), request, req.user.id);
+
+    const populatedRequest = await HelpRequest.findById(request._id)
+      .populate('requester', 'name email picture')
+      .populate('category', 'name description icon')
+      .populate('helper', 'name email picture');
+
+    const io = req.app.get('io');
+    if (io) {
+      emitToParticipants(io, { requester: request.requester, helper: previousHelper }, "request_status_updated", {
+        requestId: request._id,
+        requestTitle: request.title,
+        status: 'open',
+        previousHelperId: previousHelper?.toString(),
+        requesterId: request.requester.toString(),
+        reopenedBy: req.user.id,
+        reopenedByName: req.user.name
+      });
+
+      io.to(FEED_ROOM).emit("request_available", {
+        requestId: request._id,
+        status: 'open'
+      });
+
+      console.log("🔓 Emitted request reopen event for:", request.title);
+    }
+
+    if (previousHelper) {
+      try {
+        await createNotification({
+          recipient: previousHelper,
+          type: 'request_reopened',
+          message: `${populatedRequest.requester.name} reopened "${request.title}" and released you as helper`,
+          requestId: request._id,
+          requestTitle: request.title
+        });
+      } catch (e) {
+        console.error('Failed to save reopen notification:', e);
+      }
+    }
+
+    try {
+      // Notify requester
       await sendEmail({
-        to: populatedRequest.helper.email,
-        subject: `You accepted a request!`,
-        text: `Hi ${populatedRequest.helper.name},\n\nYou have accepted the request '${populatedRequest.title}'.\n\nPlease reach out to the requester to get started.`,
+        to: populatedRequest.requester.email,
+        subject: `Your help request is open again`,
+        text: `Hi ${populatedRequest.requester.name},\n\nYour help request '${populatedRequest.title}' has been reopened and is visible to helpers again.\n\nThank you for using SkillFull!`,
       });
+      // Notify the released helper
+      if (previousHelper) {
+        const helper = await User.findById(previousHelper);
+        if (helper) {
+          await sendEmail({
+            to: helper.email,
+            subject: `You have been released from a request`,
+            text: `Hi ${helper.name},\n\n${populatedRequest.requester.name} has reopened the request '${populatedRequest.title}', so you are no longer its helper.\n\nThank you for helping on SkillFull!`,
+          });
+        }
+      }
     } catch (e) {
-      console.error('Failed to send acceptance email:', e);
+      console.error('Failed to send reopen email:', e);
     }
 
     res.json(populatedRequest);
   } catch (error) {
-    console.error("Error accepting request:", error);
-    res.status(500).json({ error: "Failed to accept request" });
+    console.error("Error reopening request:", error);
+    res.status(500).json({ error: "Failed to reopen request" });
   }
 });
 
-// Complete help request
-router.post("/:id/complete", authenticateToken, async (req, res) => {
+// Withdraw from help request (helper only) - returns it to the open pool
+router.post("/:id/withdraw", authenticateToken, async (req, res) => {
   try {
     const request = await HelpRequest.findById(req.params.id);
-    
+
     if (!request) {
       return res.status(404).json({ error: "Request not found" });
     }
@@ -242,57 +732,81 @@ router.post("/:id/complete", authenticateToken, async (req, res) => {
       return res.status(400).json({ error: "Request is not in progress" });
     }
 
-    if (request.helper.toString() !== req.user.id) {
-      return res.status(403).json({ error: "Only the helper can complete this request" });
+    if (request.helper?.toString() !== req.user.id) {
+      return res.status(403).json({ error: "Only the helper can withdraw from this request" });
     }
 
-    request.status = 'completed';
-    request.completedAt = new Date();
+    const previousHelper = request.helper;
+
+    request.status = 'open';
+    request.helper = undefined;
+    request.acceptedAt = undefined;
+    request.agreedPrice = undefined;
     await request.save();
 
+    await Proposal.updateOne(
+      { request: request._id, helper: previousHelper, status: 'accepted' },
+      { status: 'withdrawn', respondedAt: new Date() }
+    );
+    await cancelRequestSessions(req.app.get('io'), request, req.user.id);
+
     const populatedRequest = await HelpRequest.findById(request._id)
       .populate('requester', 'name email picture')
-      .populate('category', 'name description icon')
-      .populate('helper', 'name email picture');
+      .populate('category', 'name description icon');
 
-    // Emit socket event to notify both users
     const io = req.app.get('io');
     if (io) {
-      // Emit status update event
-      io.emit("request_status_updated", {
+      emitToParticipants(io, { requester: request.requester, helper: previousHelper }, "request_status_updated", {
         requestId: request._id,
         requestTitle: request.title,
-        status: 'completed',
-        helperId: request.helper.toString(),
+        status: 'open',
+        previousHelperId: previousHelper.toString(),
         requesterId: request.requester.toString(),
-        completedBy: req.user.id,
-        completedByName: req.user.name
+        withdrawnBy: req.user.id,
+        withdrawnByName: req.user.name
       });
 
-      console.log("✅ Emitted request completion event for:", request.title);
+      io.to(FEED_ROOM).emit("request_available", {
+        requestId: request._id,
+        status: 'open'
+      });
+
+      console.log("↩️ Emitted helper withdrawal event for:", request.title);
+    }
+
+    try {
+      await createNotification({
+        recipient: request.requester,
+        type: 'request_withdrawn',
+        message: `${req.user.name} withdrew from your request "${request.title}". It is open again.`,
+        requestId: request._id,
+        requestTitle: request.title
+      });
+    } catch (e) {
+      console.error('Failed to save withdrawal notification:', e);
     }
 
     try {
       // Notify requester
       await sendEmail({
         to: populatedRequest.requester.email,
-        subject: `Your help request has been completed!`,
-        text: `Hi ${populatedRequest.requester.name},\n\nYour help request '${populatedRequest.title}' has been marked as completed by ${populatedRequest.helper.name}.\n\nThank you for using SkillFull!`,
+        subject: `Your helper has withdrawn from your request`,
+        text: `Hi ${populatedRequest.requester.name},\n\n${req.user.name} is no longer able to help with '${populatedRequest.title}'. Your request is open again so another helper can pick it up.\n\nThank you for using SkillFull!`,
       });
       // Notify helper
       await sendEmail({
-        to: populatedRequest.helper.email,
-        subject: `You completed a help request!`,
-        text: `Hi ${populatedRequest.helper.name},\n\nYou have marked the request '${populatedRequest.title}' as completed.\n\nThank you for helping on SkillFull!`,
+        to: req.user.email,
+        subject: `You withdrew from a request`,
+        text: `Hi ${req.user.name},\n\nYou have withdrawn from the request '${populatedRequest.title}'. It has been returned to the open pool.\n\nThank you for using SkillFull!`,
       });
     } catch (e) {
-      console.error('Failed to send completion email:', e);
+      console.error('Failed to send withdrawal email:', e);
     }
 
     res.json(populatedRequest);
   } catch (error) {
-    console.error("Error completing request:", error);
-    res.status(500).json({ error: "Failed to complete request" });
+    console.error("Error withdrawing from request:", error);
+    res.status(500).json({ error: "Failed to withdraw from request" });
   }
 });
 
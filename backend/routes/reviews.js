@@ -0,0 +1,146 @@
+const express = require("express");
+const router = express.Router();
+const mongoose = require("mongoose");
+const { body, validationResult } = require("express-validator");
+const jwt = require("jsonwebtoken");
+const Review = require("../models/Review");
+const HelpRequest = require("../models/HelpRequest");
+const User = require("../models/User");
+
+// Middleware to verify JWT token
+const authenticateToken = async (req, res, next) => {
+  const authHeader = req.headers["authorization"];
+  const token = authHeader && authHeader.split(" ")[1];
+
+  if (!token) {
+    return res.status(401).json({ error: "Access token required" });
+  }
+
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-secret-key');
+    req.user = decoded;
+    next();
+  } catch (error) {
+    return res.status(403).json({ error: "Invalid or expired token" });
+  }
+};
+
+// Recalculate the rating aggregate stored on the user
+const updateUserRating = async (userId) => {
+  const [stats] = await Review.aggregate([
+    { $match: { reviewee: new mongoose.Types.ObjectId(userId) } },
+    {
+      $group: {
+        _id: "$reviewee",
+        average: { $avg: "$rating" },
+        count: { $sum: 1 }
+      }
+    }
+  ]);
+
+  await User.findByIdAndUpdate(userId, {
+    rating: stats ? Math.round(stats.average * 10) / 10 : 0,
+    totalReviews: stats ? stats.count : 0
+  });
+};
+
+// Create a review for the other party on a completed request
+router.post("/", authenticateToken, [
+  body("requestId").isMongoId(),
+  body("rating").isInt({ min: 1, max: 5 }),
+  body("comment").optional().trim().isLength({ max: 1000 }),
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { requestId, rating, comment } = req.body;
+
+    const request = await HelpRequest.findById(requestId);
+    if (!request) {
+      return res.status(404).json({ error: "Request not found" });
+    }
+
+    if (request.status !== 'completed') {
+      return res.status(400).json({ error: "Only completed requests can be reviewed" });
+    }
+
+    const isRequester = request.requester.toString() === req.user.id;
+    const isHelper = request.helper?.toString() === req.user.id;
+
+    if (!isRequester && !isHelper) {
+      return res.status(403).json({ error: "Not authorized to review this request" });
+    }
+
+    const existingReview = await Review.findOne({ request: requestId, reviewer: req.user.id });
+    if (existingReview) {
+      return res.status(400).json({ error: "You have already reviewed this request" });
+    }
+
+    const review = new Review({
+      request: requestId,
+      reviewer: req.user.id,
+      reviewee: isRequester ? request.helper : request.requester,
+      revieweeRole: isRequester ? 'helper' : 'requester',
+      rating,
+      comment: comment || ''
+    });
+
+    await review.save();
+    await updateUserRating(review.reviewee);
+
+    const populatedReview = await Review.findById(review._id)
+      .populate('reviewer', 'name picture')
+      .populate('reviewee', 'name picture rating totalReviews')
+      .populate('request', 'title');
+
+    res.status(201).json(populatedReview);
+  } catch (error) {
+    // Unique index guards against concurrent duplicate submissions
+    if (error.code === 11000) {
+      return res.status(400).json({ error: "You have already reviewed this request" });
+    }
+    console.error("Error creating review:", error);
+    res.status(500).json({ error: "Failed to create review" });
+  }
+});
+
+// Get reviews written by the current user
+router.get("/mine", authenticateToken, async (req, res) => {
+  try {
+    const reviews = await Review.find({ reviewer: req.user.id })
+      .populate('reviewee', 'name picture')
+      .populate('request', 'title')
+      .sort({ createdAt: -1 });
+
+    res.json(reviews);
+  } catch (error) {
+    console.error("Error fetching own reviews:", error);
+    res.status(500).json({ error: "Failed to fetch reviews" });
+  }
+});
+
+// Get reviews received by a user
+router.get("/user/:userId", async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      return res.status(400).json({ error: "Invalid user id" });
+    }
+
+    const reviews = await Review.find({ reviewee: userId })
+      .populate('reviewer', 'name picture')
+      .populate('request', 'title')
+      .sort({ createdAt: -1 });
+
+    res.json(reviews);
+  } catch (error) {
+    console.error("Error fetching reviews:", error);
+    res.status(500).json({ error: "Failed to fetch reviews" });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,131 @@
+const express = require("express");
+const router = express.Router();
+const mongoose = require("mongoose");
+const { body, validationResult } = require("express-validator");
+const jwt = require("jsonwebtoken");
+const {
+  listSessions,
+  proposeSession,
+  acceptSessionSlot,
+  declineSession,
+  cancelSession
+} = require("../utils/sessionService");
+
+// Middleware to verify JWT token
+const authenticateToken = async (req, res, next) => {
+  const authHeader = req.headers["authorization"];
+  const token = authHeader && authHeader.split(" ")[1];
+
+  if (!token) {
+    return res.status(401).json({ error: "Access token required" });
+  }
+
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-secret-key');
+    req.user = decoded;
+    next();
+  } catch (error) {
+    return res.status(403).json({ error: "Invalid or expired token" });
+  }
+};
+
+const MAX_SLOTS = 5;
+
+// Reject ids that aren't ObjectIds before they reach the service
+const validSessionId = (req, res, next) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    return res.status(400).json({ error: "Invalid session id" });
+  }
+  next();
+};
+
+// Get the sessions proposed for a request (its requester and helper only)
+router.get("/request/:requestId", authenticateToken, async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.requestId)) {
+      return res.status(400).json({ error: "Invalid request id" });
+    }
+
+    res.json(await listSessions(req.params.requestId, req.user.id));
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error fetching sessions:", error);
+    res.status(500).json({ error: "Failed to fetch sessions" });
+  }
+});
+
+// Propose times for a session on an in-progress request
+router.post("/", authenticateToken, [
+  body("requestId").isMongoId(),
+  body("slots").isArray({ min: 1, max: MAX_SLOTS }),
+  body("slots.*.start").isISO8601(),
+  body("slots.*.end").isISO8601(),
+  body("note").optional().isString().trim().isLength({ max: 500 }),
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { requestId, slots, note } = req.body;
+    const session = await proposeSession(req.app.get('io'), requestId, req.user.id, { slots, note });
+    res.status(201).json(session);
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error proposing session:", error);
+    res.status(500).json({ error: "Failed to propose session" });
+  }
+});
+
+// Accept one of the proposed times (the other participant only)
+router.post("/:id/accept", authenticateToken, validSessionId, [
+  body("slotId").isMongoId(),
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    res.json(await acceptSessionSlot(req.app.get('io'), req.params.id, req.user.id, req.body.slotId));
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error accepting session:", error);
+    res.status(500).json({ error: "Failed to accept session" });
+  }
+});
+
+// Decline all proposed times (the other participant only)
+router.post("/:id/decline", authenticateToken, validSessionId, async (req, res) => {
+  try {
+    res.json(await declineSession(req.app.get('io'), req.params.id, req.user.id));
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error declining session:", error);
+    res.status(500).json({ error: "Failed to decline session" });
+  }
+});
+
+// Withdraw a proposal or cancel a scheduled session
+router.post("/:id/cancel", authenticateToken, validSessionId, async (req, res) => {
+  try {
+    res.json(await cancelSession(req.app.get('io'), req.params.id, req.user.id));
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error cancelling session:", error);
+    res.status(500).json({ error: "Failed to cancel session" });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,74 @@
+const express = require("express");
+const router = express.Router();
+const { body, validationResult } = require("express-validator");
+const jwt = require("jsonwebtoken");
+const {
+  getSubscription,
+  updateSubscription,
+  isValidTimezone
+} = require("../utils/subscriptionService");
+
+// Middleware to verify JWT token
+const authenticateToken = async (req, res, next) => {
+  const authHeader = req.headers["authorization"];
+  const token = authHeader && authHeader.split(" ")[1];
+
+  if (!token) {
+    return res.status(401).json({ error: "Access token required" });
+  }
+
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-secret-key');
+    req.user = decoded;
+    next();
+  } catch (error) {
+    return res.status(403).json({ error: "Invalid or expired token" });
+  }
+};
+
+// Get the current user's new-request subscription
+router.get("/", authenticateToken, async (req, res) => {
+  try {
+    res.json(await getSubscription(req.user.id));
+  } catch (error) {
+    console.error("Error fetching subscription:", error);
+    res.status(500).json({ error: "Failed to fetch notification settings" });
+  }
+});
+
+// Update the categories and skills the current user hears about, and how
+router.put(
+  "/",
+  authenticateToken,
+  [
+    body("categories").optional().isArray({ max: 50 }),
+    body("categories.*").isMongoId(),
+    body("skills").optional().isArray({ max: 30 }),
+    body("skills.*").isString().trim().isLength({ min: 1, max: 50 }),
+    body("realtime").optional().isBoolean(),
+    body("emailDigest").optional().isIn(['off', 'daily']),
+    body("maxPerHour").optional().isInt({ min: 1, max: 20 }).toInt(),
+    body("quietHours.enabled").optional().isBoolean(),
+    body("quietHours.start").optional().isInt({ min: 0, max: 1439 }).toInt(),
+    body("quietHours.end").optional().isInt({ min: 0, max: 1439 }).toInt(),
+    body("quietHours.timezone").optional().isString().custom(isValidTimezone),
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      res.json(await updateSubscription(req.user.id, req.body));
+    } catch (error) {
+      if (error.status) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error updating subscription:", error);
+      res.status(500).json({ error: "Failed to update notification settings" });
+    }
+  }
+);
+
+module.exports = router;
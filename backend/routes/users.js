@@ -0,0 +1,88 @@
+const express = require("express");
+const router = express.Router();
+const mongoose = require("mongoose");
+const User = require("../models/User");
+const HelpRequest = require("../models/HelpRequest");
+const Review = require("../models/Review");
+const jwt = require("jsonwebtoken");
+const { getPresence, findCounterpartIds } = require("../utils/presence");
+
+// Middleware to verify JWT token
+const authenticateToken = async (req, res, next) => {
+  const authHeader = req.headers["authorization"];
+  const token = authHeader && authHeader.split(" ")[1];
+
+  if (!token) {
+    return res.status(401).json({ error: "Access token required" });
+  }
+
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-secret-key');
+    req.user = decoded;
+    next();
+  } catch (error) {
+    return res.status(403).json({ error: "Invalid or expired token" });
+  }
+};
+
+// Online status and last-seen time of users the caller shares a request with.
+// Ids of anyone else are left out of the response.
+router.get("/presence", authenticateToken, async (req, res) => {
+  try {
+    const ids = (req.query.ids || "").split(",").map(id => id.trim()).filter(Boolean);
+    if (ids.length > 100 || ids.some(id => !mongoose.Types.ObjectId.isValid(id))) {
+      return res.status(400).json({ error: "Invalid user ids" });
+    }
+
+    const counterpartIds = new Set(await findCounterpartIds(req.user.id));
+    const allowedIds = ids.filter(id => counterpartIds.has(id));
+
+    res.json({ presence: allowedIds.length > 0 ? await getPresence(allowedIds) : [] });
+  } catch (error) {
+    console.error("Error fetching presence:", error);
+    res.status(500).json({ error: "Failed to fetch presence" });
+  }
+});
+
+// Get a user's public profile
+router.get("/:id", async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ error: "Invalid user id" });
+    }
+
+    const user = await User.findById(req.params.id);
+
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const [completedHelpCount, recentReviews] = await Promise.all([
+      HelpRequest.countDocuments({ helper: user._id, status: 'completed' }),
+      Review.find({ reviewee: user._id })
+        .populate('reviewer', 'name picture')
+        .populate('request', 'title')
+        .sort({ createdAt: -1 })
+        .limit(5)
+    ]);
+
+    // Email is deliberately left out of the public profile
+    res.json({
+      id: user._id,
+      name: user.name,
+      picture: user.picture,
+      bio: user.bio,
+      skills: user.skills,
+      rating: user.rating,
+      totalReviews: user.totalReviews,
+      completedHelpCount,
+      recentReviews,
+      memberSince: user.createdAt,
+    });
+  } catch (error) {
+    console.error("Error fetching user profile:", error);
+    res.status(500).json({ error: "Failed to fetch user profile" });
+  }
+});
+
+module.exports = router;
@@ -24,6 +24,37 @@ const createIndexSafely = async (collection, indexSpec, options = {}) => {
   }
 };
 
+// Messages from before read receipts have `isRead: true` instead of a readBy
+// entry. Give each one a receipt for its recipient, the request participant
+// who didn't send it, and drop the old flag.
+const migrateLegacyReadFlags = async (db) => {
+  const messages = db.collection('messages');
+  const requests = db.collection('helprequests');
+  const participants = new Map();
+  let migrated = 0;
+
+  const cursor = messages.find({ isRead: { $exists: true } }).project({ request: 1, sender: 1, isRead: 1, updatedAt: 1, createdAt: 1 });
+  for await (const message of cursor) {
+    const requestId = String(message.request);
+    if (!participants.has(requestId)) {
+      participants.set(requestId, await requests.findOne({ _id: message.request }, { projection: { requester: 1, helper: 1 } }));
+    }
+    const request = participants.get(requestId);
+    const recipient = request && (String(request.requester) === String(message.sender) ? request.helper : request.requester);
+
+    if (message.isRead === true && recipient) {
+      await messages.updateOne(
+        { _id: message._id, 'readBy.user': { $ne: recipient } },
+        { $push: { readBy: { user: recipient, readAt: message.updatedAt || message.createdAt || new Date() } } }
+      );
+      migrated += 1;
+    }
+    await messages.updateOne({ _id: message._id }, { $unset: { isRead: '' } });
+  }
+
+  console.log(`✅ Migrated ${migrated} read messages to read receipts`);
+};
+
 const fixDatabase = async () => {
   try {
     console.log('🔧 Starting database cleanup...');
@@ -41,9 +72,14 @@ const fixDatabase = async () => {
     
     // Create proper indexes for helprequests
     await createIndexSafely(db.collection('helprequests'), { requester: 1 });
+    await createIndexSafely(db.collection('helprequests'), { helper: 1 });
     await createIndexSafely(db.collection('helprequests'), { status: 1 });
     await createIndexSafely(db.collection('helprequests'), { category: 1 });
     await createIndexSafely(db.collection('helprequests'), { createdAt: -1 });
+    await createIndexSafely(db.collection('helprequests'), { requester: 1, status: 1, createdAt: -1 });
+    await createIndexSafely(db.collection('helprequests'), { helper: 1, status: 1, createdAt: -1 });
+    await createIndexSafely(db.collection('helprequests'), { status: 1, createdAt: -1 });
+    await createIndexSafely(db.collection('helprequests'), { status: 1, confirmationDueAt: 1 });
     console.log('✅ Processed indexes for helprequests');
     
     // Create indexes for messages
@@ -51,13 +87,42 @@ const fixDatabase = async () => {
     await createIndexSafely(db.collection('messages'), { sender: 1 });
     await createIndexSafely(db.collection('messages'), { receiver: 1 });
     await createIndexSafely(db.collection('messages'), { createdAt: -1 });
+    await createIndexSafely(db.collection('messages'), { request: 1, createdAt: 1 });
+    await createIndexSafely(db.collection('messages'), { request: 1, content: 'text' });
+    await createIndexSafely(
+      db.collection('messages'),
+      { sender: 1, clientId: 1 },
+      { unique: true, partialFilterExpression: { clientId: { $type: 'string' } } }
+    );
     console.log('✅ Processed indexes for messages');
+    await migrateLegacyReadFlags(db);
     
     // Create indexes for users
     await createIndexSafely(db.collection('users'), { email: 1 }, { unique: true });
     await createIndexSafely(db.collection('users'), { googleId: 1 }, { unique: true });
     console.log('✅ Processed indexes for users');
     
+    // Create indexes for proposals
+    await createIndexSafely(db.collection('proposals'), { request: 1, helper: 1 }, { unique: true });
+    await createIndexSafely(db.collection('proposals'), { helper: 1, status: 1, createdAt: -1 });
+    console.log('✅ Processed indexes for proposals');
+    
+    // Create indexes for chat attachments
+    await createIndexSafely(db.collection('attachments'), { request: 1, createdAt: -1 });
+    await createIndexSafely(db.collection('attachments'), { message: 1, createdAt: 1 });
+    console.log('✅ Processed indexes for attachments');
+    
+    // Create indexes for helper subscriptions
+    await createIndexSafely(db.collection('subscriptions'), { user: 1 }, { unique: true });
+    await createIndexSafely(db.collection('subscriptions'), { categories: 1 });
+    await createIndexSafely(db.collection('subscriptions'), { skills: 1 });
+    console.log('✅ Processed indexes for subscriptions');
+    
+    // Create indexes for scheduled sessions
+    await createIndexSafely(db.collection('sessions'), { request: 1, createdAt: -1 });
+    await createIndexSafely(db.collection('sessions'), { status: 1, reminderSentAt: 1, 'scheduledSlot.start': 1 });
+    console.log('✅ Processed indexes for sessions');
+    
     // Create indexes for categories
     await createIndexSafely(db.collection('categories'), { name: 1 });
     console.log('✅ Processed indexes for categories');
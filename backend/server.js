@@ -5,13 +5,19 @@ const compression = require("compression");
 const rateLimit = require("express-rate-limit");
 const { createServer } = require("http");
 const { Server } = require("socket.io");
-const multer = require("multer");
-const path = require("path");
-const fs = require("fs");
+const jwt = require("jsonwebtoken");
 const { connectDB, testConnection } = require("./utils/database");
 const Message = require("./models/Message");
 const HelpRequest = require("./models/HelpRequest");
-const User = require("./models/User");
+const { sendSocketMessage, addReaction, removeReaction } = require("./utils/messageService");
+const { userRoom, FEED_ROOM } = require("./utils/socketRooms");
+const { socketConnected, socketDisconnected } = require("./utils/presence");
+const { getSocketState } = require("./utils/socketState");
+const { configureSocketAdapter, getSocketAdapterStatus } = require("./utils/socketAdapter");
+const { startDigestSchedule } = require("./utils/subscriptionService");
+const { startAutoConfirmSchedule } = require("./utils/completionService");
+const { startSessionReminderSchedule } = require("./utils/sessionService");
+const { startAttachmentCleanupSchedule } = require("./utils/attachmentCleanup");
 require("dotenv").config();
 const aiRoutes = require('./routes/ai');
 
@@ -21,6 +27,13 @@ const aiChatbotRoutes = require('./routes/aiChatbot');
 const authRoutes = require("./routes/auth");
 const requestRoutes = require("./routes/requests");
 const messageRoutes = require("./routes/messages");
+const reviewRoutes = require("./routes/reviews");
+const notificationRoutes = require("./routes/notifications");
+const userRoutes = require("./routes/users");
+const attachmentRoutes = require("./routes/attachments");
+const subscriptionRoutes = require("./routes/subscriptions");
+const proposalRoutes = require("./routes/proposals");
+const sessionRoutes = require("./routes/sessions");
 
 const app = express();
 app.set('trust proxy', 1); // Trust first proxy for correct client IP handling
@@ -64,49 +77,19 @@ app.use("/api/", limiter);
 app.use(express.json({ limit: "10mb" }));
 app.use(express.urlencoded({ extended: true, limit: "10mb" }));
 
-// Static files
-app.use("/uploads", express.static("uploads"));
-
-// Create uploads directory if it doesn't exist
-const uploadsDir = path.join(__dirname, 'uploads');
-if (!fs.existsSync(uploadsDir)) {
-  fs.mkdirSync(uploadsDir, { recursive: true });
-}
-
-// Configure multer for file uploads
-const storage = multer.diskStorage({
-  destination: function (req, file, cb) {
-    cb(null, uploadsDir);
-  },
-  filename: function (req, file, cb) {
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    cb(null, file.fieldname + '-' + uniqueSuffix + path.extname(file.originalname));
-  }
-});
-
-const upload = multer({ 
-  storage: storage,
-  limits: {
-    fileSize: 10 * 1024 * 1024 // 10MB limit
-  },
-  fileFilter: function (req, file, cb) {
-    // Allow images and common file types
-    const allowedTypes = /jpeg|jpg|png|gif|pdf|doc|docx|txt|zip|rar/;
-    const extname = allowedTypes.test(path.extname(file.originalname).toLowerCase());
-    const mimetype = allowedTypes.test(file.mimetype);
-    
-    if (mimetype && extname) {
-      return cb(null, true);
-    } else {
-      cb(new Error('Only image and document files are allowed!'));
-    }
-  }
-});
+// Uploaded files are not served statically; see routes/attachments.js and utils/storage.js
 
 // Routes
 app.use("/api/auth", authRoutes);
 app.use("/api/requests", requestRoutes);
 app.use("/api/messages", messageRoutes);
+app.use("/api/reviews", reviewRoutes);
+app.use("/api/notifications", notificationRoutes);
+app.use("/api/users", userRoutes);
+app.use("/api/attachments", attachmentRoutes);
+app.use("/api/subscriptions", subscriptionRoutes);
+app.use("/api/proposals", proposalRoutes);
+app.use("/api/sessions", sessionRoutes);
 app.use('/api/ai-chatbot', aiChatbotRoutes);
 app.use('/api/ai-help', aiRoutes);
 // Make socket.io instance available to routes
@@ -122,6 +105,7 @@ app.get("/health", async (req, res) => {
       timestamp: new Date().toISOString(),
       service: "SkillWave Backend API",
       database: dbConnected ? "Connected" : "Disconnected",
+      socketAdapter: getSocketAdapterStatus(),
     });
   } catch (error) {
     res.status(503).json({
@@ -129,6 +113,7 @@ app.get("/health", async (req, res) => {
       timestamp: new Date().toISOString(),
       service: "SkillWave Backend API",
       database: "Disconnected",
+      socketAdapter: getSocketAdapterStatus(),
       error: error.message,
     });
   }
@@ -143,6 +128,7 @@ app.get("/api/health", async (req, res) => {
       timestamp: new Date().toISOString(),
       service: "SkillWave Backend API",
       database: dbConnected ? "Connected" : "Disconnected",
+      socketAdapter: getSocketAdapterStatus(),
     });
   } catch (error) {
     res.status(503).json({
@@ -150,6 +136,7 @@ app.get("/api/health", async (req, res) => {
       timestamp: new Date().toISOString(),
       service: "SkillWave Backend API",
       database: "Disconnected",
+      socketAdapter: getSocketAdapterStatus(),
       error: error.message,
     });
   }
@@ -164,18 +151,38 @@ app.get("/", (req, res) => {
   });
 });
 
-// Store connected users and their rooms
-const connectedUsers = new Map(); // userId -> socket
-const userRooms = new Map(); // userId -> Set of roomIds
-const roomUsers = new Map(); // roomId -> Set of userIds
+// Users in each request chat room. A user can have several sockets (tabs,
+// devices) in a room, possibly on different instances, so only announce the
+// first join and last leave. Counts live in utils/socketState.js.
+const addRoomUser = async (requestId, userId, socketId) => {
+  const socketCount = await getSocketState().addRoomSocket(requestId, userId, socketId);
+  return socketCount === 1;
+};
 
-// Socket connection handler
+const removeRoomUser = async (requestId, userId, socketId) => {
+  const remaining = await getSocketState().removeRoomSocket(requestId, userId, socketId);
+  return remaining === 0;
+};
+
+// Largest delay setTimeout accepts before it overflows and fires immediately
+const MAX_TIMEOUT_MS = 2147483647;
+
+// Socket connection handler - verify the same JWT used by the REST API
 io.use((socket, next) => {
-  const userId = socket.handshake.auth.userId;
-  if (userId) {
-    socket.userId = userId;
+  const token = socket.handshake.auth.token;
+  if (!token) {
+    return next(new Error('Authentication error'));
+  }
+
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-secret-key');
+    socket.userId = decoded.id.toString();
+    socket.user = decoded;
     next();
-  } else {
+  } catch (error) {
+    if (error.name === 'TokenExpiredError') {
+      return next(new Error('Token expired'));
+    }
     next(new Error('Authentication error'));
   }
 });
@@ -183,18 +190,32 @@ io.use((socket, next) => {
 io.on('connection', (socket) => {
   const userId = socket.userId;
   console.log(`🔌 User connected: ${userId} (Socket: ${socket.id})`);
+
+  // Drop the connection once the token it was authenticated with expires
+  let tokenExpiryTimer = null;
+  if (socket.user.exp) {
+    const msUntilExpiry = socket.user.exp * 1000 - Date.now();
+    if (msUntilExpiry < MAX_TIMEOUT_MS) {
+      tokenExpiryTimer = setTimeout(() => {
+        console.log(`⏰ Token expired for user ${userId}, disconnecting`);
+        socket.emit('token_expired');
+        socket.disconnect(true);
+      }, Math.max(msUntilExpiry, 0));
+    }
+  }
   
-  // Store user connection
-  connectedUsers.set(userId, socket);
+  // Online while any of the user's sockets is connected
+  socketConnected(io, userId, socket.id);
+
+  // Personal room for events addressed to this user only
+  socket.join(userRoom(userId));
   
-  // Initialize user's room tracking
-  if (!userRooms.has(userId)) {
-    userRooms.set(userId, new Set());
-  }
+  // Request rooms this socket has joined
+  const joinedRooms = new Set();
 
   // Join room handler
   socket.on('join_room', async (data) => {
-    const { requestId, userId } = data;
+    const { requestId } = data;
     console.log(`🏠 User ${userId} joining room: ${requestId}`);
     
     try {
@@ -215,21 +236,18 @@ io.on('connection', (socket) => {
       }
       
       // Join the room
+      if (joinedRooms.has(requestId)) return;
       socket.join(requestId);
+      joinedRooms.add(requestId);
       
-      // Update tracking
-      userRooms.get(userId).add(requestId);
-      if (!roomUsers.has(requestId)) {
-        roomUsers.set(requestId, new Set());
+      // Notify other users in the room unless another of this user's sockets is already there
+      if (await addRoomUser(requestId, userId, socket.id)) {
+        socket.to(requestId).emit('user_joined_room', {
+          requestId,
+          userId,
+          timestamp: new Date().toISOString()
+        });
       }
-      roomUsers.get(requestId).add(userId);
-      
-      // Notify other users in the room
-      socket.to(requestId).emit('user_joined_room', {
-        requestId,
-        userId,
-        timestamp: new Date().toISOString()
-      });
       
       console.log(`✅ User ${userId} joined room ${requestId}`);
       
@@ -239,113 +257,70 @@ io.on('connection', (socket) => {
   });
 
   // Leave room handler
-  socket.on('leave_room', (data) => {
-    const { requestId, userId } = data;
+  socket.on('leave_room', async (data) => {
+    const { requestId } = data;
     console.log(`🏠 User ${userId} leaving room: ${requestId}`);
     
+    if (!joinedRooms.has(requestId)) return;
     socket.leave(requestId);
+    joinedRooms.delete(requestId);
     
-    // Update tracking
-    const userRoomsSet = userRooms.get(userId);
-    if (userRoomsSet) {
-      userRoomsSet.delete(requestId);
-    }
-    
-    const roomUsersSet = roomUsers.get(requestId);
-    if (roomUsersSet) {
-      roomUsersSet.delete(userId);
-      if (roomUsersSet.size === 0) {
-        roomUsers.delete(requestId);
+    try {
+      // Notify other users in the room once none of this user's sockets are left in it
+      if (await removeRoomUser(requestId, userId, socket.id)) {
+        socket.to(requestId).emit('user_left_room', {
+          requestId,
+          userId,
+          timestamp: new Date().toISOString()
+        });
       }
+      
+      console.log(`✅ User ${userId} left room ${requestId}`);
+    } catch (error) {
+      console.error(`❌ Error leaving room: ${error.message}`);
     }
-    
-    // Notify other users in the room
-    socket.to(requestId).emit('user_left_room', {
-      requestId,
-      userId,
-      timestamp: new Date().toISOString()
-    });
-    
-    console.log(`✅ User ${userId} left room ${requestId}`);
   });
 
-  // Send message handler
-  socket.on('send_message', async (messageData) => {
-    const { requestId, content, messageType, fileName, fileSize } = messageData;
-    const senderId = socket.userId;
-    
-    console.log(`📤 Message from ${senderId} in room ${requestId}:`, content);
-    
+  // Request feed subscription (anonymized availability updates)
+  socket.on('join_feed', () => {
+    socket.join(FEED_ROOM);
+  });
+
+  socket.on('leave_feed', () => {
+    socket.leave(FEED_ROOM);
+  });
+
+  // Send message handler; `ack` receives the saved message or an error
+  socket.on('send_message', (messageData, ack) =>
+    sendSocketMessage({ io, socket, senderId: userId, messageData, ack }));
+
+  // Reaction handlers; `ack` receives the message's reactions or an error
+  const handleReaction = (update) => async (data, ack) => {
+    const { messageId, emoji } = data || {};
+
     try {
-      // Get user details
-      const user = await User.findById(senderId);
-      if (!user) {
-        console.log(`❌ User ${senderId} not found`);
-        return;
-      }
-      
-      // Create message object
-      const message = {
-        requestId,
-        senderId,
-        senderName: user.name,
-        senderPicture: user.picture,
-        content,
-        messageType: messageType || 'text',
-        fileName,
-        fileSize,
-        createdAt: new Date().toISOString(),
-        isRead: false
-      };
-      
-      // Save to database
-      const newMessage = new Message({
-        request: requestId,
-        sender: senderId,
-        content,
-        messageType: messageType || 'text',
-        fileName,
-        fileSize,
-        isRead: false
-      });
-      
-      const savedMessage = await newMessage.save();
-      
-      // Add database ID to message
-      message._id = savedMessage._id;
-      
-      // Broadcast to room
-      io.to(requestId).emit('message', message);
-      
-      // Send notification to other users in the room
-      const roomUsersSet = roomUsers.get(requestId);
-      if (roomUsersSet) {
-        roomUsersSet.forEach(userId => {
-          if (userId !== senderId) {
-            const userSocket = connectedUsers.get(userId);
-            if (userSocket) {
-              userSocket.emit('notification', {
-                requestId,
-                message: `New message from ${user.name}`,
-                senderName: user.name,
-                timestamp: new Date().toISOString()
-              });
-            }
-          }
-        });
+      const result = await update({ io, userId, messageId, emoji });
+      if (typeof ack === 'function') {
+        ack({ ok: true, ...result });
       }
-      
-      console.log(`✅ Message sent and broadcasted to room ${requestId}`);
-      
     } catch (error) {
-      console.error(`❌ Error sending message: ${error.message}`);
-      socket.emit('error', { message: 'Failed to send message' });
+      console.error(`❌ Error updating reaction: ${error.message}`);
+      const errorMessage = error.status ? error.message : 'Failed to update reaction';
+      if (typeof ack === 'function') {
+        ack({ ok: false, error: errorMessage });
+      } else {
+        socket.emit('error', { message: errorMessage });
+      }
     }
-  });
+  };
+
+  socket.on('add_reaction', handleReaction(addReaction));
+  socket.on('remove_reaction', handleReaction(removeReaction));
 
   // Typing indicator handler
   socket.on('typing', (data) => {
-    const { requestId, userId, userName, isTyping } = data;
+    const { requestId, isTyping } = data;
+    const userName = socket.user.name;
     console.log(`⌨️ Typing indicator from ${userName} in room ${requestId}: ${isTyping}`);
     
     // Broadcast typing indicator to other users in the room
@@ -360,33 +335,32 @@ io.on('connection', (socket) => {
 
   // Disconnect handler
   socket.on('disconnect', () => {
-    const userId = socket.userId;
     console.log(`🔌 User disconnected: ${userId}`);
+
+    if (tokenExpiryTimer) {
+      clearTimeout(tokenExpiryTimer);
+    }
     
-    // Clean up user tracking
-    connectedUsers.delete(userId);
+    // Offline once the user's last socket is gone
+    socketDisconnected(io, userId, socket.id);
     
     // Leave all rooms
-    const userRoomsSet = userRooms.get(userId);
-    if (userRoomsSet) {
-      userRoomsSet.forEach(requestId => {
-        const roomUsersSet = roomUsers.get(requestId);
-        if (roomUsersSet) {
-          roomUsersSet.delete(userId);
-          if (roomUsersSet.size === 0) {
-            roomUsers.delete(requestId);
-          }
-        }
-        
+    const rooms = [...joinedRooms];
+    joinedRooms.clear();
+    rooms.forEach(async requestId => {
+      try {
         // Notify other users
-        socket.to(requestId).emit('user_left_room', {
-          requestId,
-          userId,
-          timestamp: new Date().toISOString()
-        });
-      });
-      userRooms.delete(userId);
-    }
+        if (await removeRoomUser(requestId, userId, socket.id)) {
+          socket.to(requestId).emit('user_left_room', {
+            requestId,
+            userId,
+            timestamp: new Date().toISOString()
+          });
+        }
+      } catch (error) {
+        console.error(`❌ Error leaving room: ${error.message}`);
+      }
+    });
   });
 });
 
@@ -403,11 +377,23 @@ app.use("*", (req, res) => {
 
 const PORT = process.env.PORT || 3001;
 
-// Always start the server
-server.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
-  console.log(`Socket.io server ready for connections`);
-  console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
+// Always start the server, once Socket.IO knows whether it is sharing state
+// with other instances
+configureSocketAdapter(io).then(() => {
+  server.listen(PORT, () => {
+    console.log(`Server running on port ${PORT}`);
+    console.log(`Socket.io server ready for connections`);
+    console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
+  });
+
+  // Daily emails of new requests matching helpers' subscriptions
+  startDigestSchedule();
+  // Complete requests whose requester didn't confirm or dispute in time
+  startAutoConfirmSchedule(io);
+  // Remind both participants shortly before a scheduled session
+  startSessionReminderSchedule(io);
+  // Delete uploads that were never sent in a message
+  startAttachmentCleanupSchedule();
 });
 
 // Export for Vercel
@@ -0,0 +1,101 @@
+const { describe, it, beforeEach, afterEach, mock } = require('node:test');
+const assert = require('node:assert/strict');
+const mongoose = require('mongoose');
+
+const Attachment = require('../models/Attachment');
+const { setStorage } = require('../utils/storage');
+const { createMemoryDb } = require('./support/memoryDb');
+const { removeUnclaimedAttachments } = require('../utils/attachmentCleanup');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('removeUnclaimedAttachments', () => {
+  const originalHours = process.env.UNCLAIMED_ATTACHMENT_HOURS;
+  let db;
+  let storage;
+
+  const upload = (storedName, { hoursAgo, message = null }) => db.insert(Attachment, {
+    request: new mongoose.Types.ObjectId(),
+    uploader: new mongoose.Types.ObjectId(),
+    message,
+    originalName: storedName,
+    storedName,
+    mimeType: 'image/png',
+    size: 1024,
+    kind: 'image',
+    createdAt: new Date(Date.now() - hoursAgo * HOUR_MS)
+  });
+
+  beforeEach(() => {
+    delete process.env.UNCLAIMED_ATTACHMENT_HOURS;
+    mock.method(console, 'error', () => {});
+    db = createMemoryDb([Attachment]);
+    storage = { remove: mock.fn(async () => {}) };
+    setStorage(storage);
+  });
+
+  afterEach(() => {
+    db.restore();
+    mock.restoreAll();
+    setStorage(null);
+    if (originalHours === undefined) {
+      delete process.env.UNCLAIMED_ATTACHMENT_HOURS;
+    } else {
+      process.env.UNCLAIMED_ATTACHMENT_HOURS = originalHours;
+    }
+  });
+
+  it('deletes old uploads that were never sent, and their files', async () => {
+    upload('stale.png', { hoursAgo: 25 });
+
+    assert.equal(await removeUnclaimedAttachments(), 1);
+    assert.equal(db.all(Attachment).length, 0);
+    assert.deepEqual(storage.remove.mock.calls.map((call) => call.arguments[0]), ['stale.png']);
+  });
+
+  it('keeps recent uploads and ones sent in a message', async () => {
+    upload('recent.png', { hoursAgo: 1 });
+    upload('sent.png', { hoursAgo: 48, message: new mongoose.Types.ObjectId() });
+
+    assert.equal(await removeUnclaimedAttachments(), 0);
+    assert.equal(db.all(Attachment).length, 2);
+    assert.equal(storage.remove.mock.callCount(), 0);
+  });
+
+  it('reads the age limit from UNCLAIMED_ATTACHMENT_HOURS', async () => {
+    process.env.UNCLAIMED_ATTACHMENT_HOURS = '2';
+    upload('three-hours.png', { hoursAgo: 3 });
+
+    assert.equal(await removeUnclaimedAttachments(), 1);
+  });
+
+  it('leaves an upload that was sent while the sweep ran', async () => {
+    const attachment = upload('racing.png', { hoursAgo: 25 });
+    const find = Attachment.find;
+    // Send it in a message right after the sweep has listed it
+    mock.method(Attachment, 'find', (...args) => {
+      const query = find(...args);
+      const exec = query.exec;
+      query.exec = () => exec().then((stale) => {
+        attachment.message = new mongoose.Types.ObjectId();
+        return stale;
+      });
+      return query;
+    });
+
+    assert.equal(await removeUnclaimedAttachments(), 0);
+    assert.equal(db.all(Attachment).length, 1);
+    assert.equal(storage.remove.mock.callCount(), 0);
+  });
+
+  it('carries on when a file cannot be removed', async () => {
+    upload('first.png', { hoursAgo: 25 });
+    upload('second.png', { hoursAgo: 25 });
+    storage.remove.mock.mockImplementationOnce(async () => {
+      throw new Error('storage unavailable');
+    });
+
+    assert.equal(await removeUnclaimedAttachments(), 1);
+    assert.equal(storage.remove.mock.callCount(), 2);
+  });
+});
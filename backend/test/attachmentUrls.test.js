@@ -0,0 +1,67 @@
+const { describe, it, afterEach, mock } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { signAttachmentUrl, verifyAttachmentSignature } = require('../utils/attachmentUrls');
+
+const ATTACHMENT_ID = '64b7f0c2a1b2c3d4e5f60718';
+
+// Split a signed path into the parts the download route checks
+const parse = (url) => {
+  const parsed = new URL(url, 'http://localhost');
+  return {
+    pathname: parsed.pathname,
+    expires: parsed.searchParams.get('expires'),
+    signature: parsed.searchParams.get('signature')
+  };
+};
+
+describe('signed attachment URLs', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('points at the download route with an expiry and signature', () => {
+    const now = Date.now();
+    mock.method(Date, 'now', () => now);
+
+    const { pathname, expires, signature } = parse(signAttachmentUrl(ATTACHMENT_ID, 60));
+    assert.equal(pathname, `/attachments/${ATTACHMENT_ID}/download`);
+    assert.equal(Number(expires), Math.floor(now / 1000) + 60);
+    assert.ok(signature);
+  });
+
+  it('verifies a URL it signed', () => {
+    const { expires, signature } = parse(signAttachmentUrl(ATTACHMENT_ID));
+    assert.equal(verifyAttachmentSignature(ATTACHMENT_ID, expires, signature), true);
+  });
+
+  it('rejects the signature for another attachment', () => {
+    const { expires, signature } = parse(signAttachmentUrl(ATTACHMENT_ID));
+    assert.equal(verifyAttachmentSignature('64b7f0c2a1b2c3d4e5f60719', expires, signature), false);
+  });
+
+  it('rejects a URL whose expiry was changed', () => {
+    const { expires, signature } = parse(signAttachmentUrl(ATTACHMENT_ID));
+    assert.equal(verifyAttachmentSignature(ATTACHMENT_ID, String(Number(expires) + 3600), signature), false);
+  });
+
+  it('rejects a tampered signature', () => {
+    const { expires, signature } = parse(signAttachmentUrl(ATTACHMENT_ID));
+    const tampered = `${signature.slice(0, -1)}${signature.endsWith('A') ? 'B' : 'A'}`;
+    assert.equal(verifyAttachmentSignature(ATTACHMENT_ID, expires, tampered), false);
+    assert.equal(verifyAttachmentSignature(ATTACHMENT_ID, expires, 'short'), false);
+  });
+
+  it('rejects an expired URL', () => {
+    const { expires, signature } = parse(signAttachmentUrl(ATTACHMENT_ID, 60));
+    const later = Date.now() + 61 * 1000;
+    mock.method(Date, 'now', () => later);
+    assert.equal(verifyAttachmentSignature(ATTACHMENT_ID, expires, signature), false);
+  });
+
+  it('rejects a URL without an expiry or signature', () => {
+    const { expires, signature } = parse(signAttachmentUrl(ATTACHMENT_ID));
+    assert.equal(verifyAttachmentSignature(ATTACHMENT_ID, undefined, signature), false);
+    assert.equal(verifyAttachmentSignature(ATTACHMENT_ID, expires, undefined), false);
+  });
+});
@@ -0,0 +1,195 @@
+const { describe, it, beforeEach, afterEach, mock } = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+const axios = require('axios');
+const jwt = require('jsonwebtoken');
+
+const {
+  verifyGoogleIdToken,
+  setKeyProvider,
+  createJwksKeyProvider,
+  createStaticKeyProvider
+} = require('../utils/googleAuth');
+
+const CLIENT_ID = 'test-client.apps.googleusercontent.com';
+
+const generateKeys = () => crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const signingKeys = generateKeys();
+const otherKeys = generateKeys();
+
+// A Google-shaped ID token signed with a local key
+function signToken(claims = {}, { kid = 'key-1', privateKey = signingKeys.privateKey, ...options } = {}) {
+  return jwt.sign(
+    {
+      sub: '1234567890',
+      email: 'rita@example.com',
+      email_verified: true,
+      name: 'Rita Requester',
+      ...claims
+    },
+    privateKey,
+    {
+      algorithm: 'RS256',
+      keyid: kid,
+      audience: CLIENT_ID,
+      issuer: 'https://accounts.google.com',
+      expiresIn: '1h',
+      ...options
+    }
+  );
+}
+
+describe('verifyGoogleIdToken', () => {
+  beforeEach(() => {
+    setKeyProvider(createStaticKeyProvider({ 'key-1': signingKeys.publicKey }));
+  });
+
+  it('returns the payload of a valid token', async () => {
+    const payload = await verifyGoogleIdToken(signToken(), CLIENT_ID);
+    assert.equal(payload.sub, '1234567890');
+    assert.equal(payload.email, 'rita@example.com');
+  });
+
+  it('accepts PEM keys from the static provider', async () => {
+    const pem = signingKeys.publicKey.export({ type: 'spki', format: 'pem' });
+    setKeyProvider(createStaticKeyProvider({ 'key-1': pem }));
+    const payload = await verifyGoogleIdToken(signToken(), CLIENT_ID);
+    assert.equal(payload.sub, '1234567890');
+  });
+
+  it('rejects a token for another client', async () => {
+    await assert.rejects(verifyGoogleIdToken(signToken({}, { audience: 'someone-else' }), CLIENT_ID), /audience invalid/);
+  });
+
+  it('rejects a token from another issuer', async () => {
+    await assert.rejects(verifyGoogleIdToken(signToken({}, { issuer: 'https://evil.example.com' }), CLIENT_ID), /issuer invalid/);
+  });
+
+  it('rejects an expired token', async () => {
+    await assert.rejects(verifyGoogleIdToken(signToken({}, { expiresIn: -10 }), CLIENT_ID), /jwt expired/);
+  });
+
+  it('rejects a token signed with a different key', async () => {
+    await assert.rejects(
+      verifyGoogleIdToken(signToken({}, { privateKey: otherKeys.privateKey }), CLIENT_ID),
+      /invalid signature/
+    );
+  });
+
+  it('rejects a token signed with an unknown key id', async () => {
+    await assert.rejects(verifyGoogleIdToken(signToken({}, { kid: 'key-2' }), CLIENT_ID), /Unknown Google signing key/);
+  });
+
+  it('rejects a token that is not a JWT', async () => {
+    await assert.rejects(verifyGoogleIdToken('not-a-token', CLIENT_ID), /Malformed Google ID token/);
+  });
+
+  it('rejects a token without an email', async () => {
+    await assert.rejects(verifyGoogleIdToken(signToken({ email: undefined }), CLIENT_ID), /missing required claims/);
+  });
+
+  for (const emailVerified of [false, 'true', undefined]) {
+    it(`rejects email_verified of ${JSON.stringify(emailVerified)}`, async () => {
+      await assert.rejects(
+        verifyGoogleIdToken(signToken({ email_verified: emailVerified }), CLIENT_ID),
+        /email is not verified/
+      );
+    });
+  }
+
+  it('refuses to verify without a configured client id', async () => {
+    await assert.rejects(verifyGoogleIdToken(signToken(), ''), /GOOGLE_CLIENT_ID is not configured/);
+  });
+});
+
+describe('createJwksKeyProvider', () => {
+  let now;
+  let get;
+
+  const jwks = (kids) => ({
+    data: {
+      keys: kids.map((kid) => ({ ...signingKeys.publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' }))
+    },
+    headers: { 'cache-control': 'public, max-age=3600' }
+  });
+
+  beforeEach(() => {
+    now = Date.now();
+    mock.method(Date, 'now', () => now);
+    get = mock.method(axios, 'get', async () => jwks(['key-1']));
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('fetches the keys once and answers from the cache', async () => {
+    const provider = createJwksKeyProvider('https://keys.example.com');
+
+    assert.ok(await provider.getKey('key-1'));
+    assert.ok(await provider.getKey('key-1'));
+    assert.equal(get.mock.callCount(), 1);
+    assert.equal(get.mock.calls[0].arguments[0], 'https://keys.example.com');
+  });
+
+  it('refetches once the cached keys expire', async () => {
+    const provider = createJwksKeyProvider();
+    await provider.getKey('key-1');
+
+    now += 3600 * 1000;
+    await provider.getKey('key-1');
+    assert.equal(get.mock.callCount(), 2);
+  });
+
+  it('refetches for an unknown key id at most once a minute', async () => {
+    const provider = createJwksKeyProvider();
+    await provider.getKey('key-1');
+
+    now += 61 * 1000;
+    assert.equal(await provider.getKey('made-up-1'), undefined);
+    assert.equal(await provider.getKey('made-up-2'), undefined);
+    now += 30 * 1000;
+    assert.equal(await provider.getKey('made-up-3'), undefined);
+    assert.equal(get.mock.callCount(), 2);
+
+    // A rotated-in key is picked up once the minute has passed
+    get.mock.mockImplementation(async () => jwks(['key-1', 'key-2']));
+    now += 30 * 1000;
+    assert.ok(await provider.getKey('key-2'));
+    assert.equal(get.mock.callCount(), 3);
+  });
+
+  it('shares one fetch between verifications that arrive together', async () => {
+    const provider = createJwksKeyProvider();
+    await provider.getKey('key-1');
+
+    now += 3600 * 1000;
+    const results = await Promise.all([provider.getKey('key-1'), provider.getKey('key-1'), provider.getKey('key-1')]);
+    assert.ok(results.every(Boolean));
+    assert.equal(get.mock.callCount(), 2);
+  });
+
+  it('lets the next verification retry after a failed fetch', async () => {
+    const provider = createJwksKeyProvider();
+    get.mock.mockImplementationOnce(async () => {
+      throw new Error('network down');
+    });
+
+    const failed = [provider.getKey('key-1'), provider.getKey('key-1')];
+    for (const attempt of failed) {
+      await assert.rejects(attempt, /network down/);
+    }
+    assert.equal(get.mock.callCount(), 1);
+
+    assert.ok(await provider.getKey('key-1'));
+    assert.equal(get.mock.callCount(), 2);
+  });
+
+  it('does not refetch for an unknown key id right after fetching', async () => {
+    const provider = createJwksKeyProvider();
+    await provider.getKey('key-1');
+
+    assert.equal(await provider.getKey('made-up'), undefined);
+    assert.equal(get.mock.callCount(), 1);
+  });
+});
@@ -0,0 +1,257 @@
+const { describe, it, beforeEach, afterEach, mock } = require('node:test');
+const assert = require('node:assert/strict');
+const mongoose = require('mongoose');
+
+const emailService = require('../utils/emailService');
+const HelpRequest = require('../models/HelpRequest');
+const User = require('../models/User');
+const Message = require('../models/Message');
+const Attachment = require('../models/Attachment');
+const Notification = require('../models/Notification');
+const { createMemoryDb } = require('./support/memoryDb');
+
+// messageService keeps its own reference to sendEmail, so replace it before loading
+const sendEmail = mock.fn(async () => {});
+emailService.sendEmail = sendEmail;
+const { sendMessage, sendSocketMessage } = require('../utils/messageService');
+
+const objectId = () => new mongoose.Types.ObjectId();
+
+// Records what was emitted to which room
+function createFakeIo() {
+  const emitted = [];
+  return {
+    emitted,
+    to: (room) => ({
+      emit: (event, payload) => emitted.push({ room, event, payload })
+    })
+  };
+}
+
+// notifyRecipient runs after sendMessage resolves; let it finish
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('sendMessage', () => {
+  let db;
+  let io;
+  let requester;
+  let helper;
+  let request;
+
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+    sendEmail.mock.resetCalls();
+    db = createMemoryDb([HelpRequest, User, Message, Attachment, Notification]);
+    io = createFakeIo();
+
+    requester = db.insert(User, { name: 'Rita Requester', email: 'rita@example.com', googleId: 'g-rita' });
+    helper = db.insert(User, { name: 'Hugo Helper', email: 'hugo@example.com', googleId: 'g-hugo' });
+    request = db.insert(HelpRequest, {
+      title: 'Fix my bike',
+      description: 'Flat tyre',
+      requester: requester._id,
+      helper: helper._id,
+      status: 'in_progress'
+    });
+  });
+
+  afterEach(async () => {
+    // Let notifications from the test finish against the in-memory models
+    await settle();
+    db.restore();
+    mock.restoreAll();
+  });
+
+  describe('authorization', () => {
+    it('rejects senders who are not the requester or helper', async () => {
+      const stranger = db.insert(User, { name: 'Sam Stranger', email: 'sam@example.com', googleId: 'g-sam' });
+
+      await assert.rejects(
+        sendMessage({ io, senderId: stranger._id, requestId: request._id.toString(), content: 'Hi' }),
+        { status: 403, message: 'Not authorized to send messages' }
+      );
+      assert.equal(db.all(Message).length, 0);
+      assert.equal(io.emitted.length, 0);
+    });
+
+    it('rejects messages for a request that does not exist', async () => {
+      await assert.rejects(
+        sendMessage({ io, senderId: requester._id, requestId: objectId().toString(), content: 'Hi' }),
+        { status: 404, message: 'Request not found' }
+      );
+    });
+  });
+
+  describe('validation', () => {
+    const send = (input) => sendMessage({ io, senderId: requester._id, requestId: request._id.toString(), ...input });
+
+    it('rejects empty text', async () => {
+      await assert.rejects(send({ content: '   ' }), { status: 400, message: 'Message content is required' });
+    });
+
+    it('rejects text over the length limit', async () => {
+      await assert.rejects(send({ content: 'a'.repeat(5001) }), {
+        status: 400,
+        message: 'Message must be at most 5000 characters'
+      });
+    });
+
+    it('rejects a malformed request id', async () => {
+      await assert.rejects(send({ requestId: 'not-an-id', content: 'Hi' }), { status: 400, message: 'Invalid request id' });
+    });
+
+    it('stores nothing when validation fails', async () => {
+      await assert.rejects(send({ content: '' }));
+      assert.equal(db.all(Message).length, 0);
+    });
+  });
+
+  describe('persistence', () => {
+    it('stores the trimmed message from the sender', async () => {
+      const message = await sendMessage({
+        io,
+        senderId: requester._id,
+        requestId: request._id.toString(),
+        content: '  When are you free?  '
+      });
+
+      const stored = db.all(Message);
+      assert.equal(stored.length, 1);
+      assert.equal(stored[0].content, 'When are you free?');
+      assert.equal(stored[0].sender.toString(), requester._id.toString());
+      assert.equal(stored[0].request.toString(), request._id.toString());
+      assert.equal(message._id.toString(), stored[0]._id.toString());
+      assert.equal(message.senderName, 'Rita Requester');
+    });
+
+    it('returns the stored message when a send is retried with the same clientId', async () => {
+      const input = { io, senderId: helper._id, requestId: request._id.toString(), content: 'On my way', clientId: 'c-1' };
+      const first = await sendMessage(input);
+      const second = await sendMessage(input);
+
+      assert.equal(db.all(Message).length, 1);
+      assert.equal(second._id.toString(), first._id.toString());
+    });
+
+    it('releases the claimed attachment when the message fails to save', async () => {
+      const attachment = db.insert(Attachment, {
+        request: request._id,
+        uploader: requester._id,
+        storedName: 'photo-1234.png',
+        originalName: 'photo.png',
+        mimeType: 'image/png',
+        size: 1024,
+        kind: 'image'
+      });
+      Message.prototype.save.mock.mockImplementationOnce(async () => {
+        throw new Error('write failed');
+      });
+
+      await assert.rejects(sendMessage({
+        io,
+        senderId: requester._id,
+        requestId: request._id.toString(),
+        messageType: 'image',
+        attachmentId: attachment._id.toString()
+      }), { message: 'write failed' });
+
+      assert.equal(db.all(Attachment)[0].message, null);
+    });
+  });
+
+  describe('fan-out', () => {
+    it('broadcasts to the chat room and notifies the other participant in their user room', async () => {
+      const message = await sendMessage({ io, senderId: requester._id, requestId: request._id.toString(), content: 'Hello' });
+      await settle();
+
+      assert.deepEqual(
+        io.emitted.map(({ room, event }) => [room, event]),
+        [
+          [request._id.toString(), 'message'],
+          [`user:${helper._id}`, 'notification']
+        ]
+      );
+      assert.equal(io.emitted[0].payload, message);
+      assert.equal(io.emitted[1].payload.type, 'message_received');
+      assert.equal(io.emitted[1].payload.senderName, 'Rita Requester');
+
+      const notifications = db.all(Notification);
+      assert.equal(notifications.length, 1);
+      assert.equal(notifications[0].recipient.toString(), helper._id.toString());
+      assert.equal(sendEmail.mock.calls[0].arguments[0].to, 'hugo@example.com');
+    });
+
+    it('does not notify anyone when the sender is alone on an open request', async () => {
+      await HelpRequest.updateOne({ _id: request._id }, { $unset: { helper: 1 }, status: 'open' });
+
+      await sendMessage({ io, senderId: requester._id, requestId: request._id.toString(), content: 'Anyone?' });
+      await settle();
+
+      assert.deepEqual(io.emitted.map(({ event }) => event), ['message']);
+      assert.equal(db.all(Notification).length, 0);
+    });
+  });
+
+  describe('socket acknowledgements', () => {
+    const socket = () => ({ emit: mock.fn() });
+
+    it('acknowledges a saved message', async () => {
+      const ack = mock.fn();
+      await sendSocketMessage({
+        io,
+        socket: socket(),
+        senderId: requester._id,
+        messageData: { requestId: request._id.toString(), content: 'Hi', clientId: 'c-ack' },
+        ack
+      });
+
+      assert.equal(ack.mock.callCount(), 1);
+      const [payload] = ack.mock.calls[0].arguments;
+      assert.equal(payload.ok, true);
+      assert.equal(payload.message.clientId, 'c-ack');
+      assert.equal(payload.message.content, 'Hi');
+    });
+
+    it('acknowledges a rejected message with the reason', async () => {
+      const ack = mock.fn();
+      await sendSocketMessage({
+        io,
+        socket: socket(),
+        senderId: objectId(),
+        messageData: { requestId: request._id.toString(), content: 'Hi' },
+        ack
+      });
+
+      assert.deepEqual(ack.mock.calls[0].arguments[0], { ok: false, error: 'Not authorized to send messages' });
+    });
+
+    it('hides unexpected errors behind a generic reason', async () => {
+      Message.prototype.save.mock.mockImplementationOnce(async () => {
+        throw new Error('connection reset');
+      });
+      const ack = mock.fn();
+      await sendSocketMessage({
+        io,
+        socket: socket(),
+        senderId: requester._id,
+        messageData: { requestId: request._id.toString(), content: 'Hi' },
+        ack
+      });
+
+      assert.deepEqual(ack.mock.calls[0].arguments[0], { ok: false, error: 'Failed to send message' });
+    });
+
+    it('emits an error event when the client sent no ack', async () => {
+      const client = socket();
+      await sendSocketMessage({
+        io,
+        socket: client,
+        senderId: requester._id,
+        messageData: { requestId: request._id.toString(), content: '' }
+      });
+
+      assert.deepEqual(client.emit.mock.calls[0].arguments, ['error', { message: 'Message content is required' }]);
+    });
+  });
+});
@@ -0,0 +1,187 @@
+const { describe, it, before, after, beforeEach, afterEach, mock } = require('node:test');
+const assert = require('node:assert/strict');
+const net = require('net');
+
+const { configureSocketAdapter, getSocketAdapterStatus } = require('../utils/socketAdapter');
+const { getSocketState, createMemorySocketState, createRedisSocketState } = require('../utils/socketState');
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// A local port with nothing listening on it
+const closedPort = () => new Promise((resolve) => {
+  const server = net.createServer();
+  server.listen(0, '127.0.0.1', () => {
+    const { port } = server.address();
+    server.close(() => resolve(port));
+  });
+});
+
+describe('configureSocketAdapter', () => {
+  const originalUrl = process.env.REDIS_URL;
+  let io;
+
+  beforeEach(() => {
+    mock.method(console, 'error', () => {});
+    mock.method(console, 'log', () => {});
+    io = { adapter: mock.fn() };
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    if (originalUrl === undefined) {
+      delete process.env.REDIS_URL;
+    } else {
+      process.env.REDIS_URL = originalUrl;
+    }
+  });
+
+  it('keeps everything in memory without REDIS_URL', async () => {
+    delete process.env.REDIS_URL;
+
+    assert.deepEqual(await configureSocketAdapter(io), { type: 'memory' });
+    assert.equal(io.adapter.mock.callCount(), 0);
+    assert.equal(getSocketState().name, 'memory');
+    assert.deepEqual(getSocketAdapterStatus(), { type: 'memory' });
+  });
+
+  it('falls back to memory when Redis cannot be reached', async () => {
+    process.env.REDIS_URL = `redis://127.0.0.1:${await closedPort()}`;
+
+    const status = await configureSocketAdapter(io);
+
+    assert.equal(status.type, 'memory');
+    assert.match(status.error, /ECONNREFUSED/);
+    assert.equal(io.adapter.mock.callCount(), 0);
+    assert.equal(getSocketState().name, 'memory');
+    assert.deepEqual(getSocketAdapterStatus(), status);
+  });
+});
+
+describe('createMemorySocketState', () => {
+  it('counts each user\'s sockets', async () => {
+    const state = createMemorySocketState();
+
+    assert.equal(await state.addUserSocket('u1', 's1'), 1);
+    assert.equal(await state.addUserSocket('u1', 's2'), 2);
+    assert.equal(await state.addUserSocket('u1', 's2'), 2);
+    assert.equal(await state.isOnline('u1'), true);
+
+    assert.equal(await state.removeUserSocket('u1', 's1'), 1);
+    assert.equal(await state.isOnline('u1'), true);
+    assert.equal(await state.removeUserSocket('u1', 's2'), 0);
+    assert.equal(await state.isOnline('u1'), false);
+  });
+
+  it('treats user ids as strings', async () => {
+    const state = createMemorySocketState();
+    await state.addUserSocket({ toString: () => 'u1' }, 's1');
+    assert.equal(await state.isOnline('u1'), true);
+  });
+
+  it('counts a user\'s sockets per room', async () => {
+    const state = createMemorySocketState();
+
+    assert.equal(await state.addRoomSocket('r1', 'u1', 's1'), 1);
+    assert.equal(await state.addRoomSocket('r2', 'u1', 's1'), 1);
+    assert.equal(await state.addRoomSocket('r1', 'u1', 's2'), 2);
+
+    assert.equal(await state.removeRoomSocket('r1', 'u1', 's1'), 1);
+    assert.equal(await state.removeRoomSocket('r2', 'u1', 's1'), 0);
+    assert.equal(await state.removeRoomSocket('r3', 'u1', 's1'), 0);
+  });
+});
+
+// Runs against the Redis at REDIS_URL, e.g. REDIS_URL=redis://localhost:6379 npm test
+describe('createRedisSocketState', { skip: !process.env.REDIS_URL && 'set REDIS_URL to run against a local Redis' }, () => {
+  // Short heartbeats so stale entries expire within the test
+  const HEARTBEAT_MS = 100;
+  const STALE_AFTER_MS = HEARTBEAT_MS * 3;
+  let client;
+  let prefix;
+  let states;
+
+  // Each state stands for one backend instance sharing the same Redis
+  const createInstance = () => {
+    const state = createRedisSocketState(client, { prefix, heartbeatMs: HEARTBEAT_MS });
+    states.push(state);
+    return state;
+  };
+
+  before(async () => {
+    const { createClient } = require('redis');
+    client = createClient({ url: process.env.REDIS_URL });
+    await client.connect();
+  });
+
+  after(async () => {
+    await client.quit();
+  });
+
+  beforeEach(() => {
+    prefix = `skillfull-test:${process.pid}:${Date.now()}`;
+    states = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(states.map((state) => state.close()));
+    const keys = await client.keys(`${prefix}:*`);
+    if (keys.length > 0) {
+      await client.del(keys);
+    }
+  });
+
+  it('counts each user\'s sockets across instances', async () => {
+    const first = createInstance();
+    const second = createInstance();
+
+    assert.equal(await first.addUserSocket('u1', 's1'), 1);
+    assert.equal(await second.addUserSocket('u1', 's2'), 2);
+    assert.equal(await first.addUserSocket('u1', 's1'), 2);
+    assert.equal(await second.isOnline('u1'), true);
+
+    assert.equal(await first.removeUserSocket('u1', 's1'), 1);
+    assert.equal(await first.isOnline('u1'), true);
+    assert.equal(await second.removeUserSocket('u1', 's2'), 0);
+    assert.equal(await first.isOnline('u1'), false);
+  });
+
+  it('treats user ids as strings', async () => {
+    const state = createInstance();
+    await state.addUserSocket({ toString: () => 'u1' }, 's1');
+    assert.equal(await state.isOnline('u1'), true);
+  });
+
+  it('counts a user\'s sockets per room', async () => {
+    const state = createInstance();
+
+    assert.equal(await state.addRoomSocket('r1', 'u1', 's1'), 1);
+    assert.equal(await state.addRoomSocket('r2', 'u1', 's1'), 1);
+    assert.equal(await state.addRoomSocket('r1', 'u1', 's2'), 2);
+
+    assert.equal(await state.removeRoomSocket('r1', 'u1', 's1'), 1);
+    assert.equal(await state.removeRoomSocket('r2', 'u1', 's1'), 0);
+    assert.equal(await state.removeRoomSocket('r3', 'u1', 's1'), 0);
+  });
+
+  it('keeps sockets alive while their instance sends heartbeats', async () => {
+    const state = createInstance();
+    await state.addUserSocket('u1', 's1');
+
+    await sleep(STALE_AFTER_MS * 2);
+    assert.equal(await state.isOnline('u1'), true);
+  });
+
+  it('expires sockets left behind by an instance that stopped', async () => {
+    const crashed = createInstance();
+    const survivor = createInstance();
+    await crashed.addUserSocket('u1', 's1');
+    await crashed.addRoomSocket('r1', 'u1', 's1');
+    await crashed.close();
+
+    await sleep(STALE_AFTER_MS + HEARTBEAT_MS);
+    assert.equal(await survivor.isOnline('u1'), false);
+    // Stale entries don't count towards new ones
+    assert.equal(await survivor.addUserSocket('u1', 's2'), 1);
+    assert.equal(await survivor.addRoomSocket('r1', 'u1', 's2'), 1);
+  });
+});
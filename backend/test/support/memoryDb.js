@@ -0,0 +1,103 @@
+const { mock } = require('node:test');
+
+// In-memory stand-in for the MongoDB collections behind a few Mongoose models.
+// It mocks the model methods the services call, so tests run without a
+// database. Filters support plain equality, `null` for "missing" and `$lte`.
+
+const matches = (doc, filter = {}) => Object.entries(filter).every(([key, value]) => {
+  if (value === null || value === undefined) {
+    return doc[key] === null || doc[key] === undefined;
+  }
+  if (value.$lte !== undefined) {
+    return doc[key] !== undefined && doc[key] !== null && doc[key] <= value.$lte;
+  }
+  return doc[key] !== undefined && doc[key] !== null && String(doc[key]) === String(value);
+});
+
+const applyUpdate = (doc, update) => {
+  const { $set, $unset, ...fields } = update;
+  Object.assign(doc, fields, $set);
+  Object.keys($unset || {}).forEach((key) => delete doc[key]);
+};
+
+// A chainable, awaitable query like the ones Mongoose returns
+function query(run) {
+  const chain = {
+    populate: () => chain,
+    select: () => chain,
+    sort: () => chain,
+    limit: () => chain,
+    exec: () => Promise.resolve().then(run),
+    then: (resolve, reject) => chain.exec().then(resolve, reject)
+  };
+  return chain;
+}
+
+function createMemoryDb(models) {
+  const collections = new Map(models.map((Model) => [Model, []]));
+  const mocks = [];
+  const stub = (target, name, implementation) => mocks.push(mock.method(target, name, implementation));
+
+  const hydrate = (Model, raw) => (raw ? Model.hydrate({ ...raw }) : null);
+
+  for (const Model of models) {
+    const docs = collections.get(Model);
+    const findRaw = (filter) => docs.find((doc) => matches(doc, filter));
+
+    stub(Model, 'findById', (id) => query(() => hydrate(Model, findRaw({ _id: id }))));
+    stub(Model, 'findOne', (filter) => query(() => hydrate(Model, findRaw(filter))));
+    stub(Model, 'find', (filter) => query(() => docs.filter((doc) => matches(doc, filter)).map((doc) => hydrate(Model, doc))));
+    stub(Model, 'exists', (filter) => query(() => (findRaw(filter) ? { _id: findRaw(filter)._id } : null)));
+    stub(Model, 'findOneAndUpdate', (filter, update) => query(() => {
+      const raw = findRaw(filter);
+      if (!raw) return null;
+      applyUpdate(raw, update);
+      return hydrate(Model, raw);
+    }));
+    stub(Model, 'findOneAndDelete', (filter) => query(() => {
+      const raw = findRaw(filter);
+      if (!raw) return null;
+      docs.splice(docs.indexOf(raw), 1);
+      return hydrate(Model, raw);
+    }));
+    stub(Model, 'updateOne', (filter, update) => query(() => {
+      const raw = findRaw(filter);
+      if (raw) applyUpdate(raw, update);
+      return { matchedCount: raw ? 1 : 0, modifiedCount: raw ? 1 : 0 };
+    }));
+    stub(Model.prototype, 'save', async function save() {
+      await this.validate();
+      if (Model.schema.options.timestamps) {
+        const now = new Date();
+        this.createdAt = this.createdAt || now;
+        this.updatedAt = now;
+      }
+      const raw = this.toObject({ depopulate: true });
+      const index = docs.findIndex((doc) => String(doc._id) === String(raw._id));
+      if (index === -1) {
+        docs.push(raw);
+      } else {
+        docs[index] = raw;
+      }
+      this.isNew = false;
+      return this;
+    });
+  }
+
+  return {
+    // Store a document as if it were already in the collection
+    insert(Model, fields) {
+      const raw = new Model(fields).toObject({ depopulate: true });
+      collections.get(Model).push(raw);
+      return raw;
+    },
+    all(Model) {
+      return collections.get(Model);
+    },
+    restore() {
+      mocks.forEach((fn) => fn.mock.restore());
+    }
+  };
+}
+
+module.exports = { createMemoryDb };
@@ -0,0 +1,38 @@
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { sniffContentType } = require('../utils/uploads');
+
+describe('sniffContentType', () => {
+  it('recognises files by their first bytes', () => {
+    assert.equal(sniffContentType(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0])), 'image/png');
+    assert.equal(sniffContentType(Buffer.from('%PDF-1.7\n')), 'application/pdf');
+    assert.equal(sniffContentType(Buffer.from([0x50, 0x4b, 0x03, 0x04]), 'notes.zip'), 'application/zip');
+  });
+
+  it('ignores the filename for anything but .docx', () => {
+    assert.equal(sniffContentType(Buffer.from('%PDF-1.7\n'), 'photo.png'), 'application/pdf');
+  });
+
+  it('accepts plain UTF-8 text', () => {
+    assert.equal(sniffContentType(Buffer.from('Shopping list:\n- café\n- 2 < 3\n')), 'text/plain');
+  });
+
+  it('rejects binary and invalid UTF-8', () => {
+    assert.equal(sniffContentType(Buffer.from([0x41, 0x00, 0x42])), null);
+    assert.equal(sniffContentType(Buffer.from([0x41, 0xff, 0xfe, 0x42, 0x43, 0x44, 0x45])), null);
+  });
+
+  for (const markup of [
+    '<html><body>hi</body></html>',
+    '<!DOCTYPE html><p>hi</p>',
+    '<svg xmlns="http://www.w3.org/2000/svg" onload="alert(1)"/>',
+    '<script>alert(1)</script>',
+    '<?xml version="1.0"?><root/>',
+    '\uFEFF  \n<HTML>',
+  ]) {
+    it(`rejects text starting with markup: ${JSON.stringify(markup.slice(0, 12))}`, () => {
+      assert.equal(sniffContentType(Buffer.from(markup)), null);
+    });
+  }
+});
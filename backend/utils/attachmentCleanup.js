@@ -0,0 +1,48 @@
+const Attachment = require('../models/Attachment');
+const { getStorage } = require('./storage');
+
+// How long an upload may wait to be sent in a message before it is deleted
+const DEFAULT_UNCLAIMED_HOURS = 24;
+// How often to look for unclaimed uploads
+const CLEANUP_CHECK_MS = 60 * 60 * 1000;
+const MAX_CLEANUP_BATCH = 100;
+
+const unclaimedTtlMs = () => {
+  const hours = parseFloat(process.env.UNCLAIMED_ATTACHMENT_HOURS);
+  return (hours > 0 ? hours : DEFAULT_UNCLAIMED_HOURS) * 60 * 60 * 1000;
+};
+
+// Delete uploads that were never sent in a message, along with their files.
+// Returns how many were removed.
+async function removeUnclaimedAttachments() {
+  const cutoff = new Date(Date.now() - unclaimedTtlMs());
+  const stale = await Attachment.find({ message: null, createdAt: { $lte: cutoff } })
+    .select('_id')
+    .limit(MAX_CLEANUP_BATCH);
+
+  let removed = 0;
+  for (const { _id } of stale) {
+    try {
+      // Only if it still hasn't been claimed; sendMessage claims with message: null too
+      const attachment = await Attachment.findOneAndDelete({ _id, message: null });
+      if (!attachment) continue;
+      await getStorage().remove(attachment.storedName);
+      removed += 1;
+    } catch (error) {
+      console.error('Failed to remove unclaimed attachment:', error);
+    }
+  }
+  return removed;
+}
+
+function startAttachmentCleanupSchedule() {
+  const timer = setInterval(() => {
+    removeUnclaimedAttachments().catch((error) => console.error('Failed to clean up attachments:', error));
+  }, CLEANUP_CHECK_MS);
+  timer.unref();
+}
+
+module.exports = {
+  removeUnclaimedAttachments,
+  startAttachmentCleanupSchedule
+};
@@ -0,0 +1,34 @@
+const crypto = require('crypto');
+
+// Signed download links let <img> tags load attachments without an
+// Authorization header. They are only handed to the request's participants
+// and expire quickly.
+const SIGNED_URL_TTL_SECONDS = parseInt(process.env.ATTACHMENT_URL_TTL_SECONDS, 10) || 15 * 60;
+
+const getSecret = () => process.env.ATTACHMENT_URL_SECRET || process.env.JWT_SECRET || 'your-secret-key';
+
+const computeSignature = (attachmentId, expires) =>
+  crypto
+    .createHmac('sha256', getSecret())
+    .update(`${attachmentId}:${expires}`)
+    .digest('base64url');
+
+// Path relative to the API base URL, e.g. /attachments/<id>/download?expires=...&signature=...
+function signAttachmentUrl(attachmentId, ttlSeconds = SIGNED_URL_TTL_SECONDS) {
+  const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const signature = computeSignature(attachmentId.toString(), expires);
+  return `/attachments/${attachmentId}/download?expires=${expires}&signature=${signature}`;
+}
+
+function verifyAttachmentSignature(attachmentId, expires, signature) {
+  const expiresAt = parseInt(expires, 10);
+  if (!expiresAt || !signature || expiresAt < Math.floor(Date.now() / 1000)) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeSignature(attachmentId.toString(), expiresAt));
+  const actual = Buffer.from(String(signature));
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+module.exports = { signAttachmentUrl, verifyAttachmentSignature, SIGNED_URL_TTL_SECONDS };
@@ -0,0 +1,84 @@
+// iCalendar (RFC 5545) invites for scheduled sessions, attached to emails so
+// participants can add them to their calendar
+
+const PRODUCT_ID = '-//SkillFull//Sessions//EN';
+// Lines longer than this many octets must be folded
+const MAX_LINE_OCTETS = 75;
+
+// 2026-10-19T14:30:00.000Z -> 20261019T143000Z
+const formatDate = (date) => new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (value = '') => String(value)
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+// Quoted parameter values may not contain double quotes
+const escapeParam = (value = '') => `"${String(value).replace(/"/g, "'")}"`;
+
+// Split a content line into 75-octet chunks, continued with a leading space,
+// without cutting a multi-byte character in half
+function foldLine(line) {
+  const chunks = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = Buffer.byteLength(char);
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+// Build the calendar for one session. `method` is REQUEST for a new or updated
+// invite and CANCEL once the session is called off; `sequence` must increase
+// with each change so calendars replace the earlier copy.
+function buildSessionCalendar({ session, request, organizer, attendee, method = 'REQUEST', sequence = 0 }) {
+  const { start, end } = session.scheduledSlot;
+  const location = request.isRemote || !request.location ? 'Online' : request.location;
+  const description = [
+    `SkillFull help session for "${request.title}".`,
+    session.note ? `Note: ${session.note}` : null
+  ].filter(Boolean).join('\n');
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    `PRODID:${PRODUCT_ID}`,
+    'VERSION:2.0',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+    'BEGIN:VEVENT',
+    `UID:session-${session._id}@skillfull`,
+    `SEQUENCE:${sequence}`,
+    `DTSTAMP:${formatDate(new Date())}`,
+    `DTSTART:${formatDate(start)}`,
+    `DTEND:${formatDate(end)}`,
+    `SUMMARY:${escapeText(`SkillFull session: ${request.title}`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `LOCATION:${escapeText(location)}`,
+    `ORGANIZER;CN=${escapeParam(organizer.name)}:mailto:${organizer.email}`,
+    `ATTENDEE;CN=${escapeParam(attendee.name)};ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED:mailto:${attendee.email}`,
+    `STATUS:${method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// Nodemailer attachment for a calendar built by buildSessionCalendar
+const calendarAttachment = (calendar, method = 'REQUEST') => ({
+  filename: method === 'CANCEL' ? 'session-cancelled.ics' : 'session.ics',
+  content: calendar,
+  contentType: `text/calendar; charset=utf-8; method=${method}`
+});
+
+module.exports = { buildSessionCalendar, calendarAttachment };
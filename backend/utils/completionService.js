@@ -0,0 +1,254 @@
+const HelpRequest = require('../models/HelpRequest');
+const { notify } = require('./notificationService');
+const { sendEmail } = require('./emailService');
+const { emitToParticipants } = require('./socketRooms');
+
+// How long the requester has to confirm or dispute before the request
+// completes on its own
+const DEFAULT_CONFIRM_HOURS = 72;
+// How often to look for confirmations that are overdue
+const CONFIRM_CHECK_MS = 5 * 60 * 1000;
+const MAX_AUTO_CONFIRM_BATCH = 100;
+
+const confirmWindowMs = () => {
+  const hours = parseFloat(process.env.COMPLETION_CONFIRM_HOURS);
+  return (hours > 0 ? hours : DEFAULT_CONFIRM_HOURS) * 60 * 60 * 1000;
+};
+
+const completionError = (status, message) => {
+  const error = new Error(message);
+  error.status = status;
+  return error;
+};
+
+const populateRequest = (id) => HelpRequest.findById(id)
+  .populate('requester', 'name email picture')
+  .populate('category', 'name description icon')
+  .populate('helper', 'name email picture');
+
+const emitStatus = (io, request, extra) => {
+  if (!io) return;
+  emitToParticipants(io, request, "request_status_updated", {
+    requestId: request._id,
+    requestTitle: request.title,
+    status: request.status,
+    helperId: request.helper._id.toString(),
+    requesterId: request.requester._id.toString(),
+    ...extra
+  });
+};
+
+// Look up a request and check the caller's role before a transition, so the
+// route can tell "not yours" apart from "wrong state"
+async function loadForParticipant(requestId, userId, role) {
+  const request = await HelpRequest.findById(requestId).select('requester helper status');
+  if (!request) {
+    throw completionError(404, 'Request not found');
+  }
+  if (!request[role] || request[role].toString() !== userId) {
+    throw completionError(403, role === 'helper'
+      ? 'Only the helper can mark this request as done'
+      : 'Only the requester can confirm or dispute completion');
+  }
+  return request;
+}
+
+// The helper marks the request as done; the requester then has until
+// confirmationDueAt to confirm or dispute
+async function requestCompletion(io, requestId, user) {
+  await loadForParticipant(requestId, user.id, 'helper');
+
+  const now = new Date();
+  const updated = await HelpRequest.findOneAndUpdate(
+    { _id: requestId, helper: user.id, status: { $in: ['in_progress', 'disputed'] } },
+    {
+      $set: {
+        status: 'pending_confirmation',
+        completionRequestedAt: now,
+        confirmationDueAt: new Date(now.getTime() + confirmWindowMs())
+      },
+      $unset: { disputedAt: 1, disputeReason: 1 }
+    },
+    { new: true }
+  );
+  if (!updated) {
+    throw completionError(400, 'Request is not in progress');
+  }
+
+  const request = await populateRequest(updated._id);
+  emitStatus(io, request, {
+    completedBy: user.id,
+    completedByName: user.name,
+    confirmationDueAt: request.confirmationDueAt
+  });
+
+  await notify(io, {
+    recipient: request.requester._id,
+    type: 'completion_requested',
+    message: `${request.helper.name} marked "${request.title}" as done. Please confirm or raise a dispute`,
+    requestId: request._id,
+    requestTitle: request.title
+  });
+
+  try {
+    await sendEmail({
+      to: request.requester.email,
+      subject: `Please confirm your help request is complete`,
+      text: `Hi ${request.requester.name},\n\n${request.helper.name} has marked '${request.title}' as done.\n\nPlease confirm it from My Requests on SkillFull, or raise a dispute if something isn't finished. If you don't respond by ${request.confirmationDueAt.toUTCString()}, the request will be confirmed automatically.`,
+    });
+  } catch (e) {
+    console.error('Failed to send completion request email:', e);
+  }
+
+  return request;
+}
+
+// Complete a request the helper has marked as done. Requesters may confirm a
+// disputed request once it is resolved; automatic confirmation only applies
+// to requests still awaiting a response after their deadline.
+async function confirmCompletion(io, requestId, { userId, auto = false } = {}) {
+  const now = new Date();
+  const query = auto
+    ? { _id: requestId, status: 'pending_confirmation', confirmationDueAt: { $lte: now } }
+    : { _id: requestId, requester: userId, status: { $in: ['pending_confirmation', 'disputed'] } };
+
+  if (!auto) {
+    await loadForParticipant(requestId, userId, 'requester');
+  }
+
+  const updated = await HelpRequest.findOneAndUpdate(
+    query,
+    { status: 'completed', completedAt: now, autoConfirmed: auto },
+    { new: true }
+  );
+  if (!updated) {
+    if (auto) return null;
+    throw completionError(400, 'Request is not awaiting confirmation');
+  }
+
+  const request = await populateRequest(updated._id);
+  emitStatus(io, request, { autoConfirmed: auto });
+
+  const reason = auto ? 'was confirmed automatically' : `was confirmed by ${request.requester.name}`;
+  await notify(io, {
+    recipient: request.helper._id,
+    type: 'request_completed',
+    message: `"${request.title}" ${reason} and is now complete`,
+    requestId: request._id,
+    requestTitle: request.title
+  });
+  await notify(io, {
+    recipient: request.requester._id,
+    type: 'request_completed',
+    message: auto
+      ? `"${request.title}" was confirmed automatically and is now complete`
+      : `You confirmed "${request.title}" is complete`,
+    requestId: request._id,
+    requestTitle: request.title
+  });
+
+  try {
+    // Notify requester
+    await sendEmail({
+      to: request.requester.email,
+      subject: `Your help request has been completed!`,
+      text: `Hi ${request.requester.name},\n\nYour help request '${request.title}' ${reason} and is now complete.\n\nThank you for using SkillFull!`,
+    });
+    // Notify helper
+    await sendEmail({
+      to: request.helper.email,
+      subject: `You completed a help request!`,
+      text: `Hi ${request.helper.name},\n\nThe request '${request.title}' ${reason} and is now complete.\n\nThank you for helping on SkillFull!`,
+    });
+  } catch (e) {
+    console.error('Failed to send completion email:', e);
+  }
+
+  return request;
+}
+
+// The requester says the work isn't finished; the helper can mark it as done
+// again once it's sorted out
+async function disputeCompletion(io, requestId, userId, reason) {
+  await loadForParticipant(requestId, userId, 'requester');
+
+  const updated = await HelpRequest.findOneAndUpdate(
+    { _id: requestId, requester: userId, status: 'pending_confirmation' },
+    {
+      $set: { status: 'disputed', disputedAt: new Date(), disputeReason: reason },
+      $unset: { confirmationDueAt: 1 }
+    },
+    { new: true }
+  );
+  if (!updated) {
+    throw completionError(400, 'Request is not awaiting confirmation');
+  }
+
+  const request = await populateRequest(updated._id);
+  emitStatus(io, request, { disputeReason: reason });
+
+  await notify(io, {
+    recipient: request.helper._id,
+    type: 'request_disputed',
+    message: `${request.requester.name} disputed the completion of "${request.title}": ${reason}`,
+    requestId: request._id,
+    requestTitle: request.title
+  });
+  await notify(io, {
+    recipient: request.requester._id,
+    type: 'request_disputed',
+    message: `You disputed the completion of "${request.title}". ${request.helper.name} has been told why`,
+    requestId: request._id,
+    requestTitle: request.title
+  });
+
+  try {
+    // Notify helper
+    await sendEmail({
+      to: request.helper.email,
+      subject: `Completion disputed: ${request.title}`,
+      text: `Hi ${request.helper.name},\n\n${request.requester.name} doesn't think '${request.title}' is finished yet:\n\n${reason}\n\nChat with them to sort it out, then mark the request as done again.`,
+    });
+    // Notify requester
+    await sendEmail({
+      to: request.requester.email,
+      subject: `You disputed a completion: ${request.title}`,
+      text: `Hi ${request.requester.name},\n\nWe've let ${request.helper.name} know why '${request.title}' isn't finished yet.\n\nYou can confirm it from My Requests once it's resolved.`,
+    });
+  } catch (e) {
+    console.error('Failed to send dispute email:', e);
+  }
+
+  return request;
+}
+
+async function autoConfirmOverdue(io) {
+  const overdue = await HelpRequest.find({
+    status: 'pending_confirmation',
+    confirmationDueAt: { $lte: new Date() }
+  })
+    .select('_id')
+    .limit(MAX_AUTO_CONFIRM_BATCH);
+
+  for (const request of overdue) {
+    try {
+      await confirmCompletion(io, request._id, { auto: true });
+    } catch (error) {
+      console.error('Failed to auto-confirm request completion:', error);
+    }
+  }
+}
+
+function startAutoConfirmSchedule(io) {
+  const timer = setInterval(() => {
+    autoConfirmOverdue(io).catch((error) => console.error('Failed to auto-confirm completions:', error));
+  }, CONFIRM_CHECK_MS);
+  timer.unref();
+}
+
+module.exports = {
+  requestCompletion,
+  confirmCompletion,
+  disputeCompletion,
+  startAutoConfirmSchedule
+};
@@ -10,13 +10,14 @@ const transporter = nodemailer.createTransport({
   },
 });
 
-async function sendEmail({ to, subject, text, html }) {
+async function sendEmail({ to, subject, text, html, attachments }) {
   const mailOptions = {
     from: process.env.EMAIL_FROM,
     to,
     subject,
     text,
     html,
+    attachments,
   };
   return transporter.sendMail(mailOptions);
 }
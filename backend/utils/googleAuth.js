@@ -0,0 +1,108 @@
+const crypto = require('crypto');
+const axios = require('axios');
+const jwt = require('jsonwebtoken');
+
+const GOOGLE_CERTS_URL = 'https://www.googleapis.com/oauth2/v3/certs';
+const GOOGLE_ISSUERS = ['accounts.google.com', 'https://accounts.google.com'];
+// Tokens with a kid we don't know trigger at most one refetch per this interval,
+// so a flood of made-up kids can't turn into a flood of requests to Google
+const UNKNOWN_KID_REFETCH_MS = 60 * 1000;
+
+// Key providers resolve a JWT `kid` to a public key. The default one fetches
+// Google's published JWKS; tests can swap in locally generated keys instead.
+
+function createJwksKeyProvider(url = GOOGLE_CERTS_URL) {
+  let keys = new Map();
+  let expiresAt = 0;
+  let fetchedAt = 0;
+  let inflight = null;
+
+  const fetchKeys = async () => {
+    fetchedAt = Date.now();
+    const response = await axios.get(url, { timeout: 5000 });
+    keys = new Map(
+      response.data.keys.map((jwk) => [jwk.kid, crypto.createPublicKey({ key: jwk, format: 'jwk' })])
+    );
+
+    // Honour Cache-Control so key rotation is picked up, defaulting to an hour
+    const maxAge = /max-age=(\d+)/.exec(response.headers['cache-control'] || '');
+    expiresAt = Date.now() + (maxAge ? parseInt(maxAge[1], 10) : 3600) * 1000;
+  };
+
+  // Verifications that arrive while the keys are being fetched wait for that fetch
+  const refresh = () => {
+    if (!inflight) {
+      inflight = fetchKeys().finally(() => {
+        inflight = null;
+      });
+    }
+    return inflight;
+  };
+
+  return {
+    async getKey(kid) {
+      const now = Date.now();
+      if (inflight || now >= expiresAt || (!keys.has(kid) && now - fetchedAt >= UNKNOWN_KID_REFETCH_MS)) {
+        await refresh();
+      }
+      return keys.get(kid);
+    },
+  };
+}
+
+// `keys` maps kid -> PEM string or KeyObject
+function createStaticKeyProvider(keys) {
+  return {
+    async getKey(kid) {
+      const key = keys[kid];
+      return typeof key === 'string' ? crypto.createPublicKey(key) : key;
+    },
+  };
+}
+
+let keyProvider = createJwksKeyProvider();
+
+function setKeyProvider(provider) {
+  keyProvider = provider;
+}
+
+// Verify a Google ID token's signature, audience, issuer and expiry and
+// return its payload. Throws if the token cannot be trusted.
+async function verifyGoogleIdToken(idToken, audience = process.env.GOOGLE_CLIENT_ID) {
+  if (!audience) {
+    throw new Error('GOOGLE_CLIENT_ID is not configured');
+  }
+
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || !decoded.header || !decoded.header.kid) {
+    throw new Error('Malformed Google ID token');
+  }
+
+  const key = await keyProvider.getKey(decoded.header.kid);
+  if (!key) {
+    throw new Error('Unknown Google signing key');
+  }
+
+  const payload = jwt.verify(idToken, key, {
+    algorithms: ['RS256'],
+    audience,
+    issuer: GOOGLE_ISSUERS,
+  });
+
+  if (!payload.sub || !payload.email) {
+    throw new Error('Google ID token is missing required claims');
+  }
+
+  if (payload.email_verified !== true) {
+    throw new Error('Google account email is not verified');
+  }
+
+  return payload;
+}
+
+module.exports = {
+  verifyGoogleIdToken,
+  setKeyProvider,
+  createJwksKeyProvider,
+  createStaticKeyProvider,
+};
@@ -0,0 +1,195 @@
+const mongoose = require('mongoose');
+const HelpRequest = require('../models/HelpRequest');
+const User = require('../models/User');
+
+// How much each signal contributes to a request's score (out of 100)
+const WEIGHTS = {
+  skills: 50,
+  category: 20,
+  urgency: 10,
+  location: 10,
+  rating: 10
+};
+
+// Only the most recent open requests are scored
+const MAX_CANDIDATES = 200;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+// Completed requests in a category after which category history counts fully
+const CATEGORY_HISTORY_TARGET = 3;
+
+const URGENCY_SCORES = { high: 1, medium: 0.5, low: 0 };
+
+// Alternative spellings mapped to one canonical skill name
+const SKILL_SYNONYMS = {
+  js: 'javascript',
+  ecmascript: 'javascript',
+  ts: 'typescript',
+  reactjs: 'react',
+  'react js': 'react',
+  'react.js': 'react',
+  node: 'nodejs',
+  'node js': 'nodejs',
+  'node.js': 'nodejs',
+  vuejs: 'vue',
+  'vue.js': 'vue',
+  py: 'python',
+  python3: 'python',
+  golang: 'go',
+  postgres: 'postgresql',
+  psql: 'postgresql',
+  mongo: 'mongodb',
+  'c sharp': 'c#',
+  csharp: 'c#',
+  cpp: 'c++',
+  ml: 'machine learning',
+  ai: 'artificial intelligence',
+  ux: 'ux design',
+  ui: 'ui design',
+  photoshop: 'adobe photoshop',
+  excel: 'microsoft excel',
+  maths: 'math',
+  mathematics: 'math'
+};
+
+const normalizeSkill = (skill) => {
+  const key = String(skill).toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ').trim();
+  return SKILL_SYNONYMS[key] || key;
+};
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const normalizeLocation = (location) => String(location || '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+// What the helper has done before: completed requests per category and the
+// places they've helped in person
+async function loadHelperHistory(userId) {
+  const completed = await HelpRequest.find({ helper: userId, status: 'completed' })
+    .select('category location isRemote');
+
+  const categoryCounts = new Map();
+  const locations = new Set();
+  completed.forEach((request) => {
+    const categoryId = request.category.toString();
+    categoryCounts.set(categoryId, (categoryCounts.get(categoryId) || 0) + 1);
+    if (!request.isRemote && request.location) {
+      locations.add(normalizeLocation(request.location));
+    }
+  });
+
+  return { categoryCounts, locations };
+}
+
+// Skills the request needs that the helper has. Requests that don't list any
+// skills are matched against their title instead, at half weight.
+function scoreSkills(request, helperSkills) {
+  const needed = request.skillsNeeded || [];
+
+  if (needed.length > 0) {
+    const matched = needed.filter((skill) => helperSkills.has(normalizeSkill(skill)));
+    if (matched.length === 0) return { score: 0 };
+    return {
+      score: (matched.length / needed.length) * WEIGHTS.skills,
+      reason: `Matches your skills: ${matched.join(', ')}`
+    };
+  }
+
+  const title = normalizeSkill(request.title);
+  const mentioned = [...helperSkills].filter((skill) =>
+    new RegExp(`(^|[^a-z0-9])${escapeRegex(skill)}($|[^a-z0-9])`).test(title)
+  );
+  if (mentioned.length === 0) return { score: 0 };
+  return {
+    score: WEIGHTS.skills / 2,
+    reason: `Mentions ${mentioned.join(', ')}`
+  };
+}
+
+function scoreCategory(request, categoryCounts) {
+  const categoryId = request.category?._id?.toString() || request.category?.toString();
+  const count = categoryCounts.get(categoryId) || 0;
+  if (count === 0) return { score: 0 };
+
+  const categoryName = request.category?.name || 'this category';
+  return {
+    score: Math.min(count / CATEGORY_HISTORY_TARGET, 1) * WEIGHTS.category,
+    reason: `You've completed ${count} request${count === 1 ? '' : 's'} in ${categoryName}`
+  };
+}
+
+function scoreUrgency(request) {
+  const score = (URGENCY_SCORES[request.urgency] || 0) * WEIGHTS.urgency;
+  return {
+    score,
+    reason: request.urgency === 'high' ? 'Urgent' : undefined
+  };
+}
+
+// Remote requests suit anyone; in-person ones suit helpers who've helped there before
+function scoreLocation(request, locations) {
+  if (request.isRemote) {
+    return { score: WEIGHTS.location, reason: 'Remote' };
+  }
+  if (request.location && locations.has(normalizeLocation(request.location))) {
+    return { score: WEIGHTS.location, reason: `You've helped in ${request.location} before` };
+  }
+  return { score: 0 };
+}
+
+function scoreRating(request) {
+  const requester = request.requester;
+  if (!requester || !requester.totalReviews) return { score: 0 };
+
+  return {
+    score: (requester.rating / 5) * WEIGHTS.rating,
+    reason: requester.rating >= 4 ? `Requester rated ${requester.rating.toFixed(1)}` : undefined
+  };
+}
+
+// Open requests ranked for `userId` as a helper, best match first, as
+// [{ request, score, reasons }]. Only requests that match the helper's skills
+// or category history are included; the other signals just order them.
+async function recommendRequests(userId, { limit = DEFAULT_LIMIT } = {}) {
+  const user = await User.findById(userId).select('skills');
+  if (!user) {
+    const error = new Error('User not found');
+    error.status = 404;
+    throw error;
+  }
+
+  const helperSkills = new Set((user.skills || []).map(normalizeSkill));
+  const { categoryCounts, locations } = await loadHelperHistory(userId);
+
+  if (helperSkills.size === 0 && categoryCounts.size === 0) {
+    return [];
+  }
+
+  const candidates = await HelpRequest.find({
+    status: 'open',
+    requester: { $ne: new mongoose.Types.ObjectId(userId) }
+  })
+    .sort({ createdAt: -1 })
+    .limit(MAX_CANDIDATES)
+    .populate('requester', 'name email picture rating totalReviews')
+    .populate('category', 'name description icon');
+
+  const recommendations = [];
+  candidates.forEach((request) => {
+    const skills = scoreSkills(request, helperSkills);
+    const category = scoreCategory(request, categoryCounts);
+    if (skills.score === 0 && category.score === 0) return;
+
+    const signals = [skills, category, scoreUrgency(request), scoreLocation(request, locations), scoreRating(request)];
+    recommendations.push({
+      request,
+      score: Math.round(signals.reduce((total, signal) => total + signal.score, 0)),
+      reasons: signals.map((signal) => signal.reason).filter(Boolean)
+    });
+  });
+
+  recommendations.sort((a, b) => b.score - a.score || b.request.createdAt - a.request.createdAt);
+  return recommendations.slice(0, Math.min(Math.max(limit, 1), MAX_LIMIT));
+}
+
+module.exports = { recommendRequests, normalizeSkill };
@@ -0,0 +1,507 @@
+const mongoose = require('mongoose');
+const Message = require('../models/Message');
+const HelpRequest = require('../models/HelpRequest');
+const User = require('../models/User');
+const Attachment = require('../models/Attachment');
+const { sendEmail } = require('./emailService');
+const { createNotification } = require('./notificationService');
+const { userRoom } = require('./socketRooms');
+const { signAttachmentUrl } = require('./attachmentUrls');
+const { getStorage } = require('./storage');
+
+const MAX_CONTENT_LENGTH = 5000;
+const CLIENT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const CLIENT_MESSAGE_TYPES = ['text', 'image', 'file'];
+// How long after sending a message its sender may still edit or delete it
+const EDIT_WINDOW_MS = (parseInt(process.env.MESSAGE_EDIT_WINDOW_MINUTES, 10) || 15) * 60 * 1000;
+const REPLY_PREVIEW_LENGTH = 200;
+const MAX_REACTIONS_PER_USER = 10;
+// A single emoji, including skin tones, flags and joined sequences
+const EMOJI_PATTERN = /^(?=.*(?:\p{Extended_Pictographic}|\p{Regional_Indicator}))(?:\p{Extended_Pictographic}|\p{Emoji_Component}|\u200d|\ufe0f)+$/u;
+
+// What formatMessage needs of a quoted message; use with populate()
+const REPLY_TO_POPULATE = {
+  path: 'replyTo',
+  select: 'sender content messageType fileName deletedAt',
+  populate: { path: 'sender', select: 'name' }
+};
+
+// Errors carry the HTTP status the REST route should answer with
+const messageError = (status, message) => {
+  const error = new Error(message);
+  error.status = status;
+  return error;
+};
+
+// Short preview of the quoted message, or just its id if replyTo wasn't populated
+function formatReplyTo(replyTo) {
+  if (!replyTo) return undefined;
+  if (replyTo instanceof mongoose.Types.ObjectId) {
+    return { _id: replyTo };
+  }
+
+  return {
+    _id: replyTo._id,
+    senderId: replyTo.sender?._id,
+    senderName: replyTo.sender?.name,
+    messageType: replyTo.messageType,
+    content: replyTo.deletedAt ? '' : (replyTo.content || '').slice(0, REPLY_PREVIEW_LENGTH),
+    fileName: replyTo.deletedAt ? undefined : replyTo.fileName,
+    deleted: !!replyTo.deletedAt
+  };
+}
+
+// Group reactions by emoji, in the order each emoji was first used
+function formatReactions(reactions = []) {
+  const groups = new Map();
+  reactions.forEach(reaction => {
+    if (!groups.has(reaction.emoji)) {
+      groups.set(reaction.emoji, []);
+    }
+    groups.get(reaction.emoji).push(reaction.user);
+  });
+  return [...groups].map(([emoji, userIds]) => ({ emoji, userIds }));
+}
+
+// Shape a message the way Messages.tsx expects it
+function formatMessage(message, sender) {
+  const formatted = {
+    _id: message._id,
+    requestId: message.request,
+    senderId: sender._id,
+    senderName: sender.name,
+    senderPicture: sender.picture,
+    content: message.content,
+    messageType: message.messageType,
+    clientId: message.clientId,
+    fileName: message.fileName,
+    fileSize: message.fileSize,
+    attachmentId: message.attachment,
+    sessionId: message.session,
+    // Short-lived link; clients ask /attachments/:id/url for a new one
+    fileUrl: message.attachment ? signAttachmentUrl(message.attachment) : undefined,
+    createdAt: message.createdAt,
+    editedAt: message.editedAt,
+    editableUntil: new Date(new Date(message.createdAt).getTime() + EDIT_WINDOW_MS),
+    replyTo: formatReplyTo(message.replyTo),
+    reactions: formatReactions(message.reactions),
+    readBy: (message.readBy || []).map(receipt => ({
+      userId: receipt.user,
+      readAt: receipt.readAt
+    }))
+  };
+
+  if (message.deletedAt) {
+    return {
+      ...formatted,
+      content: '',
+      fileName: undefined,
+      fileSize: undefined,
+      attachmentId: undefined,
+      fileUrl: undefined,
+      deletedAt: message.deletedAt
+    };
+  }
+
+  return formatted;
+}
+
+function validateMessageInput({ requestId, content, messageType = 'text', attachmentId, replyTo, clientId }) {
+  if (!requestId || !mongoose.Types.ObjectId.isValid(requestId)) {
+    throw messageError(400, 'Invalid request id');
+  }
+
+  if (clientId !== undefined && clientId !== null &&
+      (typeof clientId !== 'string' || !CLIENT_ID_PATTERN.test(clientId))) {
+    throw messageError(400, 'Invalid client message id');
+  }
+
+  if (replyTo !== undefined && replyTo !== null && !mongoose.Types.ObjectId.isValid(replyTo)) {
+    throw messageError(400, 'Invalid reply message id');
+  }
+  const extras = {
+    ...(replyTo ? { replyTo } : {}),
+    ...(clientId ? { clientId } : {})
+  };
+
+  if (!CLIENT_MESSAGE_TYPES.includes(messageType)) {
+    throw messageError(400, 'Invalid message type');
+  }
+
+  if (content !== undefined && typeof content !== 'string') {
+    throw messageError(400, 'Invalid message content');
+  }
+
+  if (content && content.length > MAX_CONTENT_LENGTH) {
+    throw messageError(400, `Message must be at most ${MAX_CONTENT_LENGTH} characters`);
+  }
+
+  if (messageType === 'text') {
+    if (!content || !content.trim()) {
+      throw messageError(400, 'Message content is required');
+    }
+    return { requestId, content: content.trim(), messageType, ...extras };
+  }
+
+  // Image and file messages send an attachment uploaded through /messages/upload
+  if (!attachmentId || !mongoose.Types.ObjectId.isValid(attachmentId)) {
+    throw messageError(400, 'File messages need an uploaded attachment');
+  }
+
+  return { requestId, content: content ? content.trim() : '', messageType, attachmentId, ...extras };
+}
+
+// Let the other party know about a new message: a stored notification pushed to
+// their personal room, plus an email
+async function notifyRecipient(io, { request, sender, recipientId, message }) {
+  try {
+    const notification = await createNotification({
+      recipient: recipientId,
+      type: message.messageType === 'text' ? 'message_received' : 'file_received',
+      message: `New message from ${sender.name}`,
+      requestId: request._id,
+      requestTitle: request.title
+    });
+
+    if (io) {
+      io.to(userRoom(recipientId)).emit('notification', {
+        ...notification,
+        senderName: sender.name,
+        timestamp: new Date().toISOString()
+      });
+    }
+  } catch (error) {
+    console.error('Failed to create message notification:', error);
+  }
+
+  try {
+    const recipient = await User.findById(recipientId);
+    if (recipient && recipient.email) {
+      const body = message.messageType === 'text'
+        ? message.content
+        : `Shared a file: ${message.fileName}`;
+      await sendEmail({
+        to: recipient.email,
+        subject: `New message on request: ${request.title}`,
+        text: `Hi ${recipient.name},\n\nYou have a new message from ${sender.name} regarding the request '${request.title}':\n\n${body}\n\nPlease log in to SkillFull to reply.`,
+      });
+    }
+  } catch (error) {
+    console.error('Failed to send message email:', error);
+  }
+}
+
+// The message already stored for a retried send, if any
+async function findByClientId(senderId, clientId, requestId) {
+  const existing = await Message.findOne({ sender: senderId, clientId }).populate(REPLY_TO_POPULATE);
+  if (existing && existing.request.toString() !== String(requestId)) {
+    throw messageError(409, 'Client message id was already used');
+  }
+  return existing;
+}
+
+// Validate, authorize and store a message from `senderId`, broadcast it to the
+// request's chat room and notify the other party. Resolves with the saved
+// message in the shape clients render. Sending again with the same `clientId`
+// resolves with the stored message instead of saving a duplicate.
+async function sendMessage({ io, senderId: rawSenderId, ...input }) {
+  const senderId = String(rawSenderId);
+  const { requestId, content, messageType, attachmentId, replyTo, clientId } = validateMessageInput(input);
+
+  const request = await HelpRequest.findById(requestId);
+  if (!request) {
+    throw messageError(404, 'Request not found');
+  }
+
+  const isRequester = request.requester.toString() === senderId;
+  const isHelper = request.helper && request.helper.toString() === senderId;
+  if (!isRequester && !isHelper) {
+    throw messageError(403, 'Not authorized to send messages');
+  }
+
+  const sender = await User.findById(senderId);
+  if (!sender) {
+    throw messageError(404, 'User not found');
+  }
+
+  if (clientId) {
+    const existing = await findByClientId(senderId, clientId, requestId);
+    if (existing) {
+      return formatMessage(existing, sender);
+    }
+  }
+
+  if (replyTo) {
+    const quoted = await Message.exists({ _id: replyTo, request: requestId, deletedAt: null });
+    if (!quoted) {
+      throw messageError(400, 'The message you are replying to is not available');
+    }
+  }
+
+  const newMessage = new Message({
+    request: requestId,
+    sender: senderId,
+    content,
+    messageType,
+    replyTo,
+    clientId
+  });
+
+  if (attachmentId) {
+    // Claim the sender's unsent upload for this request in one step so it can't be sent twice
+    const attachment = await Attachment.findOneAndUpdate(
+      { _id: attachmentId, request: requestId, uploader: senderId, message: null },
+      { message: newMessage._id },
+      { new: true }
+    );
+    if (!attachment) {
+      throw messageError(400, 'Attachment not found or already sent');
+    }
+
+    newMessage.attachment = attachment._id;
+    newMessage.messageType = attachment.kind;
+    newMessage.fileName = attachment.originalName;
+    newMessage.fileSize = attachment.size;
+    newMessage.content = content || attachment.originalName;
+  }
+
+  try {
+    await newMessage.save();
+  } catch (error) {
+    // The message wasn't stored, so its upload can be sent again
+    if (newMessage.attachment) {
+      await Attachment.updateOne({ _id: newMessage.attachment, message: newMessage._id }, { message: null });
+    }
+    // A retry of the same send raced this one and won
+    if (error.code === 11000 && clientId) {
+      const existing = await findByClientId(senderId, clientId, requestId);
+      if (existing) {
+        return formatMessage(existing, sender);
+      }
+    }
+    throw error;
+  }
+
+  if (replyTo) {
+    await newMessage.populate(REPLY_TO_POPULATE);
+  }
+
+  const message = formatMessage(newMessage, sender);
+
+  if (io) {
+    io.to(requestId.toString()).emit('message', message);
+  }
+
+  // Notifications and email don't hold up the sender's acknowledgement
+  const recipientId = isRequester ? request.helper?.toString() : request.requester.toString();
+  if (recipientId) {
+    notifyRecipient(io, { request, sender, recipientId, message });
+  }
+
+  return message;
+}
+
+// Socket counterpart of sendMessage: `ack` receives the saved message or an
+// error the client can show. Clients that send without an ack get an 'error'
+// event instead of a rejection.
+async function sendSocketMessage({ io, socket, senderId, messageData, ack }) {
+  const { requestId, content, messageType, attachmentId, replyTo, clientId } = messageData || {};
+  console.log(`📤 Message from ${senderId} in room ${requestId}:`, content);
+
+  try {
+    const message = await sendMessage({
+      io,
+      senderId,
+      requestId,
+      content,
+      messageType,
+      attachmentId,
+      replyTo,
+      clientId
+    });
+
+    console.log(`✅ Message sent and broadcasted to room ${requestId}`);
+    if (typeof ack === 'function') {
+      ack({ ok: true, message });
+    }
+  } catch (error) {
+    console.error(`❌ Error sending message: ${error.message}`);
+    const errorMessage = error.status ? error.message : 'Failed to send message';
+    if (typeof ack === 'function') {
+      ack({ ok: false, error: errorMessage });
+    } else {
+      socket.emit('error', { message: errorMessage });
+    }
+  }
+}
+
+// Load a message its sender may still change, or throw
+async function findEditableMessage(messageId, userId) {
+  if (!mongoose.Types.ObjectId.isValid(messageId)) {
+    throw messageError(400, 'Invalid message id');
+  }
+
+  const message = await Message.findById(messageId);
+  if (!message) {
+    throw messageError(404, 'Message not found');
+  }
+
+  if (message.sender.toString() !== String(userId)) {
+    throw messageError(403, 'Only the sender can change a message');
+  }
+
+  if (message.messageType === 'session') {
+    throw messageError(400, 'Session proposals cannot be changed; cancel the session instead');
+  }
+
+  if (message.deletedAt) {
+    throw messageError(400, 'Message has been deleted');
+  }
+
+  if (Date.now() - message.createdAt.getTime() > EDIT_WINDOW_MS) {
+    throw messageError(403, 'Messages can only be changed shortly after they are sent');
+  }
+
+  return message;
+}
+
+// Replace the text of one of the user's recent text messages and broadcast it
+async function editMessage({ io, userId, messageId, content }) {
+  if (typeof content !== 'string' || !content.trim()) {
+    throw messageError(400, 'Message content is required');
+  }
+  if (content.length > MAX_CONTENT_LENGTH) {
+    throw messageError(400, `Message must be at most ${MAX_CONTENT_LENGTH} characters`);
+  }
+
+  const message = await findEditableMessage(messageId, userId);
+  if (message.messageType !== 'text') {
+    throw messageError(400, 'Only text messages can be edited');
+  }
+
+  const trimmed = content.trim();
+  if (trimmed !== message.content) {
+    message.history.push({ action: 'edited', content: message.content, by: userId });
+    message.content = trimmed;
+    message.editedAt = new Date();
+    await message.save();
+  }
+
+  await message.populate([{ path: 'sender', select: 'name email picture' }, REPLY_TO_POPULATE]);
+  const formatted = formatMessage(message, message.sender);
+
+  if (io) {
+    io.to(message.request.toString()).emit('message_updated', formatted);
+  }
+
+  return formatted;
+}
+
+// Turn one of the user's recent messages into a tombstone and broadcast it.
+// The old content stays in the audit trail; an attached file is removed.
+async function deleteMessage({ io, userId, messageId }) {
+  const message = await findEditableMessage(messageId, userId);
+
+  message.history.push({
+    action: 'deleted',
+    content: message.content,
+    fileName: message.fileName,
+    by: userId
+  });
+
+  const attachmentId = message.attachment;
+  message.content = undefined;
+  message.attachment = undefined;
+  message.deletedAt = new Date();
+  await message.save();
+
+  if (attachmentId) {
+    try {
+      const attachment = await Attachment.findByIdAndDelete(attachmentId);
+      if (attachment) {
+        await getStorage().remove(attachment.storedName);
+      }
+    } catch (error) {
+      console.error('Failed to remove deleted message attachment:', error);
+    }
+  }
+
+  await message.populate([{ path: 'sender', select: 'name email picture' }, REPLY_TO_POPULATE]);
+  const formatted = formatMessage(message, message.sender);
+
+  if (io) {
+    io.to(message.request.toString()).emit('message_deleted', formatted);
+  }
+
+  return formatted;
+}
+
+// Add or remove the user's `emoji` reaction on a message in one of their
+// conversations and broadcast the message's new reactions to its chat room
+async function setReaction({ io, userId: rawUserId, messageId, emoji, add }) {
+  const userId = String(rawUserId);
+  if (!mongoose.Types.ObjectId.isValid(messageId)) {
+    throw messageError(400, 'Invalid message id');
+  }
+  if (typeof emoji !== 'string' || emoji.length > 16 || !EMOJI_PATTERN.test(emoji)) {
+    throw messageError(400, 'Invalid reaction');
+  }
+
+  const message = await Message.findById(messageId).select('request reactions deletedAt');
+  if (!message) {
+    throw messageError(404, 'Message not found');
+  }
+  if (message.deletedAt) {
+    throw messageError(400, 'Message has been deleted');
+  }
+
+  const request = await HelpRequest.findById(message.request);
+  const isParticipant = request && (
+    request.requester.toString() === userId ||
+    request.helper?.toString() === userId
+  );
+  if (!isParticipant) {
+    throw messageError(403, 'Not authorized to react to this message');
+  }
+
+  if (add) {
+    const ownReactions = message.reactions.filter(reaction => reaction.user.toString() === userId);
+    if (ownReactions.length >= MAX_REACTIONS_PER_USER) {
+      throw messageError(400, `You can add at most ${MAX_REACTIONS_PER_USER} reactions to a message`);
+    }
+    await Message.updateOne(
+      { _id: messageId, reactions: { $not: { $elemMatch: { user: userId, emoji } } } },
+      { $push: { reactions: { emoji, user: userId } } }
+    );
+  } else {
+    await Message.updateOne({ _id: messageId }, { $pull: { reactions: { user: userId, emoji } } });
+  }
+
+  const updated = await Message.findById(messageId).select('request reactions');
+  const payload = {
+    messageId: updated._id,
+    requestId: updated.request,
+    reactions: formatReactions(updated.reactions)
+  };
+
+  if (io) {
+    io.to(updated.request.toString()).emit('message_reactions', payload);
+  }
+
+  return payload;
+}
+
+const addReaction = (options) => setReaction({ ...options, add: true });
+const removeReaction = (options) => setReaction({ ...options, add: false });
+
+module.exports = {
+  sendMessage,
+  sendSocketMessage,
+  editMessage,
+  deleteMessage,
+  addReaction,
+  removeReaction,
+  formatMessage,
+  validateMessageInput,
+  REPLY_TO_POPULATE
+};
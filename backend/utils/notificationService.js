@@ -0,0 +1,45 @@
+const Notification = require('../models/Notification');
+const { userRoom } = require('./socketRooms');
+
+// Shape a notification document the way NotificationSystem.tsx expects it
+function formatNotification(notification) {
+  return {
+    id: notification._id,
+    type: notification.type,
+    message: notification.message,
+    requestId: notification.request,
+    requestTitle: notification.requestTitle,
+    isRead: notification.isRead,
+    createdAt: notification.createdAt,
+  };
+}
+
+async function createNotification({ recipient, type, message, requestId, requestTitle }) {
+  const notification = new Notification({
+    recipient,
+    type,
+    message,
+    request: requestId,
+    requestTitle,
+  });
+  await notification.save();
+  return formatNotification(notification);
+}
+
+// Store a notification and push it to the recipient if they're connected.
+// Failures are logged rather than thrown so they never fail the caller's action.
+async function notify(io, notification) {
+  try {
+    const saved = await createNotification(notification);
+    if (io) {
+      io.to(userRoom(notification.recipient)).emit('notification', {
+        ...saved,
+        timestamp: new Date().toISOString()
+      });
+    }
+  } catch (error) {
+    console.error(`Failed to save ${notification.type} notification:`, error);
+  }
+}
+
+module.exports = { createNotification, formatNotification, notify };
@@ -0,0 +1,111 @@
+const User = require('../models/User');
+const HelpRequest = require('../models/HelpRequest');
+const { userRoom } = require('./socketRooms');
+const { getSocketState } = require('./socketState');
+
+// A user is online while at least one of their sockets (tabs, devices) is
+// connected. Going offline is announced after a short grace period so a page
+// reload doesn't flicker the other party's status.
+const OFFLINE_GRACE_MS = 5000;
+
+const offlineTimers = new Map(); // userId -> pending "went offline" timer
+
+// Whether any instance holds a socket for the user (see utils/socketState.js)
+const isOnline = (userId) => getSocketState().isOnline(String(userId));
+
+// Users who share a request with `userId` as requester and helper; they are
+// the only ones told about, or allowed to ask for, this user's presence
+async function findCounterpartIds(userId) {
+  const requests = await HelpRequest.find({
+    $or: [
+      { requester: userId, helper: { $ne: null } },
+      { helper: userId }
+    ]
+  }).select('requester helper');
+
+  const ids = new Set();
+  requests.forEach(request => {
+    const requesterId = request.requester.toString();
+    ids.add(requesterId === String(userId) ? request.helper.toString() : requesterId);
+  });
+  return [...ids];
+}
+
+async function announce(io, userId, online, lastSeenAt) {
+  try {
+    await User.updateOne({ _id: userId }, { lastSeenAt });
+
+    const counterpartIds = await findCounterpartIds(userId);
+    if (io && counterpartIds.length > 0) {
+      io.to(counterpartIds.map(userRoom)).emit('presence_changed', { userId, online, lastSeenAt });
+    }
+  } catch (error) {
+    console.error('Failed to update presence:', error);
+  }
+}
+
+// Call when a socket for `userId` connects
+async function socketConnected(io, userId, socketId) {
+  userId = String(userId);
+
+  try {
+    const socketCount = await getSocketState().addUserSocket(userId, socketId);
+
+    if (offlineTimers.has(userId)) {
+      // Back before anyone was told they left
+      clearTimeout(offlineTimers.get(userId));
+      offlineTimers.delete(userId);
+      return;
+    }
+
+    if (socketCount === 1) {
+      announce(io, userId, true, new Date());
+    }
+  } catch (error) {
+    console.error('Failed to track connected socket:', error);
+  }
+}
+
+// Call when a socket for `userId` disconnects
+async function socketDisconnected(io, userId, socketId) {
+  userId = String(userId);
+
+  try {
+    const remaining = await getSocketState().removeUserSocket(userId, socketId);
+    if (remaining > 0) return;
+  } catch (error) {
+    console.error('Failed to track disconnected socket:', error);
+    return;
+  }
+
+  const lastSeenAt = new Date();
+  offlineTimers.set(userId, setTimeout(async () => {
+    offlineTimers.delete(userId);
+    try {
+      // Another instance may have picked the user up in the meantime
+      if (!(await isOnline(userId))) {
+        announce(io, userId, false, lastSeenAt);
+      }
+    } catch (error) {
+      console.error('Failed to update presence:', error);
+    }
+  }, OFFLINE_GRACE_MS));
+}
+
+// Current presence of the given users, as { userId, online, lastSeenAt }
+async function getPresence(userIds) {
+  const users = await User.find({ _id: { $in: userIds } }).select('lastSeenAt');
+  return Promise.all(users.map(async user => ({
+    userId: user._id.toString(),
+    online: offlineTimers.has(user._id.toString()) || await isOnline(user._id),
+    lastSeenAt: user.lastSeenAt || null
+  })));
+}
+
+module.exports = {
+  socketConnected,
+  socketDisconnected,
+  getPresence,
+  findCounterpartIds,
+  isOnline
+};
@@ -0,0 +1,424 @@
+const Session = require('../models/Session');
+const HelpRequest = require('../models/HelpRequest');
+const Message = require('../models/Message');
+const User = require('../models/User');
+const { notify } = require('./notificationService');
+const { sendEmail } = require('./emailService');
+const { emitToParticipants } = require('./socketRooms');
+const { formatMessage } = require('./messageService');
+const { buildSessionCalendar, calendarAttachment } = require('./calendarService');
+
+const MAX_SESSION_MS = 8 * 60 * 60 * 1000;
+// How long before a session starts both participants are reminded
+const REMINDER_LEAD_MS = (parseInt(process.env.SESSION_REMINDER_MINUTES, 10) || 60) * 60 * 1000;
+// How often to look for sessions that are about to start
+const REMINDER_CHECK_MS = 60 * 1000;
+const MAX_REMINDER_BATCH = 100;
+
+const sessionError = (status, message) => {
+  const error = new Error(message);
+  error.status = status;
+  return error;
+};
+
+const PARTICIPANT_FIELDS = 'name email picture';
+
+const populateSession = (query) => query
+  .populate('proposedBy', 'name picture')
+  .populate('requester', PARTICIPANT_FIELDS)
+  .populate('helper', PARTICIPANT_FIELDS);
+
+const loadRequest = (id) => HelpRequest.findById(id)
+  .populate('requester', PARTICIPANT_FIELDS)
+  .populate('helper', PARTICIPANT_FIELDS);
+
+// These take a request or a session; both carry a populated requester and helper
+const isParticipant = (participants, userId) =>
+  participants.requester._id.toString() === String(userId) ||
+  (participants.helper && participants.helper._id.toString() === String(userId));
+
+// The populated requester or helper with this id
+const participantById = (participants, userId) =>
+  participants.requester._id.toString() === String(userId) ? participants.requester : participants.helper;
+
+// The participant who isn't `userId`
+const otherParticipant = (participants, userId) =>
+  participants.requester._id.toString() === String(userId) ? participants.helper : participants.requester;
+
+const formatTime = (date) => new Date(date).toUTCString();
+
+// Sent to the session's own participants, who may no longer be the request's
+const emitSession = (io, session) => {
+  if (!io) return;
+  emitToParticipants(io, session, 'session_updated', { requestId: session.request, session });
+};
+
+// Load a session with its request and check `userId` takes part in it
+async function loadSessionForParticipant(sessionId, userId) {
+  const session = await populateSession(Session.findById(sessionId));
+  if (!session) {
+    throw sessionError(404, 'Session not found');
+  }
+  if (!isParticipant(session, userId)) {
+    throw sessionError(403, 'Only the requester and helper can manage this session');
+  }
+
+  const request = await HelpRequest.findById(session.request);
+  if (!request) {
+    throw sessionError(404, 'Request not found');
+  }
+
+  return { session, request };
+}
+
+// Sessions proposed for a request, newest first
+async function listSessions(requestId, userId) {
+  const request = await loadRequest(requestId);
+  if (!request) {
+    throw sessionError(404, 'Request not found');
+  }
+  if (!isParticipant(request, userId)) {
+    throw sessionError(403, 'Only the requester and helper can see sessions');
+  }
+
+  return populateSession(Session.find({
+    request: request._id,
+    $or: [{ requester: userId }, { helper: userId }]
+  }).sort({ createdAt: -1 }));
+}
+
+// Propose one or more time slots for an in-progress request. The proposal is
+// posted to the chat, where the other participant accepts a slot.
+async function proposeSession(io, requestId, userId, { slots, note }) {
+  const request = await loadRequest(requestId);
+  if (!request) {
+    throw sessionError(404, 'Request not found');
+  }
+  if (!request.helper || !isParticipant(request, userId)) {
+    throw sessionError(403, 'Only the requester and helper can schedule sessions');
+  }
+  if (request.status !== 'in_progress') {
+    throw sessionError(400, 'Sessions can only be scheduled for requests in progress');
+  }
+
+  const now = Date.now();
+  const parsedSlots = slots
+    .map((slot) => ({ start: new Date(slot.start), end: new Date(slot.end) }))
+    .sort((a, b) => a.start - b.start);
+  for (const slot of parsedSlots) {
+    if (slot.start.getTime() <= now) {
+      throw sessionError(400, 'Proposed times must be in the future');
+    }
+    if (slot.end <= slot.start) {
+      throw sessionError(400, 'Each time slot must end after it starts');
+    }
+    if (slot.end - slot.start > MAX_SESSION_MS) {
+      throw sessionError(400, 'Sessions can be at most 8 hours long');
+    }
+  }
+
+  const proposer = await User.findById(userId).select(PARTICIPANT_FIELDS);
+  const session = await Session.create({
+    request: request._id,
+    requester: request.requester._id,
+    helper: request.helper._id,
+    proposedBy: userId,
+    slots: parsedSlots,
+    note: note || undefined
+  });
+
+  const message = new Message({
+    request: request._id,
+    sender: userId,
+    content: `Proposed ${parsedSlots.length === 1 ? 'a time' : `${parsedSlots.length} times`} for a session`,
+    messageType: 'session',
+    session: session._id
+  });
+  await message.save();
+
+  const populated = await populateSession(Session.findById(session._id));
+  if (io) {
+    io.to(request._id.toString()).emit('message', formatMessage(message, proposer));
+  }
+  emitSession(io, populated);
+
+  const recipient = otherParticipant(request, userId);
+  await notify(io, {
+    recipient: recipient._id,
+    type: 'session_proposed',
+    message: `${proposer.name} proposed times for a session on "${request.title}"`,
+    requestId: request._id,
+    requestTitle: request.title
+  });
+
+  try {
+    await sendEmail({
+      to: recipient.email,
+      subject: `Pick a time: ${request.title}`,
+      text: `Hi ${recipient.name},\n\n${proposer.name} proposed times to meet about '${request.title}':\n\n${parsedSlots.map((slot) => `- ${formatTime(slot.start)} to ${formatTime(slot.end)}`).join('\n')}${note ? `\n\n${note}` : ''}\n\nOpen the chat on SkillFull to accept one.`,
+    });
+  } catch (e) {
+    console.error('Failed to send session proposal email:', e);
+  }
+
+  return populated;
+}
+
+// Email both participants the session's calendar invite (or its cancellation).
+// `session` must have its participants populated.
+async function sendCalendarEmails(session, request, { method, subject, intro }) {
+  const proposerId = session.proposedBy._id || session.proposedBy;
+  const calendar = buildSessionCalendar({
+    session,
+    request,
+    organizer: participantById(session, proposerId),
+    attendee: otherParticipant(session, proposerId),
+    method,
+    sequence: method === 'CANCEL' ? 1 : 0
+  });
+
+  for (const participant of [session.requester, session.helper]) {
+    try {
+      await sendEmail({
+        to: participant.email,
+        subject,
+        text: `Hi ${participant.name},\n\n${intro}\n\nWhen: ${formatTime(session.scheduledSlot.start)} to ${formatTime(session.scheduledSlot.end)}\n\nThe attached invite adds it to your calendar.`,
+        attachments: [calendarAttachment(calendar, method)],
+      });
+    } catch (e) {
+      console.error('Failed to send session calendar email:', e);
+    }
+  }
+}
+
+// Accept one of the proposed slots (the other participant only)
+async function acceptSessionSlot(io, sessionId, userId, slotId) {
+  const { session, request } = await loadSessionForParticipant(sessionId, userId);
+
+  if (session.proposedBy._id.toString() === String(userId)) {
+    throw sessionError(403, 'Only the other participant can accept a proposed time');
+  }
+  if (request.status !== 'in_progress') {
+    throw sessionError(400, 'Sessions can only be scheduled for requests in progress');
+  }
+  if (request.helper?.toString() !== session.helper._id.toString()) {
+    throw sessionError(400, 'This session was proposed with a previous helper');
+  }
+
+  const slot = session.slots.id(slotId);
+  if (!slot) {
+    throw sessionError(400, 'That time was not proposed for this session');
+  }
+  if (slot.start.getTime() <= Date.now()) {
+    throw sessionError(400, 'That time has already passed');
+  }
+
+  // Only one response wins if both tabs accept at once
+  const updated = await Session.findOneAndUpdate(
+    { _id: session._id, status: 'proposed' },
+    {
+      status: 'scheduled',
+      scheduledSlot: { start: slot.start, end: slot.end },
+      respondedBy: userId,
+      respondedAt: new Date()
+    },
+    { new: true }
+  );
+  if (!updated) {
+    throw sessionError(400, 'This session is no longer awaiting a response');
+  }
+
+  const populated = await populateSession(Session.findById(updated._id));
+  emitSession(io, populated);
+
+  const responder = participantById(session, userId);
+  await notify(io, {
+    recipient: session.proposedBy._id,
+    type: 'session_scheduled',
+    message: `${responder.name} accepted a session on "${request.title}" for ${formatTime(slot.start)}`,
+    requestId: request._id,
+    requestTitle: request.title
+  });
+
+  await sendCalendarEmails(populated, request, {
+    method: 'REQUEST',
+    subject: `Session scheduled: ${request.title}`,
+    intro: `Your session for '${request.title}' is confirmed.`
+  });
+
+  return populated;
+}
+
+// Turn down all proposed slots (the other participant only)
+async function declineSession(io, sessionId, userId) {
+  const { session, request } = await loadSessionForParticipant(sessionId, userId);
+
+  if (session.proposedBy._id.toString() === String(userId)) {
+    throw sessionError(403, 'Cancel your own proposal instead of declining it');
+  }
+
+  const updated = await Session.findOneAndUpdate(
+    { _id: session._id, status: 'proposed' },
+    { status: 'declined', respondedBy: userId, respondedAt: new Date() },
+    { new: true }
+  );
+  if (!updated) {
+    throw sessionError(400, 'This session is no longer awaiting a response');
+  }
+
+  const populated = await populateSession(Session.findById(updated._id));
+  emitSession(io, populated);
+
+  const responder = participantById(session, userId);
+  await notify(io, {
+    recipient: session.proposedBy._id,
+    type: 'session_declined',
+    message: `${responder.name} couldn't make any of the times you proposed for "${request.title}"`,
+    requestId: request._id,
+    requestTitle: request.title
+  });
+
+  return populated;
+}
+
+// Withdraw a proposal (its proposer) or call off a scheduled session (either
+// participant)
+async function cancelSession(io, sessionId, userId) {
+  const { session, request } = await loadSessionForParticipant(sessionId, userId);
+
+  if (session.status === 'proposed' && session.proposedBy._id.toString() !== String(userId)) {
+    throw sessionError(403, 'Decline the proposal instead of cancelling it');
+  }
+
+  if (session.status !== 'proposed' && session.status !== 'scheduled') {
+    throw sessionError(400, 'This session can no longer be cancelled');
+  }
+
+  // Only cancel it in the state the checks above saw
+  const updated = await Session.findOneAndUpdate(
+    { _id: session._id, status: session.status },
+    { status: 'cancelled', cancelledBy: userId },
+    { new: true }
+  );
+  if (!updated) {
+    throw sessionError(400, 'This session can no longer be cancelled');
+  }
+
+  const populated = await populateSession(Session.findById(updated._id));
+  emitSession(io, populated);
+
+  const canceller = participantById(session, userId);
+  await notify(io, {
+    recipient: otherParticipant(session, userId)._id,
+    type: 'session_cancelled',
+    message: `${canceller.name} cancelled a session on "${request.title}"`,
+    requestId: request._id,
+    requestTitle: request.title
+  });
+
+  if (session.status === 'scheduled') {
+    await sendCalendarEmails(populated, request, {
+      method: 'CANCEL',
+      subject: `Session cancelled: ${request.title}`,
+      intro: `${canceller.name} cancelled your session for '${request.title}'.`
+    });
+  }
+
+  return populated;
+}
+
+async function sendDueReminders(io) {
+  const now = new Date();
+  const due = await Session.find({
+    status: 'scheduled',
+    reminderSentAt: null,
+    'scheduledSlot.start': { $gt: now, $lte: new Date(now.getTime() + REMINDER_LEAD_MS) }
+  })
+    .select('_id')
+    .limit(MAX_REMINDER_BATCH);
+
+  for (const { _id } of due) {
+    try {
+      const session = await populateSession(Session.findOneAndUpdate(
+        { _id, status: 'scheduled', reminderSentAt: null },
+        { reminderSentAt: new Date() },
+        { new: true }
+      ));
+      if (!session) continue;
+
+      const request = await HelpRequest.findById(session.request).select('title status');
+      if (!request || !['in_progress', 'pending_confirmation', 'disputed'].includes(request.status)) {
+        continue;
+      }
+
+      for (const participant of [session.requester, session.helper]) {
+        await notify(io, {
+          recipient: participant._id,
+          type: 'session_reminder',
+          message: `Your session on "${request.title}" starts at ${formatTime(session.scheduledSlot.start)}`,
+          requestId: request._id,
+          requestTitle: request.title
+        });
+
+        try {
+          await sendEmail({
+            to: participant.email,
+            subject: `Reminder: session for ${request.title} starts soon`,
+            text: `Hi ${participant.name},\n\nYour SkillFull session for '${request.title}' starts at ${formatTime(session.scheduledSlot.start)} and ends at ${formatTime(session.scheduledSlot.end)}.\n\nSee you there!`,
+          });
+        } catch (e) {
+          console.error('Failed to send session reminder email:', e);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to send session reminder:', error);
+    }
+  }
+}
+
+// Call off a request's open sessions when it is cancelled, reopened or its
+// helper withdraws. Scheduled ones get a calendar cancellation by email.
+async function cancelRequestSessions(io, request, userId) {
+  try {
+    const open = await Session.find({ request: request._id, status: { $in: ['proposed', 'scheduled'] } })
+      .select('_id status');
+
+    for (const { _id, status } of open) {
+      const updated = await populateSession(Session.findOneAndUpdate(
+        { _id, status },
+        { status: 'cancelled', cancelledBy: userId },
+        { new: true }
+      ));
+      if (!updated) continue;
+
+      emitSession(io, updated);
+
+      if (status === 'scheduled') {
+        await sendCalendarEmails(updated, request, {
+          method: 'CANCEL',
+          subject: `Session cancelled: ${request.title}`,
+          intro: `Your session for '${request.title}' was cancelled because the request is no longer in progress.`
+        });
+      }
+    }
+  } catch (error) {
+    console.error('Failed to cancel sessions for request:', error);
+  }
+}
+
+function startSessionReminderSchedule(io) {
+  const timer = setInterval(() => {
+    sendDueReminders(io).catch((error) => console.error('Failed to send session reminders:', error));
+  }, REMINDER_CHECK_MS);
+  timer.unref();
+}
+
+module.exports = {
+  listSessions,
+  proposeSession,
+  acceptSessionSlot,
+  declineSession,
+  cancelSession,
+  cancelRequestSessions,
+  startSessionReminderSchedule
+};
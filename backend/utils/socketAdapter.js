@@ -0,0 +1,67 @@
+const { setSocketState, createRedisSocketState } = require('./socketState');
+
+// With REDIS_URL set, Socket.IO broadcasts and the socket bookkeeping in
+// utils/socketState.js go through Redis so several backend instances can
+// serve the same users. Without it everything stays in this process.
+
+let redisClients = null;
+let adapterStatus = { type: 'memory' };
+
+async function configureSocketAdapter(io) {
+  const url = process.env.REDIS_URL;
+  if (!url) {
+    return adapterStatus;
+  }
+
+  try {
+    // Only needed when running more than one instance, so loaded on demand
+    const { createClient } = require('redis');
+    const { createAdapter } = require('@socket.io/redis-adapter');
+
+    // node-redis retries forever by default, which would keep the server from
+    // starting while Redis is down. Give up on the first connection instead and
+    // only keep reconnecting once it has worked.
+    let connected = false;
+    const reconnectStrategy = (retries) => (connected ? Math.min(retries * 50, 500) : false);
+
+    const pubClient = createClient({ url, socket: { reconnectStrategy } });
+    const subClient = pubClient.duplicate();
+    pubClient.on('error', (error) => console.error('❌ Redis pub client error:', error.message));
+    subClient.on('error', (error) => console.error('❌ Redis sub client error:', error.message));
+
+    try {
+      await Promise.all([pubClient.connect(), subClient.connect()]);
+      connected = true;
+    } catch (error) {
+      // One of them may have connected before the other failed
+      await Promise.all([pubClient, subClient].filter((client) => client.isOpen).map((client) => client.disconnect()));
+      throw error;
+    }
+
+    io.adapter(createAdapter(pubClient, subClient));
+    setSocketState(createRedisSocketState(pubClient));
+
+    redisClients = { pubClient, subClient };
+    adapterStatus = { type: 'redis' };
+    console.log('✅ Socket.IO is using the Redis adapter');
+  } catch (error) {
+    // Keep serving this instance's users rather than refusing to start
+    console.error('❌ Could not set up the Redis adapter, using in-memory state:', error.message);
+    adapterStatus = { type: 'memory', error: error.message };
+  }
+
+  return adapterStatus;
+}
+
+// Reported by /health
+function getSocketAdapterStatus() {
+  if (redisClients) {
+    return {
+      type: 'redis',
+      connected: redisClients.pubClient.isReady && redisClients.subClient.isReady,
+    };
+  }
+  return adapterStatus;
+}
+
+module.exports = { configureSocketAdapter, getSocketAdapterStatus };
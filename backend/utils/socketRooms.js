@@ -0,0 +1,18 @@
+// Room names shared by the socket server and the routes that emit into them
+
+// Every socket joins its user's personal room on connect
+const userRoom = (userId) => `user:${userId}`;
+
+// Anonymized request availability updates for the "Help Others" feed
+const FEED_ROOM = 'requests:feed';
+
+// Emit a lifecycle event to the requester and helper of a request only
+const emitToParticipants = (io, request, event, payload) => {
+  const rooms = [userRoom(request.requester._id || request.requester)];
+  if (request.helper) {
+    rooms.push(userRoom(request.helper._id || request.helper));
+  }
+  io.to(rooms).emit(event, payload);
+};
+
+module.exports = { userRoom, FEED_ROOM, emitToParticipants };
@@ -0,0 +1,146 @@
+// Bookkeeping of which sockets belong to which users and request rooms. With
+// one backend instance it lives in memory; with several it has to be shared
+// (Redis), or each instance only sees its own sockets. Every store exposes:
+//   addUserSocket(userId, socketId)            -> Promise<number of the user's sockets>
+//   removeUserSocket(userId, socketId)         -> Promise<number of the user's sockets left>
+//   isOnline(userId)                           -> Promise<boolean>
+//   addRoomSocket(roomId, userId, socketId)    -> Promise<number of the user's sockets in the room>
+//   removeRoomSocket(roomId, userId, socketId) -> Promise<number of the user's sockets left in it>
+//   close()                                    -> Promise<void>
+
+function createMemorySocketState() {
+  const userSockets = new Map(); // userId -> Set of socket ids
+  const roomSockets = new Map(); // `${roomId}:${userId}` -> Set of socket ids
+
+  const add = (map, key, socketId) => {
+    if (!map.has(key)) {
+      map.set(key, new Set());
+    }
+    const sockets = map.get(key);
+    sockets.add(socketId);
+    return sockets.size;
+  };
+
+  const remove = (map, key, socketId) => {
+    const sockets = map.get(key);
+    if (!sockets) return 0;
+    sockets.delete(socketId);
+    if (sockets.size === 0) {
+      map.delete(key);
+    }
+    return sockets.size;
+  };
+
+  return {
+    name: 'memory',
+    async addUserSocket(userId, socketId) {
+      return add(userSockets, String(userId), socketId);
+    },
+    async removeUserSocket(userId, socketId) {
+      return remove(userSockets, String(userId), socketId);
+    },
+    async isOnline(userId) {
+      return userSockets.has(String(userId));
+    },
+    async addRoomSocket(roomId, userId, socketId) {
+      return add(roomSockets, `${roomId}:${userId}`, socketId);
+    },
+    async removeRoomSocket(roomId, userId, socketId) {
+      return remove(roomSockets, `${roomId}:${userId}`, socketId);
+    },
+    async close() {},
+  };
+}
+
+// Sockets are kept in sorted sets scored by when their instance last
+// confirmed them. Each instance refreshes its own sockets every heartbeat, so
+// entries left behind by an instance that crashed expire on their own.
+function createRedisSocketState(client, { prefix = 'skillfull:sockets', heartbeatMs = 30000 } = {}) {
+  const staleAfterMs = heartbeatMs * 3;
+  const localSockets = new Map(); // key -> Set of socket ids held by this instance
+
+  const userKey = (userId) => `${prefix}:user:${userId}`;
+  const roomKey = (roomId, userId) => `${prefix}:room:${roomId}:${userId}`;
+
+  const add = async (key, socketId) => {
+    if (!localSockets.has(key)) {
+      localSockets.set(key, new Set());
+    }
+    localSockets.get(key).add(socketId);
+
+    const now = Date.now();
+    const results = await client.multi()
+      .zRemRangeByScore(key, '-inf', now - staleAfterMs)
+      .zAdd(key, { score: now, value: socketId })
+      .zCard(key)
+      .pExpire(key, staleAfterMs)
+      .exec();
+    return Number(results[2]);
+  };
+
+  const remove = async (key, socketId) => {
+    const sockets = localSockets.get(key);
+    if (sockets) {
+      sockets.delete(socketId);
+      if (sockets.size === 0) {
+        localSockets.delete(key);
+      }
+    }
+
+    const results = await client.multi()
+      .zRem(key, socketId)
+      .zRemRangeByScore(key, '-inf', Date.now() - staleAfterMs)
+      .zCard(key)
+      .exec();
+    return Number(results[2]);
+  };
+
+  const heartbeat = async () => {
+    if (localSockets.size === 0) return;
+
+    const now = Date.now();
+    const multi = client.multi();
+    localSockets.forEach((sockets, key) => {
+      sockets.forEach((socketId) => multi.zAdd(key, { score: now, value: socketId }));
+      multi.pExpire(key, staleAfterMs);
+    });
+    await multi.exec();
+  };
+
+  const timer = setInterval(() => {
+    heartbeat().catch((error) => console.error('Failed to refresh socket state:', error.message));
+  }, heartbeatMs);
+  timer.unref();
+
+  return {
+    name: 'redis',
+    addUserSocket: (userId, socketId) => add(userKey(userId), socketId),
+    removeUserSocket: (userId, socketId) => remove(userKey(userId), socketId),
+    async isOnline(userId) {
+      const count = await client.zCount(userKey(userId), Date.now() - staleAfterMs, '+inf');
+      return count > 0;
+    },
+    addRoomSocket: (roomId, userId, socketId) => add(roomKey(roomId, userId), socketId),
+    removeRoomSocket: (roomId, userId, socketId) => remove(roomKey(roomId, userId), socketId),
+    async close() {
+      clearInterval(timer);
+    },
+  };
+}
+
+let socketState = createMemorySocketState();
+
+function getSocketState() {
+  return socketState;
+}
+
+function setSocketState(state) {
+  socketState = state;
+}
+
+module.exports = {
+  getSocketState,
+  setSocketState,
+  createMemorySocketState,
+  createRedisSocketState,
+};
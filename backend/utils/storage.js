@@ -0,0 +1,188 @@
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const axios = require('axios');
+
+// Storage drivers keep uploaded files out of the request handlers. Each driver
+// exposes the same three methods:
+//   save(key, buffer, contentType)  -> Promise<void>
+//   createReadStream(key)           -> Promise<Readable>, rejects with code ENOENT if missing
+//   remove(key)                     -> Promise<void>
+
+const notFound = (key) => {
+  const error = new Error(`Stored file not found: ${key}`);
+  error.code = 'ENOENT';
+  return error;
+};
+
+// Keys are generated by utils/uploads.js; refuse anything that could escape the root
+const assertSafeKey = (key) => {
+  if (!key || key !== path.basename(key) || key.startsWith('.')) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+};
+
+function createLocalStorage({ root = path.join(__dirname, '../uploads') } = {}) {
+  const ensureRoot = () => fs.promises.mkdir(root, { recursive: true });
+
+  return {
+    name: 'local',
+
+    async save(key, buffer) {
+      assertSafeKey(key);
+      await ensureRoot();
+      await fs.promises.writeFile(path.join(root, key), buffer);
+    },
+
+    async createReadStream(key) {
+      assertSafeKey(key);
+      const filePath = path.join(root, key);
+      try {
+        await fs.promises.access(filePath, fs.constants.R_OK);
+      } catch (error) {
+        throw notFound(key);
+      }
+      return fs.createReadStream(filePath);
+    },
+
+    async remove(key) {
+      assertSafeKey(key);
+      await fs.promises.rm(path.join(root, key), { force: true });
+    },
+  };
+}
+
+const sha256Hex = (data) => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key, data) => crypto.createHmac('sha256', key).update(data).digest();
+
+// AWS Signature Version 4 for a single S3 request. `headers` must include
+// host, x-amz-date and x-amz-content-sha256; all of them are signed.
+function signS3Request({ method, pathname, headers, region, accessKeyId, secretAccessKey }) {
+  const amzDate = headers['x-amz-date'];
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${region}/s3/aws4_request`;
+
+  const headerNames = Object.keys(headers).map((name) => name.toLowerCase()).sort();
+  const lowerHeaders = Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name.toLowerCase(), String(value).trim()])
+  );
+  const canonicalHeaders = headerNames.map((name) => `${name}:${lowerHeaders[name]}\n`).join('');
+  const signedHeaders = headerNames.join(';');
+
+  const canonicalRequest = [
+    method,
+    pathname,
+    '',
+    canonicalHeaders,
+    signedHeaders,
+    lowerHeaders['x-amz-content-sha256'],
+  ].join('\n');
+
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region), 's3'), 'aws4_request');
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+}
+
+// Works with AWS S3 and S3-compatible servers (MinIO, R2, Spaces) using
+// path-style URLs: <endpoint>/<bucket>/<key>
+function createS3Storage({ endpoint, region = 'us-east-1', bucket, accessKeyId, secretAccessKey }) {
+  if (!endpoint || !bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error('S3 storage needs S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+  }
+
+  const baseUrl = new URL(endpoint);
+
+  const send = async (method, key, { body, contentType, responseType } = {}) => {
+    assertSafeKey(key);
+    const url = new URL(`${baseUrl.pathname.replace(/\/$/, '')}/${bucket}/${encodeURIComponent(key)}`, baseUrl);
+    const headers = {
+      host: url.host,
+      'x-amz-date': new Date().toISOString().replace(/[:-]|\.\d{3}/g, ''),
+      'x-amz-content-sha256': sha256Hex(body || ''),
+    };
+    if (contentType) {
+      headers['content-type'] = contentType;
+    }
+
+    headers.authorization = signS3Request({
+      method,
+      pathname: url.pathname,
+      headers: { ...headers },
+      region,
+      accessKeyId,
+      secretAccessKey,
+    });
+
+    return axios({
+      method,
+      url: url.toString(),
+      data: body,
+      headers,
+      responseType,
+      maxBodyLength: Infinity,
+      validateStatus: (status) => (status >= 200 && status < 300) || status === 404,
+    });
+  };
+
+  return {
+    name: 's3',
+
+    async save(key, buffer, contentType) {
+      const response = await send('PUT', key, { body: buffer, contentType });
+      if (response.status === 404) {
+        throw new Error(`S3 bucket not found: ${bucket}`);
+      }
+    },
+
+    async createReadStream(key) {
+      const response = await send('GET', key, { responseType: 'stream' });
+      if (response.status === 404) {
+        response.data.resume();
+        throw notFound(key);
+      }
+      return response.data;
+    },
+
+    async remove(key) {
+      await send('DELETE', key);
+    },
+  };
+}
+
+const createStorageFromEnv = () => {
+  if ((process.env.STORAGE_DRIVER || 'local') === 's3') {
+    return createS3Storage({
+      endpoint: process.env.S3_ENDPOINT,
+      region: process.env.S3_REGION,
+      bucket: process.env.S3_BUCKET,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    });
+  }
+  return createLocalStorage({ root: process.env.UPLOADS_DIR || undefined });
+};
+
+let storage = null;
+
+// Created lazily so dotenv has loaded before the driver is chosen
+function getStorage() {
+  if (!storage) {
+    storage = createStorageFromEnv();
+  }
+  return storage;
+}
+
+function setStorage(driver) {
+  storage = driver;
+}
+
+module.exports = {
+  getStorage,
+  setStorage,
+  createLocalStorage,
+  createS3Storage,
+  signS3Request,
+};
@@ -0,0 +1,229 @@
+const Subscription = require('../models/Subscription');
+const Category = require('../models/Category');
+const Notification = require('../models/Notification');
+const User = require('../models/User');
+const { createNotification } = require('./notificationService');
+const { sendEmail } = require('./emailService');
+const { userRoom } = require('./socketRooms');
+const { normalizeSkill } = require('./matchingService');
+
+// maxPerHour is counted over this rolling window
+const RATE_WINDOW_MS = 60 * 60 * 1000;
+
+const DIGEST_INTERVAL_MS = 24 * 60 * 60 * 1000;
+// How often to look for digests that are due
+const DIGEST_CHECK_MS = 15 * 60 * 1000;
+const MAX_DIGEST_ITEMS = 20;
+
+const isValidTimezone = (timezone) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// Minutes after midnight in `timezone`
+function minutesInTimezone(date, timezone) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: isValidTimezone(timezone) ? timezone : 'UTC',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const part = (type) => Number(parts.find((p) => p.type === type).value);
+  return part('hour') * 60 + part('minute');
+}
+
+function isQuietTime(quietHours, date = new Date()) {
+  if (!quietHours || !quietHours.enabled || quietHours.start === quietHours.end) {
+    return false;
+  }
+
+  const { start, end } = quietHours;
+  const minutes = minutesInTimezone(date, quietHours.timezone);
+  // A window like 22:00-07:00 wraps past midnight
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+function formatSubscription(subscription) {
+  return {
+    categories: subscription.categories.map((id) => id.toString()),
+    skills: subscription.skills,
+    realtime: subscription.realtime,
+    emailDigest: subscription.emailDigest,
+    maxPerHour: subscription.maxPerHour,
+    quietHours: {
+      enabled: subscription.quietHours.enabled,
+      start: subscription.quietHours.start,
+      end: subscription.quietHours.end,
+      timezone: subscription.quietHours.timezone
+    }
+  };
+}
+
+// The user's subscription, or the defaults if they never saved one
+async function getSubscription(userId) {
+  const subscription = await Subscription.findOne({ user: userId });
+  return formatSubscription(subscription || new Subscription({ user: userId }));
+}
+
+async function updateSubscription(userId, updates) {
+  const subscription = await Subscription.findOne({ user: userId }) || new Subscription({ user: userId });
+
+  if (updates.categories !== undefined) {
+    const categoryIds = [...new Set(updates.categories)];
+    const found = await Category.countDocuments({ _id: { $in: categoryIds } });
+    if (found !== categoryIds.length) {
+      const error = new Error('Invalid category');
+      error.status = 400;
+      throw error;
+    }
+    subscription.categories = categoryIds;
+  }
+
+  if (updates.skills !== undefined) {
+    subscription.skills = [...new Set(updates.skills.map(normalizeSkill))];
+  }
+
+  ['realtime', 'emailDigest', 'maxPerHour'].forEach((field) => {
+    if (updates[field] !== undefined) {
+      subscription[field] = updates[field];
+    }
+  });
+
+  if (updates.quietHours) {
+    ['enabled', 'start', 'end', 'timezone'].forEach((field) => {
+      if (updates.quietHours[field] !== undefined) {
+        subscription.quietHours[field] = updates.quietHours[field];
+      }
+    });
+  }
+
+  await subscription.save();
+  return formatSubscription(subscription);
+}
+
+// Tell helpers subscribed to the request's category or skills about it, up to
+// each helper's hourly limit. A match is only stored as a notification when a
+// channel the helper chose will deliver it: pushed live outside their quiet
+// hours, or picked up later by the email digest.
+async function notifyMatchingHelpers(io, request) {
+  const requesterId = request.requester._id || request.requester;
+  const categoryId = request.category._id || request.category;
+  const skills = (request.skillsNeeded || []).map(normalizeSkill);
+
+  const subscriptions = await Subscription.find({
+    user: { $ne: requesterId },
+    $and: [
+      { $or: [{ categories: categoryId }, { skills: { $in: skills } }] },
+      // Helpers who turned off both channels don't hear about matches at all
+      { $or: [{ realtime: true }, { emailDigest: { $ne: 'off' } }] }
+    ]
+  });
+
+  const now = new Date();
+  for (const subscription of subscriptions) {
+    try {
+      const pushNow = subscription.realtime && !isQuietTime(subscription.quietHours, now);
+      if (!pushNow && subscription.emailDigest === 'off') continue;
+
+      const recentCount = await Notification.countDocuments({
+        recipient: subscription.user,
+        type: 'request_match',
+        createdAt: { $gte: new Date(now.getTime() - RATE_WINDOW_MS) }
+      });
+      if (recentCount >= subscription.maxPerHour) continue;
+
+      const matchedSkills = (request.skillsNeeded || []).filter((skill) =>
+        subscription.skills.includes(normalizeSkill(skill))
+      );
+      const matchedOn = matchedSkills.length > 0 ? matchedSkills.join(', ') : request.category.name;
+
+      const notification = await createNotification({
+        recipient: subscription.user,
+        type: 'request_match',
+        message: `New request matching ${matchedOn}: "${request.title}"`,
+        requestId: request._id,
+        requestTitle: request.title
+      });
+
+      if (io && pushNow) {
+        io.to(userRoom(subscription.user)).emit('notification', {
+          ...notification,
+          timestamp: now.toISOString()
+        });
+      }
+    } catch (error) {
+      console.error('Failed to notify subscribed helper:', error);
+    }
+  }
+}
+
+// Email each daily-digest subscriber the unread matches since their last digest
+async function sendDueDigests(now = new Date()) {
+  const due = await Subscription.find({
+    emailDigest: 'daily',
+    $or: [
+      { lastDigestAt: null },
+      { lastDigestAt: { $lte: new Date(now.getTime() - DIGEST_INTERVAL_MS) } }
+    ]
+  });
+
+  for (const subscription of due) {
+    if (isQuietTime(subscription.quietHours, now)) continue;
+
+    // Claim the digest first so another instance doesn't send it too
+    const previousDigestAt = subscription.lastDigestAt || null;
+    const claimed = await Subscription.findOneAndUpdate(
+      { _id: subscription._id, lastDigestAt: previousDigestAt },
+      { lastDigestAt: now }
+    );
+    if (!claimed) continue;
+
+    try {
+      const since = previousDigestAt || new Date(now.getTime() - DIGEST_INTERVAL_MS);
+      const notifications = await Notification.find({
+        recipient: subscription.user,
+        type: 'request_match',
+        isRead: false,
+        createdAt: { $gt: since }
+      })
+        .sort({ createdAt: -1 })
+        .limit(MAX_DIGEST_ITEMS);
+      if (notifications.length === 0) continue;
+
+      const user = await User.findById(subscription.user).select('name email');
+      if (!user || !user.email) continue;
+
+      const count = notifications.length;
+      const list = notifications.map((notification) => `- ${notification.requestTitle}`).join('\n');
+      await sendEmail({
+        to: user.email,
+        subject: `${count} new request${count === 1 ? '' : 's'} matching your interests`,
+        text: `Hi ${user.name},\n\nThese requests matching your subscriptions were posted since your last digest:\n\n${list}\n\nLog in to SkillFull to offer your help. You can change what you hear about in your notification settings.`,
+      });
+    } catch (error) {
+      console.error('Failed to send request digest:', error);
+    }
+  }
+}
+
+function startDigestSchedule() {
+  const timer = setInterval(() => {
+    sendDueDigests().catch((error) => console.error('Failed to send request digests:', error));
+  }, DIGEST_CHECK_MS);
+  timer.unref();
+}
+
+module.exports = {
+  getSubscription,
+  updateSubscription,
+  notifyMatchingHelpers,
+  startDigestSchedule,
+  isQuietTime,
+  isValidTimezone
+};
@@ -0,0 +1,141 @@
+const crypto = require('crypto');
+const path = require('path');
+const multer = require('multer');
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+
+const MIME = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  zip: 'application/zip',
+  rar: 'application/vnd.rar',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+// Files that can be shared in a conversation
+const ATTACHMENT_TYPES = [
+  MIME.jpeg, MIME.png, MIME.gif, MIME.webp, MIME.pdf, MIME.txt, MIME.zip, MIME.rar, MIME.doc, MIME.docx,
+];
+
+// Files the AI assistants can read
+const AI_INPUT_TYPES = [MIME.jpeg, MIME.png, MIME.gif, MIME.webp, MIME.pdf, MIME.txt];
+
+const startsWith = (buffer, bytes, offset = 0) =>
+  buffer.length >= offset + bytes.length && bytes.every((byte, i) => buffer[offset + i] === byte);
+
+const ascii = (text) => [...text].map((char) => char.charCodeAt(0));
+
+// Pages and scripts a browser could run if it ever rendered the file
+const MARKUP_START = /^\uFEFF?\s*<(?:html|head|body|svg|script|\?xml|!doctype)/i;
+
+const looksLikeText = (buffer) => {
+  const sample = buffer.subarray(0, 8192);
+  if (sample.includes(0)) {
+    return false;
+  }
+  // Reject invalid UTF-8, ignoring a sequence cut off at the end of the sample
+  const decoded = sample.toString('utf8');
+  const replacement = decoded.indexOf('\uFFFD');
+  if (replacement !== -1 && replacement < decoded.length - 3) {
+    return false;
+  }
+  return !MARKUP_START.test(decoded);
+};
+
+// Work out a file's type from its first bytes rather than trusting the
+// client's filename or Content-Type. Returns null for anything unrecognised.
+function sniffContentType(buffer, originalName = '') {
+  if (!buffer || buffer.length === 0) return null;
+
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return MIME.jpeg;
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return MIME.png;
+  if (startsWith(buffer, ascii('GIF87a')) || startsWith(buffer, ascii('GIF89a'))) return MIME.gif;
+  if (startsWith(buffer, ascii('RIFF')) && startsWith(buffer, ascii('WEBP'), 8)) return MIME.webp;
+  if (startsWith(buffer, ascii('%PDF-'))) return MIME.pdf;
+  if (startsWith(buffer, ascii('Rar!'), 0) && startsWith(buffer, [0x1a, 0x07], 4)) return MIME.rar;
+  if (startsWith(buffer, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return MIME.doc;
+
+  // .docx files are zip archives with a Word document inside
+  if (startsWith(buffer, [0x50, 0x4b, 0x03, 0x04])) {
+    const isWordDocument = path.extname(originalName).toLowerCase() === '.docx' &&
+      buffer.includes(Buffer.from('word/'));
+    return isWordDocument ? MIME.docx : MIME.zip;
+  }
+
+  if (looksLikeText(buffer)) return MIME.txt;
+
+  return null;
+}
+
+// Storage key for an upload: unique, and safe to use as a filename or object key
+function generateStorageKey(file) {
+  const extension = path.extname(file.originalname || '').toLowerCase();
+  const safeExtension = /^\.[a-z0-9]{1,10}$/.test(extension) ? extension : '';
+  return `${file.fieldname}-${Date.now()}-${crypto.randomBytes(8).toString('hex')}${safeExtension}`;
+}
+
+// Turn multer failures into 400 responses instead of the generic error handler
+const handleMulterErrors = (middleware, maxFileSize) => (req, res, next) => {
+  middleware(req, res, (error) => {
+    if (!error) return next();
+    if (error.code === 'LIMIT_FILE_SIZE') {
+      return res.status(400).json({
+        error: `File is too large; the maximum file size is ${Math.round(maxFileSize / (1024 * 1024))}MB`,
+      });
+    }
+    if (error instanceof multer.MulterError) {
+      return res.status(400).json({ error: error.message });
+    }
+    next(error);
+  });
+};
+
+// Replace each file's client-supplied mimetype with the sniffed one and reject
+// types that aren't allowed
+const verifyContentTypes = (allowedTypes) => (req, res, next) => {
+  const files = req.file ? [req.file] : Object.values(req.files || {}).flat();
+
+  for (const file of files) {
+    const sniffed = sniffContentType(file.buffer, file.originalname);
+    if (!sniffed || !allowedTypes.includes(sniffed)) {
+      return res.status(400).json({ error: `Unsupported file type: ${file.originalname}` });
+    }
+    file.mimetype = sniffed;
+  }
+
+  next();
+};
+
+// Shared multer setup. Files are kept in memory and checked; handlers decide
+// whether to persist them through utils/storage.js.
+function createUpload({ allowedTypes = ATTACHMENT_TYPES, maxFileSize = MAX_FILE_SIZE, maxFiles = 5 } = {}) {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+      fileSize: maxFileSize,
+      files: maxFiles,
+    },
+  });
+
+  return {
+    single: (field) => [handleMulterErrors(upload.single(field), maxFileSize), verifyContentTypes(allowedTypes)],
+    array: (field, maxCount = maxFiles) => [
+      handleMulterErrors(upload.array(field, maxCount), maxFileSize),
+      verifyContentTypes(allowedTypes),
+    ],
+  };
+}
+
+module.exports = {
+  createUpload,
+  sniffContentType,
+  generateStorageKey,
+  ATTACHMENT_TYPES,
+  AI_INPUT_TYPES,
+  MAX_FILE_SIZE,
+};
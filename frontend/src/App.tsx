@@ -10,6 +10,8 @@ import SendRequestNew from "./pages/SendRequestNew";
 import AcceptRequest from "./pages/AcceptRequest";
 import MyRequests from "./pages/MyRequests";
 import MyHelpRequests from "./pages/MyHelpRequests";
+import Profile from "./pages/Profile";
+import NotificationSettings from "./pages/NotificationSettings";
 import ProtectedRoute from "./components/ProtectedRoute";
 import NotFound from "./pages/NotFound";
 import NotificationSystem from "./components/NotificationSystem";
@@ -41,7 +43,12 @@ const GlobalNotificationHandler = () => {
       socketService.onNotification((notification) => {
         console.log("🔔 Global notification received:", notification);
         toast({
-          title: "New Message",
+          title: notification.type === "request_match"
+            ? "New Matching Request"
+            : notification.type?.startsWith("proposal_") ? "Proposal Update"
+            : notification.type?.startsWith("session_") ? "Session Update"
+            : notification.type?.startsWith("request_") || notification.type === "completion_requested" ? "Request Update"
+            : "New Message",
           description: notification.message,
         });
       });
@@ -86,10 +93,11 @@ const App = () => {
         <AuthProvider>
           <TooltipProvider>
             <BackendStatus />
-            <GlobalNotificationHandler />
             <Toaster />
             <Sonner />
             <BrowserRouter>
+              {/* Inside the router so notifications can navigate to their pages */}
+              <GlobalNotificationHandler />
               <Routes>
                 <Route path="/" element={<Index />} />
                 <Route
@@ -100,6 +108,14 @@ const App = () => {
                     </ProtectedRoute>
                   }
                 />
+                <Route
+                  path="/send-request/:id/edit"
+                  element={
+                    <ProtectedRoute>
+                      <SendRequestNew />
+                    </ProtectedRoute>
+                  }
+                />
                 <Route
                   path="/accept-request"
                   element={
@@ -124,6 +140,23 @@ const App = () => {
                     </ProtectedRoute>
                   }
                 />
+                <Route
+                  path="/profile"
+                  element={
+                    <ProtectedRoute>
+                      <Profile />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route path="/users/:id" element={<Profile />} />
+                <Route
+                  path="/settings/notifications"
+                  element={
+                    <ProtectedRoute>
+                      <NotificationSettings />
+                    </ProtectedRoute>
+                  }
+                />
 
                 {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
                 <Route path="*" element={<NotFound />} />
@@ -8,7 +8,7 @@ import apiService from "../services/api";
 interface HelpRequest {
   _id: string;
   title: string;
-  status: "open" | "in_progress" | "completed";
+  status: "open" | "in_progress" | "pending_confirmation" | "completed" | "disputed" | "cancelled";
   requester: {
     _id: string;
     name: string;
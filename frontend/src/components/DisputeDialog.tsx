@@ -0,0 +1,107 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useCustomToast } from "@/hooks/use-custom-toast";
+import { AlertTriangle } from "lucide-react";
+import apiService from "../services/api";
+
+interface DisputeDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  request: {
+    _id: string;
+    title: string;
+    helper?: { name: string };
+  } | null;
+  onDisputed?: (requestId: string) => void;
+}
+
+const DisputeDialog: React.FC<DisputeDialogProps> = ({
+  isOpen,
+  onClose,
+  request,
+  onDisputed,
+}) => {
+  const { showSuccessNotification, showErrorNotification } = useCustomToast();
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleClose = () => {
+    setReason("");
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    if (!request || !reason.trim()) return;
+
+    try {
+      setSubmitting(true);
+      await apiService.disputeCompletion(request._id, reason.trim());
+      showSuccessNotification("Dispute Raised", `${request.helper?.name || "Your helper"} has been told what's still outstanding.`);
+      onDisputed?.(request._id);
+      handleClose();
+    } catch (error) {
+      console.error("Failed to dispute completion:", error);
+      showErrorNotification("Error", error.message || "Failed to dispute completion");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="bg-slate-800 border-slate-700 text-white">
+        <DialogHeader>
+          <DialogTitle className="text-white">Dispute Completion</DialogTitle>
+          {request && (
+            <DialogDescription className="text-slate-300">
+              Let {request.helper?.name || "your helper"} know why "{request.title}" isn't finished yet
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="dispute-reason" className="text-white">Reason</Label>
+            <Textarea
+              id="dispute-reason"
+              value={reason}
+              maxLength={1000}
+              rows={4}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Describe what still needs to be done..."
+              className="bg-slate-700 border-slate-600 text-white placeholder:text-slate-400 focus:border-cyan-400"
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              onClick={handleSubmit}
+              disabled={!reason.trim() || submitting}
+              className="flex-1 bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600"
+            >
+              <AlertTriangle className="h-4 w-4 mr-2" />
+              {submitting ? "Submitting..." : "Raise Dispute"}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleClose}
+              className="border-slate-600 text-white hover:bg-slate-700"
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DisputeDialog;
@@ -10,41 +10,14 @@ const GoogleAuth: React.FC<GoogleAuthProps> = ({ onSuccess }) => {
   const { login } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
 
-  const decodeJWTToken = (token: string) => {
-    try {
-      const base64Url = token.split(".")[1];
-      const base64 = base64Url.replace(/-/g, "+").replace(/_/g, "/");
-      const jsonPayload = decodeURIComponent(
-        atob(base64)
-          .split("")
-          .map((c) => "%" + ("00" + c.charCodeAt(0).toString(16)).slice(-2))
-          .join("")
-      );
-      return JSON.parse(jsonPayload);
-    } catch (error) {
-      console.error("Error decoding JWT token:", error);
-      return null;
-    }
-  };
-
   const handleSuccess = async (credentialResponse: CredentialResponse) => {
     setIsLoading(true);
 
     try {
       if (credentialResponse.credential) {
-        const userInfo = decodeJWTToken(credentialResponse.credential);
-
-        if (userInfo) {
-          const googleUser = {
-            id: userInfo.sub,
-            name: userInfo.name,
-            email: userInfo.email,
-            picture: userInfo.picture,
-          };
-
-          await login(googleUser);
-          onSuccess?.();
-        }
+        // The backend verifies the ID token and reads the profile from it
+        await login(credentialResponse.credential);
+        onSuccess?.();
       }
     } catch (error) {
       console.error("Google sign-in failed:", error);
@@ -1,13 +1,32 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useLayoutEffect, useRef } from "react";
 import { useAuth } from "../contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Send, Paperclip, X, Download, Image as ImageIcon, FileText, Phone, Video, MoreVertical, MessageCircle } from "lucide-react";
+import { Send, Paperclip, X, Download, Image as ImageIcon, FileText, Phone, Video, MoreVertical, MessageCircle, Check, CheckCheck, Search, ArrowDown, Pencil, Trash2, Reply, SmilePlus, Clock, AlertCircle, CalendarPlus } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 import apiService from "../services/api";
 import socketService from "../services/socket";
+import { usePresence, formatLastSeen } from "@/hooks/use-presence";
+import SessionCard, { Session } from "./SessionCard";
+import ScheduleSessionDialog from "./ScheduleSessionDialog";
+
+interface MessageReaction {
+  emoji: string;
+  userIds: string[];
+}
+
+// Preview of the message a reply quotes
+interface QuotedMessage {
+  _id: string;
+  senderId?: string;
+  senderName?: string;
+  messageType?: string;
+  content?: string;
+  fileName?: string;
+  deleted?: boolean;
+}
 
 interface Message {
   _id: string;
@@ -16,14 +35,56 @@ interface Message {
   senderName: string;
   senderPicture?: string;
   content: string;
-  messageType: 'text' | 'file' | 'image';
+  messageType: 'text' | 'file' | 'image' | 'session';
+  // Session proposed in a 'session' message
+  sessionId?: string;
   fileName?: string;
   fileUrl?: string;
   fileSize?: number;
+  attachmentId?: string;
   createdAt: string;
-  isRead: boolean;
+  editedAt?: string;
+  // Set on tombstones left by deleted messages
+  deletedAt?: string;
+  // Until when the sender may still edit or delete the message
+  editableUntil?: string;
+  replyTo?: QuotedMessage;
+  reactions?: MessageReaction[];
+  clientId?: string;
+  readBy: {
+    userId: string;
+    readAt: string;
+  }[];
 }
 
+// A message in socketService's outbox that the server hasn't confirmed yet
+interface OutboxEntry {
+  clientId: string;
+  requestId: string;
+  status: "pending" | "failed";
+  error?: string | null;
+  createdAt: string;
+  message: {
+    content?: string;
+    messageType?: string;
+    fileName?: string;
+    replyToPreview?: QuotedMessage;
+  };
+}
+
+const QUICK_REACTIONS = ["👍", "❤️", "😂", "🎉", "😮", "🙏"];
+
+interface MessagePage {
+  messages: Message[];
+  hasMoreBefore: boolean;
+  hasMoreAfter: boolean;
+}
+
+// How to adjust the scroll position once a change to the message list renders
+type PendingScroll =
+  | { type: "preserve"; scrollHeight: number; scrollTop: number }
+  | { type: "message"; messageId: string };
+
 interface HelpRequest {
   _id: string;
   title: string;
@@ -39,7 +100,7 @@ interface HelpRequest {
     email: string;
     picture?: string;
   };
-  status: "open" | "in_progress" | "completed";
+  status: "open" | "in_progress" | "pending_confirmation" | "completed" | "disputed" | "cancelled";
 }
 
 interface MessagesProps {
@@ -57,44 +118,39 @@ const Messages: React.FC<MessagesProps> = ({ request, onClose }) => {
   const [uploading, setUploading] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [lastSeen, setLastSeen] = useState<{ [key: string]: Date }>({});
+  const [hasMoreBefore, setHasMoreBefore] = useState(false);
+  const [hasMoreAfter, setHasMoreAfter] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<Message[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editingContent, setEditingContent] = useState("");
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [reactionPickerFor, setReactionPickerFor] = useState<string | null>(null);
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  // Sessions proposed in this conversation, by id
+  const [sessions, setSessions] = useState<Record<string, Session>>({});
+  const [showScheduleDialog, setShowScheduleDialog] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const pendingScrollRef = useRef<PendingScroll | null>(null);
+  const lastMessageIdRef = useRef<string | undefined>(undefined);
+  const loadingPageRef = useRef(false);
+  // Mirrors hasMoreAfter for the socket listeners registered once per request
+  const hasMoreAfterRef = useRef(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
-
-  // Safety check for incomplete request data
-  if (!request || !request.requester) {
-    return (
-      <div className="flex flex-col h-full bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
-        <div className="flex items-center justify-between p-4 border-b border-slate-700 bg-slate-800/50 backdrop-blur-sm">
-          <div className="flex items-center space-x-3">
-            <div className="w-10 h-10 bg-gradient-to-r from-red-500 to-pink-500 rounded-full flex items-center justify-center">
-              <span className="text-white font-bold">!</span>
-            </div>
-            <div>
-              <h3 className="font-semibold text-white">Invalid Request</h3>
-              <span className="text-xs text-gray-400">Request data is incomplete</span>
-            </div>
-          </div>
-          <Button variant="ghost" size="sm" onClick={onClose} className="text-slate-400 hover:text-white">
-            <X className="h-4 w-4" />
-          </Button>
-        </div>
-        <div className="flex-1 flex items-center justify-center">
-          <div className="text-center">
-            <p className="text-gray-400 mb-2">Unable to load chat</p>
-            <p className="text-sm text-gray-500">Request data is missing or invalid</p>
-          </div>
-        </div>
-      </div>
-    );
-  }
+  const refreshedAttachments = useRef<Set<string>>(new Set());
 
   // Determine user roles and names - FIXED: Each user sees the other person's name
-  const isRequester = user?.id === request.requester._id;
-  const isHelper = user?.id === request.helper?._id;
-  const otherUser = isRequester ? request.helper : request.requester;
-  const currentUserName = isRequester ? request.requester.name : (request.helper?.name || "Helper");
+  const isRequester = user?.id === request?.requester?._id;
+  const isHelper = user?.id === request?.helper?._id;
+  const otherUser = isRequester ? request?.helper : request?.requester;
+  const currentUserName = isRequester ? request?.requester?.name : (request?.helper?.name || "Helper");
   const otherUserName = otherUser?.name || (isRequester ? "Helper" : "Requester");
+  const otherPresence = usePresence([otherUser?._id])[otherUser?._id ?? ""];
 
   useEffect(() => {
     if (!user?.id || !request?._id || !request?.requester) return;
@@ -104,12 +160,16 @@ const Messages: React.FC<MessagesProps> = ({ request, onClose }) => {
     socketService.joinRoom(request._id);
     setIsConnected(true);
 
-    // Load existing messages
+    // Load existing messages, plus any of ours still waiting to be delivered
     loadMessages();
+    loadSessions();
+    socketService.getOutbox(request._id).then(setOutbox).catch(console.error);
 
     // Set up real-time listeners
     socketService.onMessage((message: Message) => {
       if (message.requestId === request._id) {
+        // While older history is on screen the new message is picked up by "Jump to latest"
+        if (hasMoreAfterRef.current) return;
         setMessages(prev => {
           // Check if message already exists
           const exists = prev.find(m => m._id === message._id);
@@ -141,42 +201,176 @@ const Messages: React.FC<MessagesProps> = ({ request, onClose }) => {
       }
     });
 
+    // Show "seen" ticks when the other party reads our messages
+    socketService.onMessagesRead((data) => {
+      if (data.requestId?.toString() !== request._id || data.readerId === user.id) return;
+      const readIds = new Set((data.messageIds || []).map((id) => id.toString()));
+      setMessages(prev => prev.map(message =>
+        readIds.has(message._id?.toString())
+          ? { ...message, readBy: [...(message.readBy || []), { userId: data.readerId, readAt: data.readAt }] }
+          : message
+      ));
+    });
+
+    // Edits and deletes by the sender replace the message in place
+    socketService.onMessageUpdated((updated: Message) => {
+      if (updated.requestId?.toString() !== request._id) return;
+      setMessages(prev => prev.map(message => {
+        if (message._id === updated._id) {
+          return { ...message, ...updated };
+        }
+        // Keep quotes of the changed message in step with it
+        if (message.replyTo?._id === updated._id) {
+          return {
+            ...message,
+            replyTo: { ...message.replyTo, content: updated.content, deleted: !!updated.deletedAt },
+          };
+        }
+        return message;
+      }));
+    });
+
+    socketService.onReactions((data) => {
+      if (data.requestId?.toString() !== request._id) return;
+      setMessages(prev => prev.map(message =>
+        message._id === data.messageId ? { ...message, reactions: data.reactions } : message
+      ));
+    });
+
+    // Track our unsent messages; once delivered they join the conversation
+    socketService.onOutboxChange((event) => {
+      const entry: OutboxEntry = event.entry;
+      if (entry.requestId !== request._id) return;
+
+      if (event.type === "queued" || event.type === "updated") {
+        setOutbox(prev => [...prev.filter(e => e.clientId !== entry.clientId), entry]);
+        return;
+      }
+
+      setOutbox(prev => prev.filter(e => e.clientId !== entry.clientId));
+      if (event.type === "sent" && !hasMoreAfterRef.current) {
+        const sent: Message = event.message;
+        setMessages(prev => (prev.some(m => m._id === sent._id) ? prev : [...prev, sent]));
+      }
+    });
+
     socketService.onConnectionStatus((status) => {
       setIsConnected(status);
     });
 
-    // Update last seen when user is active
-    const updateLastSeen = () => {
-      if (user?.id) {
-        setLastSeen(prev => ({
-          ...prev,
-          [user.id]: new Date()
-        }));
-      }
+    // Session proposals in the chat change as either side responds
+    const handleSessionUpdated = (data: { requestId: string; session: Session }) => {
+      if (data.requestId?.toString() !== request._id) return;
+      updateSession(data.session);
     };
-
-    // Update last seen every 30 seconds when user is active
-    const lastSeenInterval = setInterval(updateLastSeen, 30000);
+    socketService.socket?.on("session_updated", handleSessionUpdated);
 
     return () => {
       socketService.leaveRoom(request._id);
       socketService.offMessage();
       socketService.offTyping();
+      socketService.offMessagesRead();
+      socketService.offMessageUpdated();
+      socketService.offReactions();
+      socketService.offOutboxChange();
       socketService.offConnectionStatus();
-      clearInterval(lastSeenInterval);
+      socketService.socket?.off("session_updated", handleSessionUpdated);
     };
-  }, [user?.id, request._id]);
+  }, [user?.id, request?._id]);
 
   useEffect(() => {
-    scrollToBottom();
+    hasMoreAfterRef.current = hasMoreAfter;
+  }, [hasMoreAfter]);
+
+  useEffect(() => {
+    if (!request?.requester) return;
+    if (outbox.length > 0) {
+      scrollToBottom();
+    }
+  }, [outbox.length]);
+
+  // The conversation is open, so a new message from the other side has been seen
+  const lastMessage = messages[messages.length - 1];
+  useEffect(() => {
+    if (!request?.requester || !lastMessage || lastMessage.senderId === user?.id) return;
+    markAsRead();
+  }, [lastMessage?._id]);
+
+  useLayoutEffect(() => {
+    if (!request?.requester) return;
+
+    const pending = pendingScrollRef.current;
+    pendingScrollRef.current = null;
+    const lastMessageId = messages[messages.length - 1]?._id;
+    const lastMessageChanged = lastMessageId !== lastMessageIdRef.current;
+    lastMessageIdRef.current = lastMessageId;
+
+    const container = messagesContainerRef.current;
+    if (pending?.type === "preserve" && container) {
+      // Keep the same messages in view after older ones are added above them
+      container.scrollTop = container.scrollHeight - pending.scrollHeight + pending.scrollTop;
+    } else if (pending?.type === "message") {
+      scrollToMessage(pending.messageId);
+    } else if (lastMessageChanged && !hasMoreAfter) {
+      scrollToBottom();
+    }
   }, [messages]);
 
+  // Safety check for incomplete request data
+  if (!request || !request.requester) {
+    return (
+      <div className="flex flex-col h-full bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+        <div className="flex items-center justify-between p-4 border-b border-slate-700 bg-slate-800/50 backdrop-blur-sm">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-gradient-to-r from-red-500 to-pink-500 rounded-full flex items-center justify-center">
+              <span className="text-white font-bold">!</span>
+            </div>
+            <div>
+              <h3 className="font-semibold text-white">Invalid Request</h3>
+              <span className="text-xs text-gray-400">Request data is incomplete</span>
+            </div>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} className="text-slate-400 hover:text-white">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-center">
+            <p className="text-gray-400 mb-2">Unable to load chat</p>
+            <p className="text-sm text-gray-500">Request data is missing or invalid</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const loadSessions = async () => {
+    try {
+      const list: Session[] = await apiService.getSessions(request._id);
+      setSessions(Object.fromEntries(list.map((session) => [session._id, session])));
+    } catch (error) {
+      console.error("Failed to load sessions:", error);
+    }
+  };
+
+  const updateSession = (session: Session) => {
+    setSessions(prev => ({ ...prev, [session._id]: session }));
+  };
+
+  const applyPage = (page: MessagePage) => {
+    setMessages(page.messages);
+    setHasMoreBefore(page.hasMoreBefore);
+    setHasMoreAfter(page.hasMoreAfter);
+  };
+
+  // Load the latest page of the conversation
   const loadMessages = async () => {
     try {
       setLoading(true);
       setError(null);
-      const response = await apiService.getMessages(request._id);
-      setMessages(response);
+      const response: MessagePage = await apiService.getMessages(request._id);
+      applyPage(response);
+      markAsRead();
     } catch (error) {
       console.error("Failed to load messages:", error);
       setError("Failed to load messages. Please try again.");
@@ -190,6 +384,132 @@ const Messages: React.FC<MessagesProps> = ({ request, onClose }) => {
     }
   };
 
+  const loadOlderMessages = async () => {
+    if (!hasMoreBefore || loadingPageRef.current || messages.length === 0) return;
+    const container = messagesContainerRef.current;
+
+    try {
+      loadingPageRef.current = true;
+      setLoadingOlder(true);
+      const response: MessagePage = await apiService.getMessages(request._id, { before: messages[0]._id });
+      if (container) {
+        pendingScrollRef.current = {
+          type: "preserve",
+          scrollHeight: container.scrollHeight,
+          scrollTop: container.scrollTop,
+        };
+      }
+      setMessages(prev => {
+        const loaded = new Set(prev.map(m => m._id));
+        return [...response.messages.filter(m => !loaded.has(m._id)), ...prev];
+      });
+      setHasMoreBefore(response.hasMoreBefore);
+    } catch (error) {
+      console.error("Failed to load older messages:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load older messages",
+        variant: "destructive",
+      });
+    } finally {
+      loadingPageRef.current = false;
+      setLoadingOlder(false);
+    }
+  };
+
+  // After jumping back in history, fill in the messages below as the user scrolls down
+  const loadNewerMessages = async () => {
+    if (!hasMoreAfter || loadingPageRef.current || messages.length === 0) return;
+
+    try {
+      loadingPageRef.current = true;
+      const response: MessagePage = await apiService.getMessages(request._id, {
+        after: messages[messages.length - 1]._id,
+      });
+      setMessages(prev => {
+        const loaded = new Set(prev.map(m => m._id));
+        return [...prev, ...response.messages.filter(m => !loaded.has(m._id))];
+      });
+      setHasMoreAfter(response.hasMoreAfter);
+    } catch (error) {
+      console.error("Failed to load newer messages:", error);
+    } finally {
+      loadingPageRef.current = false;
+    }
+  };
+
+  const handleMessagesScroll = () => {
+    const container = messagesContainerRef.current;
+    if (!container) return;
+
+    if (container.scrollTop < 100) {
+      loadOlderMessages();
+    } else if (container.scrollHeight - container.scrollTop - container.clientHeight < 100) {
+      loadNewerMessages();
+    }
+  };
+
+  const scrollToMessage = (messageId: string) => {
+    const element = messagesContainerRef.current?.querySelector(`[data-message-id="${messageId}"]`);
+    element?.scrollIntoView({ behavior: "smooth", block: "center" });
+    setHighlightedMessageId(messageId);
+    setTimeout(() => {
+      setHighlightedMessageId(current => (current === messageId ? null : current));
+    }, 2000);
+  };
+
+  // Show a message in context, loading the page around it if it isn't on screen
+  const jumpToMessage = async (messageId: string) => {
+    if (messages.some(m => m._id === messageId)) {
+      scrollToMessage(messageId);
+      return;
+    }
+
+    try {
+      const response: MessagePage = await apiService.getMessages(request._id, { around: messageId });
+      pendingScrollRef.current = { type: "message", messageId };
+      applyPage(response);
+    } catch (error) {
+      console.error("Failed to load message:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load message",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const query = searchQuery.trim();
+    if (!query) return;
+
+    try {
+      setSearching(true);
+      const response = await apiService.searchMessages(request._id, query);
+      setSearchResults(response.results);
+    } catch (error) {
+      console.error("Failed to search messages:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to search messages",
+        variant: "destructive",
+      });
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const closeSearch = () => {
+    setShowSearch(false);
+    setSearchQuery("");
+    setSearchResults(null);
+  };
+
+  const markAsRead = () => {
+    apiService.markMessagesAsRead(request._id).catch(console.error);
+  };
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
@@ -201,29 +521,130 @@ const Messages: React.FC<MessagesProps> = ({ request, onClose }) => {
       const messageData = {
         requestId: request._id,
         content: newMessage.trim(),
+        replyTo: replyingTo?._id,
+        replyToPreview: replyingTo ? toQuotedMessage(replyingTo) : undefined,
         senderName: currentUserName
       };
 
-      // Send via socket
-      socketService.sendMessage(messageData);
+      // Queued in the outbox and shown as pending until the server confirms it
+      await socketService.sendMessage(messageData);
+      if (hasMoreAfter) {
+        // Back to the end of the conversation, where the new message goes
+        loadMessages();
+      }
       
       // Clear input and stop typing
       setNewMessage("");
+      setReplyingTo(null);
       socketService.stopTyping(request._id, currentUserName);
       
-      // Mark messages as read
-      apiService.markMessagesAsRead(request._id).catch(console.error);
-      
     } catch (error) {
       console.error("Failed to send message:", error);
       toast({
         title: "Error",
-        description: "Failed to send message",
+        description: error.message || "Failed to send message",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const canChangeMessage = (message: Message) =>
+    message.senderId === user?.id &&
+    message.messageType !== 'session' &&
+    !message.deletedAt &&
+    !!message.editableUntil &&
+    new Date(message.editableUntil).getTime() > Date.now();
+
+  const startEditing = (message: Message) => {
+    setEditingMessageId(message._id);
+    setEditingContent(message.content);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessageId(null);
+    setEditingContent("");
+  };
+
+  const replaceMessage = (updated: Message) => {
+    setMessages(prev => prev.map(m => (m._id === updated._id ? { ...m, ...updated } : m)));
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingMessageId || !editingContent.trim()) return;
+
+    try {
+      const updated = await apiService.editMessage(editingMessageId, editingContent.trim());
+      replaceMessage(updated);
+      cancelEditing();
+    } catch (error) {
+      console.error("Failed to edit message:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to edit message",
         variant: "destructive",
       });
     }
   };
 
+  const handleDeleteMessage = async (message: Message) => {
+    if (!window.confirm("Delete this message for everyone?")) return;
+
+    try {
+      const updated = await apiService.deleteMessage(message._id);
+      replaceMessage(updated);
+    } catch (error) {
+      console.error("Failed to delete message:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete message",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleReaction = async (message: Message, emoji: string) => {
+    setReactionPickerFor(null);
+    const reacted = message.reactions?.some(
+      reaction => reaction.emoji === emoji && reaction.userIds.includes(user?.id ?? "")
+    );
+
+    try {
+      const result = reacted
+        ? await socketService.removeReaction(message._id, emoji)
+        : await socketService.addReaction(message._id, emoji);
+      setMessages(prev => prev.map(m => (m._id === message._id ? { ...m, reactions: result.reactions } : m)));
+    } catch (error) {
+      console.error("Failed to update reaction:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update reaction",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const startReply = (message: Message) => {
+    setReplyingTo(message);
+    cancelEditing();
+  };
+
+  const toQuotedMessage = (message: Message): QuotedMessage => ({
+    _id: message._id,
+    senderId: message.senderId,
+    senderName: message.senderName,
+    messageType: message.messageType,
+    content: message.content,
+    fileName: message.fileName,
+  });
+
+  const describeQuoted = (quoted: { messageType?: string; content?: string; fileName?: string; deleted?: boolean }) => {
+    if (quoted.deleted) return "This message was deleted";
+    if (quoted.messageType === 'image') return `📷 ${quoted.fileName || "Photo"}`;
+    if (quoted.messageType === 'file') return `📎 ${quoted.fileName || "File"}`;
+    if (quoted.messageType === 'session') return `📅 ${quoted.content || "Session"}`;
+    return quoted.content;
+  };
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file || !user?.id) return;
@@ -253,19 +674,16 @@ const Messages: React.FC<MessagesProps> = ({ request, onClose }) => {
       
       const messageData = {
         requestId: request._id,
-        content: response.fileUrl,
-        messageType: file.type.startsWith('image/') ? 'image' : 'file',
-        fileName: file.name,
-        fileSize: file.size,
+        messageType: response.fileType,
+        attachmentId: response.attachmentId,
+        fileName: response.fileName,
+        replyTo: replyingTo?._id,
+        replyToPreview: replyingTo ? toQuotedMessage(replyingTo) : undefined,
         senderName: currentUserName
       };
 
-      socketService.sendMessage(messageData);
-      
-      toast({
-        title: "File Sent",
-        description: `${file.name} has been sent successfully.`,
-      });
+      await socketService.sendMessage(messageData);
+      setReplyingTo(null);
       
     } catch (error) {
       console.error("Failed to upload file:", error);
@@ -326,6 +744,43 @@ const Messages: React.FC<MessagesProps> = ({ request, onClose }) => {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
+  // Attachments are served through short-lived signed links
+  const getFileSrc = (message: Message) => {
+    return message.fileUrl ? apiService.resolveApiUrl(message.fileUrl) : message.content;
+  };
+
+  // Signed links expire, so fetch a fresh one once when an attachment fails to load
+  const refreshAttachmentUrl = async (message: Message) => {
+    if (!message.attachmentId || refreshedAttachments.current.has(message._id)) return;
+    refreshedAttachments.current.add(message._id);
+
+    try {
+      const { url } = await apiService.getAttachmentUrl(message.attachmentId);
+      setMessages(prev => prev.map(m => m._id === message._id ? { ...m, fileUrl: url } : m));
+    } catch (error) {
+      console.error("Failed to refresh attachment link:", error);
+    }
+  };
+
+  const openAttachment = async (message: Message) => {
+    if (!message.attachmentId) {
+      window.open(message.content, '_blank');
+      return;
+    }
+
+    try {
+      const { url } = await apiService.getAttachmentUrl(message.attachmentId);
+      window.open(apiService.resolveApiUrl(url), '_blank');
+    } catch (error) {
+      console.error("Failed to open attachment:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to open file",
+        variant: "destructive",
+      });
+    }
+  };
+
   const formatTime = (dateString: string) => {
     return new Date(dateString).toLocaleTimeString([], { 
       hour: '2-digit', 
@@ -333,14 +788,84 @@ const Messages: React.FC<MessagesProps> = ({ request, onClose }) => {
     });
   };
 
+  const renderOutboxEntry = (entry: OutboxEntry) => {
+    const { content, messageType, fileName, replyToPreview } = entry.message;
+    const failed = entry.status === "failed";
+
+    return (
+      <div key={entry.clientId} className="flex justify-end mb-6">
+        <div className="flex flex-col items-end max-w-xs lg:max-w-md">
+          <div
+            className={`rounded-2xl px-4 py-3 max-w-xs lg:max-w-md break-words shadow-lg bg-gradient-to-r from-cyan-500 to-purple-500 text-white ${
+              failed ? 'opacity-60 ring-1 ring-red-400' : 'opacity-70'
+            }`}
+          >
+            {replyToPreview && (
+              <div className="mb-2 border-l-2 border-white/50 bg-black/20 rounded px-2 py-1 text-xs">
+                <span className="block font-medium">{replyToPreview.senderName || "Message"}</span>
+                <span className="block opacity-75 truncate">{describeQuoted(replyToPreview)}</span>
+              </div>
+            )}
+            {messageType && messageType !== 'text' ? (
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-white/10 rounded-lg">
+                  <FileText className="h-5 w-5" />
+                </div>
+                <p className="text-sm font-medium truncate">{fileName}</p>
+              </div>
+            ) : (
+              <p className="text-sm leading-relaxed">{content}</p>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2 mt-2">
+            {failed ? (
+              <>
+                <AlertCircle className="w-4 h-4 text-red-400" />
+                <span className="text-xs text-red-400">{entry.error || "Not sent"}</span>
+                <button
+                  type="button"
+                  onClick={() => socketService.retryMessage(entry.clientId)}
+                  className="text-xs text-purple-300 hover:text-white underline"
+                >
+                  Retry
+                </button>
+                <button
+                  type="button"
+                  onClick={() => socketService.discardMessage(entry.clientId)}
+                  className="text-xs text-gray-400 hover:text-white underline"
+                >
+                  Discard
+                </button>
+              </>
+            ) : (
+              <>
+                <Clock className="w-4 h-4 text-gray-400" />
+                <span className="text-xs text-gray-400">
+                  {isConnected ? "Sending..." : "Waiting for connection..."}
+                </span>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  // The server's echo can arrive before the outbox hears the send succeeded
+  const unsentEntries = outbox.filter(entry => !messages.some(m => m.clientId === entry.clientId));
+
   const renderMessage = (message: Message) => {
     const isOwnMessage = message.senderId === user?.id;
     const messageTime = formatTime(message.createdAt);
+    const seenReceipt = message.readBy?.find(receipt => receipt.userId !== user?.id);
+    const isEditing = editingMessageId === message._id;
 
     return (
       <div
         key={message._id}
-        className={`flex ${isOwnMessage ? 'justify-end' : 'justify-start'} mb-6`}
+        data-message-id={message._id}
+        className={`group flex ${isOwnMessage ? 'justify-end' : 'justify-start'} mb-6`}
       >
         <div className={`flex max-w-xs lg:max-w-md ${isOwnMessage ? 'flex-row-reverse' : 'flex-row'}`}>
           {!isOwnMessage && (
@@ -358,23 +883,67 @@ const Messages: React.FC<MessagesProps> = ({ request, onClose }) => {
             )}
             
             <div
-              className={`rounded-2xl px-4 py-3 max-w-xs lg:max-w-md break-words shadow-lg ${
+              className={`rounded-2xl px-4 py-3 max-w-xs lg:max-w-md break-words shadow-lg transition-shadow ${
                 isOwnMessage
                   ? 'bg-gradient-to-r from-cyan-500 to-purple-500 text-white'
                   : 'bg-slate-700/50 backdrop-blur-sm text-white border border-slate-600/50'
-              }`}
+              } ${highlightedMessageId === message._id ? 'ring-2 ring-yellow-400' : ''}`}
             >
-              {message.messageType === 'text' && (
+              {message.replyTo && !message.deletedAt && (
+                <button
+                  type="button"
+                  onClick={() => jumpToMessage(message.replyTo!._id)}
+                  className="mb-2 block w-full text-left border-l-2 border-white/50 bg-black/20 hover:bg-black/30 rounded px-2 py-1 text-xs"
+                >
+                  <span className="block font-medium">{message.replyTo.senderName || "Message"}</span>
+                  <span className="block opacity-75 truncate">{describeQuoted(message.replyTo)}</span>
+                </button>
+              )}
+
+              {message.deletedAt ? (
+                <p className="text-sm italic opacity-70">This message was deleted</p>
+              ) : isEditing ? (
+                <div className="flex flex-col gap-2">
+                  <Input
+                    value={editingContent}
+                    onChange={(e) => setEditingContent(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        handleSaveEdit();
+                      } else if (e.key === 'Escape') {
+                        cancelEditing();
+                      }
+                    }}
+                    className="bg-slate-900/40 border-white/20 text-white"
+                    autoFocus
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button size="sm" variant="ghost" onClick={cancelEditing} className="h-7 px-2 text-xs hover:bg-white/10">
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={handleSaveEdit}
+                      disabled={!editingContent.trim()}
+                      className="h-7 px-2 text-xs bg-white/20 hover:bg-white/30"
+                    >
+                      Save
+                    </Button>
+                  </div>
+                </div>
+              ) : message.messageType === 'text' && (
                 <p className="text-sm leading-relaxed">{message.content}</p>
               )}
               
-              {message.messageType === 'image' && (
+              {!message.deletedAt && message.messageType === 'image' && (
                 <div>
                   <img 
-                    src={message.content} 
+                    src={getFileSrc(message)} 
                     alt="Shared image" 
                     className="max-w-full rounded-lg cursor-pointer hover:scale-105 transition-transform"
-                    onClick={() => window.open(message.content, '_blank')}
+                    onClick={() => openAttachment(message)}
+                    onError={() => refreshAttachmentUrl(message)}
                   />
                   {message.fileName && (
                     <p className="text-xs mt-2 opacity-75">{message.fileName}</p>
@@ -382,7 +951,16 @@ const Messages: React.FC<MessagesProps> = ({ request, onClose }) => {
                 </div>
               )}
               
-              {message.messageType === 'file' && (
+              {!message.deletedAt && message.messageType === 'session' && message.sessionId && (
+                <SessionCard
+                  session={sessions[message.sessionId]}
+                  currentUserId={user?.id}
+                  canSchedule={request.status === 'in_progress'}
+                  onChange={updateSession}
+                />
+              )}
+
+              {!message.deletedAt && message.messageType === 'file' && (
                 <div className="flex items-center space-x-3">
                   <div className="p-2 bg-white/10 rounded-lg">
                     <FileText className="h-5 w-5" />
@@ -394,7 +972,7 @@ const Messages: React.FC<MessagesProps> = ({ request, onClose }) => {
                   <Button
                     size="sm"
                     variant="ghost"
-                    onClick={() => window.open(message.content, '_blank')}
+                    onClick={() => openAttachment(message)}
                     className="p-2 hover:bg-white/10"
                   >
                     <Download className="h-4 w-4" />
@@ -403,22 +981,108 @@ const Messages: React.FC<MessagesProps> = ({ request, onClose }) => {
               )}
             </div>
             
+            {!message.deletedAt && message.reactions && message.reactions.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {message.reactions.map(reaction => {
+                  const reactedByMe = reaction.userIds.includes(user?.id ?? "");
+                  return (
+                    <button
+                      key={reaction.emoji}
+                      type="button"
+                      onClick={() => toggleReaction(message, reaction.emoji)}
+                      className={`flex items-center gap-1 rounded-full px-2 py-0.5 text-xs border ${
+                        reactedByMe
+                          ? 'bg-purple-500/30 border-purple-400 text-white'
+                          : 'bg-slate-700/50 border-slate-600/50 text-gray-300 hover:bg-slate-600/50'
+                      }`}
+                    >
+                      <span>{reaction.emoji}</span>
+                      <span>{reaction.userIds.length}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
             <div className="flex items-center gap-2 mt-2">
+              {!message.deletedAt && !isEditing && (
+                <div
+                  className={`relative flex items-center gap-1 transition-opacity ${
+                    reactionPickerFor === message._id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                  }`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => startReply(message)}
+                    className="p-1 text-gray-400 hover:text-white"
+                    title="Reply"
+                  >
+                    <Reply className="w-3 h-3" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setReactionPickerFor(current => (current === message._id ? null : message._id))}
+                    className="p-1 text-gray-400 hover:text-white"
+                    title="React"
+                  >
+                    <SmilePlus className="w-3 h-3" />
+                  </button>
+                  {reactionPickerFor === message._id && (
+                    <div
+                      className={`absolute bottom-6 ${isOwnMessage ? 'right-0' : 'left-0'} z-10 flex gap-1 rounded-full border border-slate-600/50 bg-slate-800 px-2 py-1 shadow-lg`}
+                    >
+                      {QUICK_REACTIONS.map(emoji => (
+                        <button
+                          key={emoji}
+                          type="button"
+                          onClick={() => toggleReaction(message, emoji)}
+                          className="text-lg hover:scale-125 transition-transform"
+                        >
+                          {emoji}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {canChangeMessage(message) && message.messageType === 'text' && (
+                    <button
+                      type="button"
+                      onClick={() => startEditing(message)}
+                      className="p-1 text-gray-400 hover:text-white"
+                      title="Edit message"
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </button>
+                  )}
+                  {canChangeMessage(message) && (
+                    <button
+                      type="button"
+                      onClick={() => handleDeleteMessage(message)}
+                      className="p-1 text-gray-400 hover:text-red-400"
+                      title="Delete message"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+              )}
               <span className="text-xs text-gray-400">{messageTime}</span>
+              {message.editedAt && !message.deletedAt && (
+                <span className="text-xs italic text-gray-500" title={`Edited at ${formatTime(message.editedAt)}`}>
+                  edited
+                </span>
+              )}
               {isOwnMessage && (
                 <div className="flex items-center gap-1">
-                  {message.isRead ? (
-                    <div className="w-4 h-4 text-blue-400">
-                      <svg viewBox="0 0 24 24" fill="currentColor">
-                        <path d="M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z"/>
-                      </svg>
+                  {seenReceipt ? (
+                    <div
+                      className="flex items-center gap-1 text-blue-400"
+                      title={`Seen at ${formatTime(seenReceipt.readAt)}`}
+                    >
+                      <CheckCheck className="w-4 h-4" />
+                      <span className="text-xs">Seen</span>
                     </div>
                   ) : (
-                    <div className="w-4 h-4 text-gray-400">
-                      <svg viewBox="0 0 24 24" fill="currentColor">
-                        <path d="M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z"/>
-                      </svg>
-                    </div>
+                    <Check className="w-4 h-4 text-gray-400" />
                   )}
                 </div>
               )}
@@ -442,15 +1106,17 @@ const Messages: React.FC<MessagesProps> = ({ request, onClose }) => {
               </AvatarFallback>
             </Avatar>
             <div className={`absolute -bottom-1 -right-1 w-4 h-4 rounded-full border-2 border-slate-900 ${
-              isConnected ? 'bg-green-500' : 'bg-red-500'
+              otherPresence?.online ? 'bg-green-500' : 'bg-gray-500'
             }`}></div>
           </div>
           <div>
             <h3 className="font-bold text-white text-lg">{otherUserName}</h3>
             <div className="flex items-center space-x-2">
-              <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500' : 'bg-red-500'}`}></div>
+              <div className={`w-2 h-2 rounded-full ${
+                !isConnected ? 'bg-red-500' : otherPresence?.online ? 'bg-green-500' : 'bg-gray-500'
+              }`}></div>
               <span className="text-sm text-gray-300">
-                {isConnected ? 'Online' : 'Connecting...'}
+                {isConnected ? (formatLastSeen(otherPresence) ?? '') : 'Connecting...'}
               </span>
               {!isConnected && (
                 <div className="w-3 h-3 border-2 border-gray-400 border-t-transparent rounded-full animate-spin"></div>
@@ -460,6 +1126,26 @@ const Messages: React.FC<MessagesProps> = ({ request, onClose }) => {
         </div>
         
         <div className="flex items-center space-x-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => (showSearch ? closeSearch() : setShowSearch(true))}
+            className={`hover:text-white hover:bg-slate-700/50 ${showSearch ? 'text-white' : 'text-slate-400'}`}
+            title="Search messages"
+          >
+            <Search className="h-4 w-4" />
+          </Button>
+          {request.status === 'in_progress' && request.helper && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowScheduleDialog(true)}
+              className="text-slate-400 hover:text-white hover:bg-slate-700/50"
+              title="Schedule a session"
+            >
+              <CalendarPlus className="h-4 w-4" />
+            </Button>
+          )}
           <Button variant="ghost" size="sm" className="text-slate-400 hover:text-white hover:bg-slate-700/50">
             <Phone className="h-4 w-4" />
           </Button>
@@ -475,8 +1161,53 @@ const Messages: React.FC<MessagesProps> = ({ request, onClose }) => {
         </div>
       </div>
 
+      {/* Conversation search */}
+      {showSearch && (
+        <div className="p-3 border-b border-slate-700/50 bg-slate-800/30 backdrop-blur-sm">
+          <form onSubmit={handleSearch} className="flex items-center space-x-2">
+            <Input
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search this conversation..."
+              className="bg-slate-700/50 border-slate-600/50 text-white placeholder-gray-400"
+              autoFocus
+            />
+            <Button type="submit" size="sm" disabled={searching || !searchQuery.trim()}>
+              {searching ? "Searching..." : "Search"}
+            </Button>
+          </form>
+
+          {searchResults && (
+            <div className="mt-2 max-h-60 overflow-y-auto rounded-lg border border-slate-600/50 bg-slate-800/90">
+              {searchResults.length === 0 ? (
+                <p className="px-3 py-2 text-sm text-gray-400">No messages found</p>
+              ) : (
+                searchResults.map(result => (
+                  <button
+                    key={result._id}
+                    type="button"
+                    onClick={() => jumpToMessage(result._id)}
+                    className="w-full text-left px-3 py-2 hover:bg-slate-700/50 border-b border-slate-700/50 last:border-b-0"
+                  >
+                    <div className="flex items-center justify-between text-xs text-gray-400">
+                      <span className="text-purple-300 font-medium">{result.senderName}</span>
+                      <span>{new Date(result.createdAt).toLocaleString()}</span>
+                    </div>
+                    <p className="text-sm text-white truncate">{result.content}</p>
+                  </button>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Messages Area */}
-      <div className="flex-1 overflow-y-auto p-6 space-y-4 bg-gradient-to-b from-transparent to-slate-900/20">
+      <div
+        ref={messagesContainerRef}
+        onScroll={handleMessagesScroll}
+        className="relative flex-1 overflow-y-auto p-6 space-y-4 bg-gradient-to-b from-transparent to-slate-900/20"
+      >
         {loading ? (
           <div className="flex items-center justify-center py-12">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-400"></div>
@@ -491,7 +1222,7 @@ const Messages: React.FC<MessagesProps> = ({ request, onClose }) => {
               </Button>
             </div>
           </div>
-        ) : messages.length === 0 ? (
+        ) : messages.length === 0 && unsentEntries.length === 0 ? (
           <div className="flex items-center justify-center py-12">
             <div className="text-center">
               <div className="w-16 h-16 bg-gradient-to-r from-purple-500/20 to-pink-500/20 rounded-full flex items-center justify-center mx-auto mb-4">
@@ -503,7 +1234,14 @@ const Messages: React.FC<MessagesProps> = ({ request, onClose }) => {
           </div>
         ) : (
           <>
+            {loadingOlder && (
+              <div className="flex justify-center py-2">
+                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-purple-400"></div>
+              </div>
+            )}
+
             {messages.map(renderMessage)}
+            {!hasMoreAfter && unsentEntries.map(renderOutboxEntry)}
             
             {typingUsers.length > 0 && (
               <div className="flex justify-start mb-4">
@@ -523,10 +1261,42 @@ const Messages: React.FC<MessagesProps> = ({ request, onClose }) => {
         )}
         
         <div ref={messagesEndRef} />
+
+        {hasMoreAfter && !loading && (
+          <div className="sticky bottom-0 flex justify-center">
+            <Button
+              size="sm"
+              onClick={loadMessages}
+              className="rounded-full bg-purple-600 hover:bg-purple-700 text-white shadow-lg"
+            >
+              <ArrowDown className="h-4 w-4 mr-1" />
+              Jump to latest
+            </Button>
+          </div>
+        )}
       </div>
 
       {/* Input Area - Creative Design */}
       <div className="p-4 border-t border-slate-700/50 bg-slate-800/30 backdrop-blur-sm">
+        {replyingTo && (
+          <div className="flex items-center justify-between mb-3 px-3 py-2 rounded-lg bg-slate-700/40 border-l-2 border-purple-400">
+            <div className="min-w-0">
+              <p className="text-xs text-purple-300 font-medium">
+                Replying to {replyingTo.senderId === user?.id ? "yourself" : replyingTo.senderName}
+              </p>
+              <p className="text-sm text-gray-300 truncate">{describeQuoted(replyingTo)}</p>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setReplyingTo(null)}
+              className="text-slate-400 hover:text-white"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+
         <div className="flex items-center space-x-3">
           <Button
             variant="ghost"
@@ -547,15 +1317,15 @@ const Messages: React.FC<MessagesProps> = ({ request, onClose }) => {
               value={newMessage}
               onChange={handleTyping}
               onKeyPress={handleKeyPress}
-              placeholder={isConnected ? `Message ${otherUserName}...` : "Connecting to server..."}
+              placeholder={isConnected ? `Message ${otherUserName}...` : `Message ${otherUserName} (sent once you're back online)...`}
               className="bg-slate-700/50 border-slate-600/50 text-white placeholder-gray-400 rounded-full px-4 py-3 backdrop-blur-sm focus:ring-2 focus:ring-purple-500/50 focus:border-purple-500/50"
-              disabled={uploading || !isConnected}
+              disabled={uploading}
             />
           </div>
           
           <Button
             onClick={handleSendMessage}
-            disabled={!newMessage.trim() || uploading || !isConnected}
+            disabled={!newMessage.trim() || uploading}
             className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white rounded-full p-3 transition-all duration-200 shadow-lg hover:shadow-purple-500/25"
           >
             <Send className="h-5 w-5" />
@@ -576,12 +1346,19 @@ const Messages: React.FC<MessagesProps> = ({ request, onClose }) => {
             <div className="inline-flex items-center space-x-2 bg-yellow-500/20 border border-yellow-500/30 rounded-full px-4 py-2">
               <div className="w-2 h-2 bg-yellow-400 rounded-full animate-pulse"></div>
               <p className="text-xs text-yellow-300 font-medium">
-                🔄 Connecting to chat server... Please wait
+                🔄 Connecting to chat server... Messages you send will be delivered once connected
               </p>
             </div>
           </div>
         )}
       </div>
+
+      <ScheduleSessionDialog
+        isOpen={showScheduleDialog}
+        onClose={() => setShowScheduleDialog(false)}
+        request={request}
+        otherUserName={otherUserName}
+      />
     </div>
   );
 };
@@ -24,6 +24,8 @@ const Navigation = () => {
     { href: "/accept-request", label: "Accept Request", type: "route" },
     { href: "/my-requests", label: "My Requests", type: "route" },
     { href: "/my-help-requests", label: "My Help Requests", type: "route" },
+    { href: "/profile", label: "Profile", type: "route" },
+    { href: "/settings/notifications", label: "Alerts", type: "route" },
   ];
 
   // Handle scroll effect
@@ -1,16 +1,35 @@
 import React, { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
 import { useAuth } from "../contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "@/hooks/use-toast";
-import { Bell, MessageCircle, CheckCircle, X, File } from "lucide-react";
+import { Bell, MessageCircle, CheckCircle, X, File, Undo2, Sparkles, Send, AlertTriangle, CalendarClock, CalendarX } from "lucide-react";
 import socketService from "../services/socket";
 import apiService from "../services/api";
 
 interface Notification {
   id: string;
-  type: 'message_received' | 'file_received' | 'request_accepted' | 'request_completed';
+  type:
+    | 'message_received'
+    | 'file_received'
+    | 'request_accepted'
+    | 'completion_requested'
+    | 'request_completed'
+    | 'request_disputed'
+    | 'request_cancelled'
+    | 'request_withdrawn'
+    | 'request_reopened'
+    | 'request_match'
+    | 'proposal_received'
+    | 'proposal_accepted'
+    | 'proposal_declined'
+    | 'session_proposed'
+    | 'session_scheduled'
+    | 'session_declined'
+    | 'session_cancelled'
+    | 'session_reminder';
   message: string;
   requestId: string;
   requestTitle?: string;
@@ -24,6 +43,7 @@ interface NotificationSystemProps {
 
 const NotificationSystem: React.FC<NotificationSystemProps> = ({ onOpenChat }) => {
   const { user } = useAuth();
+  const navigate = useNavigate();
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
   const [isOpen, setIsOpen] = useState(false);
@@ -31,7 +51,7 @@ const NotificationSystem: React.FC<NotificationSystemProps> = ({ onOpenChat }) =
   useEffect(() => {
     if (user) {
       setupNotificationListeners();
-      loadUnreadCount();
+      loadNotifications();
     }
 
     return () => {
@@ -43,18 +63,21 @@ const NotificationSystem: React.FC<NotificationSystemProps> = ({ onOpenChat }) =
     socketService.onNotification((notification) => {
       console.log("🔔 Received notification:", notification);
       
-      const newNotification: Notification = {
-        id: `notification_${Date.now()}`,
-        type: notification.type,
-        message: notification.message,
-        requestId: notification.requestId,
-        requestTitle: notification.requestTitle,
-        timestamp: new Date(),
-        isRead: false
-      };
+      // Notifications are persisted server-side; only keep the ones that have an id
+      if (notification.id) {
+        const newNotification: Notification = {
+          id: notification.id,
+          type: notification.type,
+          message: notification.message,
+          requestId: notification.requestId,
+          requestTitle: notification.requestTitle,
+          timestamp: new Date(notification.createdAt || notification.timestamp),
+          isRead: false
+        };
 
-      setNotifications(prev => [newNotification, ...prev]);
-      setUnreadCount(prev => prev + 1);
+        setNotifications(prev => [newNotification, ...prev.filter(n => n.id !== newNotification.id)]);
+        setUnreadCount(prev => prev + 1);
+      }
 
       // Show toast notification
       toast({
@@ -65,17 +88,37 @@ const NotificationSystem: React.FC<NotificationSystemProps> = ({ onOpenChat }) =
             variant="outline"
             size="sm"
             onClick={() => {
-              onOpenChat(notification.requestId);
+              openNotification(notification);
               setIsOpen(false);
             }}
           >
-            Open Chat
+            {getActionLabel(notification.type)}
           </Button>
         ) : undefined,
       });
     });
   };
 
+  // Notifications about requests without a conversation yet (or anymore for
+  // the user) open the relevant page instead of a chat
+  const NOTIFICATION_PAGES: Record<string, { href: string; label: string }> = {
+    request_match: { href: '/accept-request', label: 'View Requests' },
+    proposal_received: { href: '/my-requests', label: 'View Proposals' },
+    proposal_declined: { href: '/accept-request', label: 'View Requests' },
+    completion_requested: { href: '/my-requests', label: 'Review Completion' },
+  };
+
+  const openNotification = (notification: { type: string; requestId: string }) => {
+    const page = NOTIFICATION_PAGES[notification.type];
+    if (page) {
+      navigate(page.href);
+    } else {
+      onOpenChat(notification.requestId);
+    }
+  };
+
+  const getActionLabel = (type: string) => NOTIFICATION_PAGES[type]?.label || 'Open Chat';
+
   const getNotificationTitle = (type: string) => {
     switch (type) {
       case 'message_received':
@@ -84,8 +127,36 @@ const NotificationSystem: React.FC<NotificationSystemProps> = ({ onOpenChat }) =
         return 'New File';
       case 'request_accepted':
         return 'Request Accepted';
+      case 'completion_requested':
+        return 'Please Confirm Completion';
       case 'request_completed':
         return 'Request Completed';
+      case 'request_disputed':
+        return 'Completion Disputed';
+      case 'request_cancelled':
+        return 'Request Cancelled';
+      case 'request_withdrawn':
+        return 'Helper Withdrew';
+      case 'request_reopened':
+        return 'Request Reopened';
+      case 'request_match':
+        return 'New Matching Request';
+      case 'proposal_received':
+        return 'New Proposal';
+      case 'proposal_accepted':
+        return 'Proposal Accepted';
+      case 'proposal_declined':
+        return 'Proposal Not Chosen';
+      case 'session_proposed':
+        return 'Session Times Proposed';
+      case 'session_scheduled':
+        return 'Session Scheduled';
+      case 'session_declined':
+        return 'Session Times Declined';
+      case 'session_cancelled':
+        return 'Session Cancelled';
+      case 'session_reminder':
+        return 'Session Starting Soon';
       default:
         return 'Notification';
     }
@@ -99,23 +170,59 @@ const NotificationSystem: React.FC<NotificationSystemProps> = ({ onOpenChat }) =
         return <File className="h-4 w-4" />;
       case 'request_accepted':
         return <CheckCircle className="h-4 w-4" />;
+      case 'completion_requested':
       case 'request_completed':
         return <CheckCircle className="h-4 w-4" />;
+      case 'request_disputed':
+        return <AlertTriangle className="h-4 w-4" />;
+      case 'request_cancelled':
+      case 'request_withdrawn':
+      case 'request_reopened':
+        return <Undo2 className="h-4 w-4" />;
+      case 'request_match':
+        return <Sparkles className="h-4 w-4" />;
+      case 'proposal_received':
+        return <Send className="h-4 w-4" />;
+      case 'proposal_accepted':
+        return <CheckCircle className="h-4 w-4" />;
+      case 'proposal_declined':
+        return <Undo2 className="h-4 w-4" />;
+      case 'session_proposed':
+      case 'session_scheduled':
+      case 'session_reminder':
+        return <CalendarClock className="h-4 w-4" />;
+      case 'session_declined':
+      case 'session_cancelled':
+        return <CalendarX className="h-4 w-4" />;
       default:
         return <Bell className="h-4 w-4" />;
     }
   };
 
-  const loadUnreadCount = async () => {
+  const loadNotifications = async () => {
     try {
-      const response = await apiService.getUnreadMessageCount();
-      setUnreadCount(response.count);
+      const response = await apiService.getNotifications();
+      setNotifications(
+        response.notifications.map((notification) => ({
+          id: notification.id,
+          type: notification.type,
+          message: notification.message,
+          requestId: notification.requestId,
+          requestTitle: notification.requestTitle,
+          timestamp: new Date(notification.createdAt),
+          isRead: notification.isRead
+        }))
+      );
+      setUnreadCount(response.unreadCount);
     } catch (error) {
-      console.error("Failed to load unread count:", error);
+      console.error("Failed to load notifications:", error);
     }
   };
 
   const markAsRead = async (notificationId: string) => {
+    const notification = notifications.find(n => n.id === notificationId);
+    if (!notification || notification.isRead) return;
+
     setNotifications(prev => 
       prev.map(notif => 
         notif.id === notificationId 
@@ -124,11 +231,17 @@ const NotificationSystem: React.FC<NotificationSystemProps> = ({ onOpenChat }) =
       )
     );
     setUnreadCount(prev => Math.max(0, prev - 1));
+
+    try {
+      await apiService.markNotificationAsRead(notificationId);
+    } catch (error) {
+      console.error("Failed to mark notification as read:", error);
+    }
   };
 
   const markAllAsRead = async () => {
     try {
-      await apiService.markAllMessagesAsRead();
+      await apiService.markAllNotificationsAsRead();
       setNotifications(prev => 
         prev.map(notif => ({ ...notif, isRead: true }))
       );
@@ -138,12 +251,18 @@ const NotificationSystem: React.FC<NotificationSystemProps> = ({ onOpenChat }) =
     }
   };
 
-  const removeNotification = (notificationId: string) => {
+  const removeNotification = async (notificationId: string) => {
     setNotifications(prev => prev.filter(notif => notif.id !== notificationId));
     const notification = notifications.find(n => n.id === notificationId);
     if (notification && !notification.isRead) {
       setUnreadCount(prev => Math.max(0, prev - 1));
     }
+
+    try {
+      await apiService.deleteNotification(notificationId);
+    } catch (error) {
+      console.error("Failed to delete notification:", error);
+    }
   };
 
   const formatTime = (date: Date) => {
@@ -258,13 +377,13 @@ const NotificationSystem: React.FC<NotificationSystemProps> = ({ onOpenChat }) =
                                 variant="outline"
                                 size="sm"
                                 onClick={() => {
-                                  onOpenChat(notification.requestId);
+                                  openNotification(notification);
                                   markAsRead(notification.id);
                                   setIsOpen(false);
                                 }}
                                 className="text-xs bg-cyan-500/10 border-cyan-500/20 text-cyan-400 hover:bg-cyan-500/20"
                               >
-                                Open Chat
+                                {getActionLabel(notification.type)}
                               </Button>
                               {!notification.isRead && (
                                 <Button
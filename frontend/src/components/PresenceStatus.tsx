@@ -0,0 +1,22 @@
+import React from "react";
+import { Presence, formatLastSeen } from "@/hooks/use-presence";
+
+interface PresenceStatusProps {
+  presence?: Presence;
+  className?: string;
+}
+
+// Green dot and "Online", or a grey dot and when the user was last seen
+const PresenceStatus: React.FC<PresenceStatusProps> = ({ presence, className = "" }) => {
+  const label = formatLastSeen(presence);
+  if (!label) return null;
+
+  return (
+    <span className={`inline-flex items-center gap-1 text-xs text-gray-400 ${className}`}>
+      <span className={`w-2 h-2 rounded-full ${presence?.online ? "bg-green-500" : "bg-gray-500"}`} />
+      {label}
+    </span>
+  );
+};
+
+export default PresenceStatus;
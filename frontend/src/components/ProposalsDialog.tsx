@@ -0,0 +1,236 @@
+import React, { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { useCustomToast } from "@/hooks/use-custom-toast";
+import { Clock, DollarSign, Star } from "lucide-react";
+import apiService from "../services/api";
+import socketService from "../services/socket";
+
+interface Proposal {
+  _id: string;
+  helper: {
+    _id: string;
+    name: string;
+    picture?: string;
+    rating: number;
+    totalReviews: number;
+    skills?: string[];
+  };
+  message: string;
+  price?: number;
+  availability?: string;
+  status: "pending" | "accepted" | "declined" | "withdrawn";
+  createdAt: string;
+}
+
+interface ProposalsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  request: {
+    _id: string;
+    title: string;
+    budgetMin?: number;
+    budgetMax?: number;
+  } | null;
+  onProposalAccepted?: (requestId: string) => void;
+}
+
+const STATUS_ORDER: Record<Proposal["status"], number> = {
+  pending: 0,
+  accepted: 1,
+  declined: 2,
+  withdrawn: 3,
+};
+
+const ProposalsDialog: React.FC<ProposalsDialogProps> = ({
+  isOpen,
+  onClose,
+  request,
+  onProposalAccepted,
+}) => {
+  const { showSuccessNotification, showErrorNotification } = useCustomToast();
+  const [proposals, setProposals] = useState<Proposal[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [acceptingId, setAcceptingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !request) return;
+
+    loadProposals(request._id);
+
+    // Keep the list current while the requester is comparing
+    const handleReceived = (data: { requestId: string; proposal: Proposal }) => {
+      if (data.requestId !== request._id) return;
+      setProposals((prev) => [...prev.filter((p) => p._id !== data.proposal._id), data.proposal]);
+    };
+    const handleWithdrawn = (data: { requestId: string; proposalId: string }) => {
+      if (data.requestId !== request._id) return;
+      setProposals((prev) =>
+        prev.map((p) => (p._id === data.proposalId ? { ...p, status: "withdrawn" } : p))
+      );
+    };
+
+    socketService.socket?.on("proposal_received", handleReceived);
+    socketService.socket?.on("proposal_withdrawn", handleWithdrawn);
+    return () => {
+      socketService.socket?.off("proposal_received", handleReceived);
+      socketService.socket?.off("proposal_withdrawn", handleWithdrawn);
+    };
+  }, [isOpen, request?._id]);
+
+  const loadProposals = async (requestId: string) => {
+    try {
+      setLoading(true);
+      setProposals(await apiService.getProposals(requestId));
+    } catch (error) {
+      console.error("Failed to load proposals:", error);
+      showErrorNotification("Error", error.message || "Failed to load proposals");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAccept = async (proposal: Proposal) => {
+    if (!request) return;
+    if (!window.confirm(`Choose ${proposal.helper.name} to help with "${request.title}"? The other proposals will be declined.`)) return;
+
+    try {
+      setAcceptingId(proposal._id);
+      await apiService.acceptProposal(proposal._id);
+      showSuccessNotification("Helper Chosen", `${proposal.helper.name} is now helping with "${request.title}".`);
+      onProposalAccepted?.(request._id);
+      onClose();
+    } catch (error) {
+      console.error("Failed to accept proposal:", error);
+      showErrorNotification("Error", error.message || "Failed to accept proposal");
+    } finally {
+      setAcceptingId(null);
+    }
+  };
+
+  // How a proposed price compares with the request's budget range
+  const describePrice = (price?: number) => {
+    if (price === undefined || price === null) return "No price given";
+    if (request?.budgetMax !== undefined && request.budgetMax !== null && price > request.budgetMax) {
+      return `$${price} · above budget`;
+    }
+    if (request?.budgetMin !== undefined && request.budgetMin !== null && price < request.budgetMin) {
+      return `$${price} · below budget`;
+    }
+    if (request?.budgetMin || request?.budgetMax) return `$${price} · within budget`;
+    return `$${price}`;
+  };
+
+  const sortedProposals = [...proposals].sort(
+    (a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || a.createdAt.localeCompare(b.createdAt)
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto bg-slate-800 border-slate-700 text-white">
+        <DialogHeader>
+          <DialogTitle className="text-white">Proposals</DialogTitle>
+          {request && (
+            <DialogDescription className="text-slate-300">
+              Compare offers for "{request.title}" and choose a helper
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-400 mx-auto"></div>
+          </div>
+        ) : sortedProposals.length === 0 ? (
+          <p className="text-center text-slate-400 py-8">
+            No proposals yet. Helpers' offers will appear here.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {sortedProposals.map((proposal) => (
+              <div
+                key={proposal._id}
+                className={`rounded-lg border border-slate-700 bg-slate-900 p-4 ${
+                  proposal.status === "pending" ? "" : "opacity-60"
+                }`}
+              >
+                <div className="flex items-start gap-3">
+                  <Avatar className="h-10 w-10">
+                    <AvatarImage src={proposal.helper.picture} />
+                    <AvatarFallback>{proposal.helper.name?.charAt(0) || "?"}</AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <a
+                        href={`/users/${proposal.helper._id}`}
+                        className="font-medium hover:text-cyan-400 underline-offset-2 hover:underline"
+                      >
+                        {proposal.helper.name}
+                      </a>
+                      {proposal.status !== "pending" && (
+                        <Badge variant="outline" className="text-xs capitalize">
+                          {proposal.status}
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1 text-xs text-slate-400">
+                      <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                      {proposal.helper.totalReviews > 0
+                        ? `${proposal.helper.rating.toFixed(1)} (${proposal.helper.totalReviews})`
+                        : "No reviews yet"}
+                    </div>
+
+                    <p className="text-sm text-slate-300 mt-2 whitespace-pre-wrap">{proposal.message}</p>
+
+                    <div className="flex flex-wrap gap-4 mt-3 text-sm text-slate-300">
+                      <span className="flex items-center gap-1">
+                        <DollarSign className="h-4 w-4" />
+                        {describePrice(proposal.price)}
+                      </span>
+                      {proposal.availability && (
+                        <span className="flex items-center gap-1">
+                          <Clock className="h-4 w-4" />
+                          {proposal.availability}
+                        </span>
+                      )}
+                    </div>
+
+                    {proposal.helper.skills && proposal.helper.skills.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {proposal.helper.skills.map((skill) => (
+                          <Badge key={skill} variant="secondary" className="text-xs">
+                            {skill}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+
+                    {proposal.status === "pending" && (
+                      <Button
+                        onClick={() => handleAccept(proposal)}
+                        disabled={acceptingId !== null}
+                        className="mt-3 bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600"
+                      >
+                        {acceptingId === proposal._id ? "Choosing..." : `Choose ${proposal.helper.name}`}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProposalsDialog;
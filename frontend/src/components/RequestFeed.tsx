@@ -22,7 +22,7 @@ interface HelpRequest {
   isRemote: boolean;
   budgetMin?: number;
   budgetMax?: number;
-  status: "open" | "in_progress" | "completed";
+  status: "open" | "in_progress" | "pending_confirmation" | "completed" | "disputed" | "cancelled";
   createdAt: string;
 }
 
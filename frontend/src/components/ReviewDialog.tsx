@@ -0,0 +1,134 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useCustomToast } from "@/hooks/use-custom-toast";
+import { Star } from "lucide-react";
+import apiService from "../services/api";
+
+interface ReviewDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  requestId: string | null;
+  requestTitle?: string;
+  revieweeName?: string;
+  onReviewSubmitted?: (requestId: string) => void;
+}
+
+const ReviewDialog: React.FC<ReviewDialogProps> = ({
+  isOpen,
+  onClose,
+  requestId,
+  requestTitle,
+  revieweeName,
+  onReviewSubmitted,
+}) => {
+  const { showSuccessNotification, showErrorNotification } = useCustomToast();
+  const [rating, setRating] = useState(0);
+  const [hoverRating, setHoverRating] = useState(0);
+  const [comment, setComment] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleClose = () => {
+    setRating(0);
+    setHoverRating(0);
+    setComment("");
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    if (!requestId || rating === 0) return;
+
+    try {
+      setSubmitting(true);
+      await apiService.createReview({
+        requestId,
+        rating,
+        comment: comment.trim(),
+      });
+
+      showSuccessNotification("Review Submitted", `Thanks for rating ${revieweeName || "your partner"}!`);
+      onReviewSubmitted?.(requestId);
+      handleClose();
+    } catch (error) {
+      console.error("Failed to submit review:", error);
+      showErrorNotification("Error", error.message || "Failed to submit review");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="bg-slate-800 border-slate-700 text-white">
+        <DialogHeader>
+          <DialogTitle className="text-white">
+            Rate {revieweeName || "your partner"}
+          </DialogTitle>
+          {requestTitle && (
+            <DialogDescription className="text-slate-300">
+              How did "{requestTitle}" go?
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex justify-center gap-2">
+            {[1, 2, 3, 4, 5].map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setRating(value)}
+                onMouseEnter={() => setHoverRating(value)}
+                onMouseLeave={() => setHoverRating(0)}
+                className="transition-transform hover:scale-110"
+              >
+                <Star
+                  className={`h-8 w-8 ${
+                    value <= (hoverRating || rating)
+                      ? "fill-yellow-400 text-yellow-400"
+                      : "text-slate-500"
+                  }`}
+                />
+              </button>
+            ))}
+          </div>
+          <div>
+            <label className="text-sm font-medium text-white">Comment (optional)</label>
+            <Textarea
+              className="mt-1 bg-slate-700 border-slate-600 text-white placeholder:text-slate-400 focus:border-cyan-400"
+              rows={4}
+              maxLength={1000}
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Share a few words about your experience..."
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button
+              onClick={handleSubmit}
+              disabled={rating === 0 || submitting}
+              className="flex-1 bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600"
+            >
+              {submitting ? "Submitting..." : "Submit Review"}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleClose}
+              className="border-slate-600 text-white hover:bg-slate-700"
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReviewDialog;
@@ -0,0 +1,194 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useCustomToast } from "@/hooks/use-custom-toast";
+import { CalendarPlus, Plus, X } from "lucide-react";
+import apiService from "../services/api";
+
+interface ScheduleSessionDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  request: {
+    _id: string;
+    title: string;
+  };
+  otherUserName: string;
+}
+
+const MAX_SLOTS = 3;
+const DURATION_OPTIONS = [30, 60, 90, 120];
+
+interface SlotDraft {
+  // Value of a datetime-local input, in the browser's time zone
+  start: string;
+  durationMinutes: number;
+}
+
+const emptySlot = (): SlotDraft => ({ start: "", durationMinutes: 60 });
+
+const formatDuration = (minutes: number) =>
+  minutes < 60 ? `${minutes} min` : `${minutes / 60} hour${minutes === 60 ? "" : "s"}`;
+
+const ScheduleSessionDialog: React.FC<ScheduleSessionDialogProps> = ({
+  isOpen,
+  onClose,
+  request,
+  otherUserName,
+}) => {
+  const { showSuccessNotification, showErrorNotification } = useCustomToast();
+  const [slots, setSlots] = useState<SlotDraft[]>([emptySlot()]);
+  const [note, setNote] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleClose = () => {
+    setSlots([emptySlot()]);
+    setNote("");
+    onClose();
+  };
+
+  const updateSlot = (index: number, changes: Partial<SlotDraft>) => {
+    setSlots((prev) => prev.map((slot, i) => (i === index ? { ...slot, ...changes } : slot)));
+  };
+
+  const filledSlots = slots.filter((slot) => slot.start);
+
+  const handleSubmit = async () => {
+    if (filledSlots.length === 0) return;
+
+    try {
+      setSubmitting(true);
+      await apiService.proposeSession({
+        requestId: request._id,
+        slots: filledSlots.map((slot) => {
+          const start = new Date(slot.start);
+          return {
+            start: start.toISOString(),
+            end: new Date(start.getTime() + slot.durationMinutes * 60 * 1000).toISOString(),
+          };
+        }),
+        note: note.trim() || undefined,
+      });
+
+      showSuccessNotification("Times Proposed", `${otherUserName} can pick one from the chat.`);
+      handleClose();
+    } catch (error) {
+      console.error("Failed to propose session:", error);
+      showErrorNotification("Error", error.message || "Failed to propose session");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="bg-slate-800 border-slate-700 text-white">
+        <DialogHeader>
+          <DialogTitle className="text-white">Schedule a Session</DialogTitle>
+          <DialogDescription className="text-slate-300">
+            Suggest up to {MAX_SLOTS} times to meet about "{request.title}"
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {slots.map((slot, index) => (
+            <div key={index} className="flex items-end gap-2">
+              <div className="flex-1 space-y-2">
+                <Label className="text-white">Option {index + 1}</Label>
+                <Input
+                  type="datetime-local"
+                  value={slot.start}
+                  onChange={(e) => updateSlot(index, { start: e.target.value })}
+                  className="bg-slate-700 border-slate-600 text-white"
+                />
+              </div>
+              <Select
+                value={String(slot.durationMinutes)}
+                onValueChange={(value) => updateSlot(index, { durationMinutes: Number(value) })}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DURATION_OPTIONS.map((minutes) => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {formatDuration(minutes)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {slots.length > 1 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSlots((prev) => prev.filter((_, i) => i !== index))}
+                  className="text-slate-400 hover:text-white hover:bg-slate-700"
+                  title="Remove option"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+
+          {slots.length < MAX_SLOTS && (
+            <Button
+              variant="outline"
+              onClick={() => setSlots((prev) => [...prev, emptySlot()])}
+              className="border-slate-600 text-white hover:bg-slate-700"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add another time
+            </Button>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="session-note" className="text-white">Note</Label>
+            <Textarea
+              id="session-note"
+              value={note}
+              maxLength={500}
+              rows={2}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Optional, e.g. where to meet or what to prepare"
+              className="bg-slate-700 border-slate-600 text-white placeholder:text-slate-400 focus:border-cyan-400"
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              onClick={handleSubmit}
+              disabled={filledSlots.length === 0 || submitting}
+              className="flex-1 bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600"
+            >
+              <CalendarPlus className="h-4 w-4 mr-2" />
+              {submitting ? "Sending..." : "Propose Times"}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleClose}
+              className="border-slate-600 text-white hover:bg-slate-700"
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScheduleSessionDialog;
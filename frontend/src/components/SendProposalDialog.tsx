@@ -0,0 +1,154 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useCustomToast } from "@/hooks/use-custom-toast";
+import { Send } from "lucide-react";
+import apiService from "../services/api";
+
+interface SendProposalDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  request: {
+    _id: string;
+    title: string;
+    budgetMin?: number;
+    budgetMax?: number;
+    requester?: { name: string };
+  } | null;
+  onProposalSent?: (requestId: string) => void;
+}
+
+const SendProposalDialog: React.FC<SendProposalDialogProps> = ({
+  isOpen,
+  onClose,
+  request,
+  onProposalSent,
+}) => {
+  const { showSuccessNotification, showErrorNotification } = useCustomToast();
+  const [message, setMessage] = useState("");
+  const [price, setPrice] = useState("");
+  const [availability, setAvailability] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleClose = () => {
+    setMessage("");
+    setPrice("");
+    setAvailability("");
+    onClose();
+  };
+
+  const budgetHint = () => {
+    if (!request?.budgetMin && !request?.budgetMax) return "The requester didn't set a budget.";
+    if (request.budgetMin && request.budgetMax) return `Budget: $${request.budgetMin} - $${request.budgetMax}`;
+    if (request.budgetMin) return `Budget: from $${request.budgetMin}`;
+    return `Budget: up to $${request.budgetMax}`;
+  };
+
+  const handleSubmit = async () => {
+    if (!request || !message.trim()) return;
+
+    try {
+      setSubmitting(true);
+      await apiService.submitProposal({
+        requestId: request._id,
+        message: message.trim(),
+        price: price !== "" ? Number(price) : undefined,
+        availability: availability.trim() || undefined,
+      });
+
+      showSuccessNotification("Proposal Sent", `${request.requester?.name || "The requester"} will let you know if they choose you.`);
+      onProposalSent?.(request._id);
+      handleClose();
+    } catch (error) {
+      console.error("Failed to send proposal:", error);
+      showErrorNotification("Error", error.message || "Failed to send proposal");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="bg-slate-800 border-slate-700 text-white">
+        <DialogHeader>
+          <DialogTitle className="text-white">Send a Proposal</DialogTitle>
+          {request && (
+            <DialogDescription className="text-slate-300">
+              Offer to help with "{request.title}"
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="proposal-message" className="text-white">Message</Label>
+            <Textarea
+              id="proposal-message"
+              value={message}
+              maxLength={1000}
+              rows={4}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Introduce yourself and explain how you'd help..."
+              className="bg-slate-700 border-slate-600 text-white placeholder:text-slate-400 focus:border-cyan-400"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="proposal-price" className="text-white">Your price ($)</Label>
+              <Input
+                id="proposal-price"
+                type="number"
+                min={0}
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                placeholder="Optional"
+                className="bg-slate-700 border-slate-600 text-white placeholder:text-slate-400 focus:border-cyan-400"
+              />
+              <p className="text-xs text-slate-400">{budgetHint()}</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="proposal-availability" className="text-white">Availability</Label>
+              <Input
+                id="proposal-availability"
+                value={availability}
+                maxLength={200}
+                onChange={(e) => setAvailability(e.target.value)}
+                placeholder="e.g. Weekday evenings"
+                className="bg-slate-700 border-slate-600 text-white placeholder:text-slate-400 focus:border-cyan-400"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              onClick={handleSubmit}
+              disabled={!message.trim() || submitting}
+              className="flex-1 bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600"
+            >
+              <Send className="h-4 w-4 mr-2" />
+              {submitting ? "Sending..." : "Send Proposal"}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleClose}
+              className="border-slate-600 text-white hover:bg-slate-700"
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SendProposalDialog;
@@ -0,0 +1,150 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CalendarCheck, CalendarClock, CalendarX } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import apiService from "../services/api";
+
+export interface SessionSlot {
+  _id: string;
+  start: string;
+  end: string;
+}
+
+export interface Session {
+  _id: string;
+  request: string;
+  proposedBy: {
+    _id: string;
+    name: string;
+    picture?: string;
+  };
+  slots: SessionSlot[];
+  note?: string;
+  status: "proposed" | "scheduled" | "declined" | "cancelled";
+  scheduledSlot?: SessionSlot;
+}
+
+interface SessionCardProps {
+  session?: Session;
+  currentUserId?: string;
+  // Sessions can only be accepted while the request is in progress
+  canSchedule: boolean;
+  onChange: (session: Session) => void;
+}
+
+const formatSlot = (slot: { start: string; end: string }) => {
+  const start = new Date(slot.start);
+  const end = new Date(slot.end);
+  const day = start.toLocaleDateString([], { weekday: "short", month: "short", day: "numeric" });
+  const time = (date: Date) => date.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+  return `${day}, ${time(start)} – ${time(end)}`;
+};
+
+// A session proposal as it appears in the chat. The other participant picks
+// one of the proposed times here.
+const SessionCard: React.FC<SessionCardProps> = ({ session, currentUserId, canSchedule, onChange }) => {
+  const [busy, setBusy] = useState(false);
+
+  if (!session) {
+    return <p className="text-sm opacity-75">Loading session...</p>;
+  }
+
+  const isProposer = session.proposedBy?._id === currentUserId;
+
+  const run = async (action: () => Promise<Session>, failure: string) => {
+    try {
+      setBusy(true);
+      onChange(await action());
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({
+        title: "Error",
+        description: error.message || failure,
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (session.status === "scheduled" && session.scheduledSlot) {
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <CalendarCheck className="h-4 w-4 text-green-300" />
+          <span className="text-sm font-medium">Session scheduled</span>
+        </div>
+        <p className="text-sm">{formatSlot(session.scheduledSlot)}</p>
+        {session.note && <p className="text-xs opacity-75">{session.note}</p>}
+        <p className="text-xs opacity-75">A calendar invite was sent by email.</p>
+        <Button
+          size="sm"
+          variant="ghost"
+          disabled={busy}
+          onClick={() => run(() => apiService.cancelSession(session._id), "Failed to cancel session")}
+          className="h-7 px-2 text-xs hover:bg-white/10"
+        >
+          Cancel session
+        </Button>
+      </div>
+    );
+  }
+
+  if (session.status !== "proposed") {
+    return (
+      <div className="flex items-center gap-2">
+        <CalendarX className="h-4 w-4 opacity-75" />
+        <span className="text-sm opacity-75">
+          {session.status === "declined" ? "None of these times worked" : "Session proposal withdrawn"}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <CalendarClock className="h-4 w-4" />
+        <span className="text-sm font-medium">
+          {isProposer ? "You proposed times for a session" : `${session.proposedBy?.name} proposed times for a session`}
+        </span>
+      </div>
+      {session.note && <p className="text-xs opacity-75">{session.note}</p>}
+      <div className="flex flex-col gap-1">
+        {session.slots.map((slot) =>
+          isProposer || !canSchedule ? (
+            <Badge key={slot._id} variant="outline" className="justify-start text-white border-white/30">
+              {formatSlot(slot)}
+            </Badge>
+          ) : (
+            <Button
+              key={slot._id}
+              size="sm"
+              disabled={busy || new Date(slot.start).getTime() <= Date.now()}
+              onClick={() => run(() => apiService.acceptSessionSlot(session._id, slot._id), "Failed to accept session")}
+              className="h-auto justify-start py-1 text-xs bg-white/20 hover:bg-white/30"
+            >
+              Accept {formatSlot(slot)}
+            </Button>
+          )
+        )}
+      </div>
+      <Button
+        size="sm"
+        variant="ghost"
+        disabled={busy}
+        onClick={() =>
+          isProposer
+            ? run(() => apiService.cancelSession(session._id), "Failed to withdraw proposal")
+            : run(() => apiService.declineSession(session._id), "Failed to decline session")
+        }
+        className="h-7 px-2 text-xs hover:bg-white/10"
+      >
+        {isProposer ? "Withdraw" : "None of these work"}
+      </Button>
+    </div>
+  );
+};
+
+export default SessionCard;
@@ -16,7 +16,7 @@ interface User {
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
-  login: (googleUser: any) => Promise<void>;
+  login: (googleCredential: string) => Promise<void>;
   logout: () => void;
   loading: boolean;
   updateProfile: (userData: Partial<User>) => Promise<void>;
@@ -91,15 +91,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     initializeAuth();
   }, [retryCount]);
 
-  const login = async (googleUser: any) => {
+  const login = async (googleCredential: string) => {
     try {
       setLoading(true);
 
       const response = await apiService.loginWithGoogle({
-        email: googleUser.email,
-        name: googleUser.name,
-        googleId: googleUser.id,
-        picture: googleUser.picture,
+        credential: googleCredential,
       });
 
       setUser(response.user);
@@ -120,6 +117,21 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     socketService.disconnect();
   };
 
+  // The socket is authenticated with the same JWT as the API; once the server
+  // rejects it as expired the session is over and the user has to sign in again.
+  useEffect(() => {
+    socketService.onAuthError((reason) => {
+      if (reason === "Token expired") {
+        console.log("🔒 Session expired - logging out");
+        logout();
+      }
+    });
+
+    return () => {
+      socketService.offAuthError();
+    };
+  }, []);
+
   const updateProfile = async (userData: Partial<User>) => {
     try {
       const updatedUser = await apiService.updateProfile(userData);
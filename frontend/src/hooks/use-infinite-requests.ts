@@ -0,0 +1,82 @@
+import { useEffect, useRef } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import apiService from "../services/api";
+
+export type RequestSort = "newest" | "urgency" | "budget";
+
+export interface RequestFilters {
+  status?: string;
+  categoryId?: string;
+  search?: string;
+  urgency?: string;
+  isRemote?: boolean;
+  budgetMin?: number;
+  budgetMax?: number;
+  skillsNeeded?: string;
+  requester?: string;
+  helper?: string;
+  role?: "requester" | "helper";
+  sort?: RequestSort;
+  limit?: number;
+}
+
+export interface RequestPage<T> {
+  requests: T[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+// `mine` lists the signed-in user's own requests (by `role`) instead of the public feed
+export const useInfiniteRequests = <T,>(
+  filters: RequestFilters,
+  options: { enabled?: boolean; mine?: boolean } = {}
+) => {
+  const query = useInfiniteQuery({
+    queryKey: ["requests", options.mine ? "mine" : "all", filters],
+    queryFn: ({ pageParam }) => {
+      const params = { ...filters, cursor: pageParam };
+      return (options.mine
+        ? apiService.getMyRequests(params)
+        : apiService.getRequests(params)) as Promise<RequestPage<T>>;
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: options.enabled ?? true,
+  });
+
+  const requests = query.data?.pages.flatMap((page) => page.requests) ?? [];
+
+  return { ...query, requests };
+};
+
+// Returns a ref for a sentinel element; the next page is fetched when it scrolls into view
+export const useLoadMoreOnScroll = ({
+  hasNextPage,
+  isFetchingNextPage,
+  fetchNextPage,
+}: {
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  fetchNextPage: () => unknown;
+}) => {
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: "200px" }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  return sentinelRef;
+};
@@ -0,0 +1,65 @@
+import { useEffect, useState } from "react";
+import apiService from "../services/api";
+import socketService from "../services/socket";
+
+export interface Presence {
+  userId: string;
+  online: boolean;
+  lastSeenAt: string | null;
+}
+
+// Online status of the given users, kept up to date from `presence_changed`
+// events. The server only reports on users the current user shares a request with.
+export const usePresence = (userIds: (string | undefined)[]) => {
+  const key = [...new Set(userIds.filter(Boolean) as string[])].sort().join(",");
+  const [presence, setPresence] = useState<Record<string, Presence>>({});
+
+  useEffect(() => {
+    if (!key) return;
+    const ids = key.split(",");
+    let cancelled = false;
+
+    apiService
+      .getPresence(ids)
+      .then((response: { presence: Presence[] }) => {
+        if (cancelled) return;
+        setPresence((prev) => {
+          const next = { ...prev };
+          response.presence.forEach((entry) => {
+            next[entry.userId] = entry;
+          });
+          return next;
+        });
+      })
+      .catch(console.error);
+
+    const watched = new Set(ids);
+    const handlePresenceChanged = (data: Presence) => {
+      if (!watched.has(data.userId)) return;
+      setPresence((prev) => ({ ...prev, [data.userId]: data }));
+    };
+
+    socketService.onPresenceChanged(handlePresenceChanged);
+    return () => {
+      cancelled = true;
+      socketService.offPresenceChanged(handlePresenceChanged);
+    };
+  }, [key]);
+
+  return presence;
+};
+
+export const formatLastSeen = (presence?: Presence) => {
+  if (!presence) return null;
+  if (presence.online) return "Online";
+  if (!presence.lastSeenAt) return "Offline";
+
+  const minutes = Math.floor((Date.now() - new Date(presence.lastSeenAt).getTime()) / 60000);
+  if (minutes < 1) return "Last seen just now";
+  if (minutes < 60) return `Last seen ${minutes} min ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `Last seen ${hours}h ago`;
+
+  return `Last seen ${new Date(presence.lastSeenAt).toLocaleDateString()}`;
+};
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "../contexts/AuthContext";
 import Navigation from "../components/Navigation";
 import { Button } from "@/components/ui/button";
@@ -27,12 +28,17 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "@/hooks/use-toast";
 import { useCustomToast } from "@/hooks/use-custom-toast";
-import { MapPin, Clock, DollarSign, User, MessageCircle, Send, CheckCircle } from "lucide-react";
+import { MapPin, Clock, DollarSign, User, MessageCircle, Send, CheckCircle, Sparkles } from "lucide-react";
 import apiService from "../services/api";
 import socketService from "../services/socket";
 import Messages from "../components/Messages";
+import PresenceStatus from "../components/PresenceStatus";
+import SendProposalDialog from "../components/SendProposalDialog";
+import { usePresence } from "@/hooks/use-presence";
+import { useInfiniteRequests, useLoadMoreOnScroll, RequestSort } from "@/hooks/use-infinite-requests";
 
 interface HelpRequest {
   _id: string;
@@ -63,10 +69,24 @@ interface HelpRequest {
   isRemote: boolean;
   budgetMin?: number;
   budgetMax?: number;
-  status: "open" | "in_progress" | "completed";
+  status: "open" | "in_progress" | "pending_confirmation" | "completed" | "disputed" | "cancelled";
   createdAt: string;
   acceptedAt?: string;
   completedAt?: string;
+  disputeReason?: string;
+}
+
+// A request ranked for the current user by GET /requests/recommended
+interface Recommendation {
+  request: HelpRequest;
+  score: number;
+  reasons: string[];
+}
+
+// One of the current user's pending proposals, from GET /proposals/mine
+interface MyProposal {
+  _id: string;
+  request: { _id: string };
 }
 
 interface Category {
@@ -79,21 +99,90 @@ interface Category {
 const AcceptRequest = () => {
   const { user } = useAuth();
   const { showMessageNotification, showSuccessNotification, showErrorNotification } = useCustomToast();
-  const [requests, setRequests] = useState<HelpRequest[]>([]);
-  const [filteredRequests, setFilteredRequests] = useState<HelpRequest[]>([]);
+  const queryClient = useQueryClient();
   const [selectedRequest, setSelectedRequest] = useState<HelpRequest | null>(null);
   const [showMessageDialog, setShowMessageDialog] = useState(false);
   const [showMessagesDialog, setShowMessagesDialog] = useState(false);
   const [messageText, setMessageText] = useState("");
   const [categories, setCategories] = useState<Category[]>([]);
-  const [loading, setLoading] = useState(false);
+  const [activeTab, setActiveTab] = useState("all");
+  const [proposalRequest, setProposalRequest] = useState<HelpRequest | null>(null);
   const [filters, setFilters] = useState({
     search: "",
     category: "all",
     urgency: "all",
     remote: "all",
     status: "all",
+    sort: "newest" as RequestSort,
+    budgetMin: "",
+    budgetMax: "",
+    skills: "",
   });
+  const [appliedFilters, setAppliedFilters] = useState(filters);
+
+  // Wait for typing to settle before querying the server
+  useEffect(() => {
+    const timer = setTimeout(() => setAppliedFilters(filters), 300);
+    return () => clearTimeout(timer);
+  }, [filters]);
+
+  const requestFilters = {
+    search: appliedFilters.search.trim() || undefined,
+    categoryId: appliedFilters.category !== "all" ? appliedFilters.category : undefined,
+    urgency: appliedFilters.urgency !== "all" ? appliedFilters.urgency : undefined,
+    isRemote: appliedFilters.remote === "all" ? undefined : appliedFilters.remote === "remote",
+    budgetMin: appliedFilters.budgetMin !== "" ? Number(appliedFilters.budgetMin) : undefined,
+    budgetMax: appliedFilters.budgetMax !== "" ? Number(appliedFilters.budgetMax) : undefined,
+    skillsNeeded: appliedFilters.skills.trim() || undefined,
+    sort: appliedFilters.sort,
+  };
+
+  // Open requests anyone can accept
+  const availableQuery = useInfiniteRequests<HelpRequest>(
+    { ...requestFilters, status: "open" },
+    { enabled: appliedFilters.status === "all" || appliedFilters.status === "open" }
+  );
+
+  // In-progress requests the current user has accepted, including ones whose
+  // completion the requester disputed
+  const acceptedQuery = useInfiniteRequests<HelpRequest>(
+    { ...requestFilters, role: "helper", status: "in_progress,disputed" },
+    { enabled: !!user?.id && (appliedFilters.status === "all" || appliedFilters.status === "in_progress"), mine: true }
+  );
+
+  // Hide requests with missing required data and the user's own requests
+  const availableRequests = availableQuery.requests.filter(
+    (req) => req.requester && req.category && req.requester.name && req.category.name && req.requester._id !== user?.id
+  );
+  const acceptedRequests = acceptedQuery.requests.filter(
+    (req) => req.requester && req.category && req.requester.name && req.category.name
+  );
+  const loading = availableQuery.isLoading || acceptedQuery.isLoading;
+
+  // Open requests ranked against the user's skills and helping history
+  const recommendedQuery = useQuery({
+    queryKey: ["requests", "recommended"],
+    queryFn: () => apiService.getRecommendedRequests() as Promise<{ recommendations: Recommendation[] }>,
+    enabled: !!user?.id && activeTab === "recommended",
+  });
+  const recommendations = (recommendedQuery.data?.recommendations ?? []).filter(
+    ({ request }) => request.requester && request.category && request.requester.name && request.category.name
+  );
+
+  // Requests the user has already offered to help with, by request id
+  const myProposalsQuery = useQuery({
+    queryKey: ["proposals", "mine"],
+    queryFn: () => apiService.getMyProposals("pending") as Promise<MyProposal[]>,
+    enabled: !!user?.id,
+  });
+  const pendingProposals = new Map(
+    (myProposalsQuery.data ?? []).filter((proposal) => proposal.request).map((proposal) => [proposal.request._id, proposal])
+  );
+
+  const availableSentinelRef = useLoadMoreOnScroll(availableQuery);
+  const acceptedSentinelRef = useLoadMoreOnScroll(acceptedQuery);
+  // Presence is only shared between a request's requester and helper
+  const requesterPresence = usePresence(acceptedRequests.map(request => request.requester?._id));
 
   useEffect(() => {
     const initializeData = async () => {
@@ -103,7 +192,6 @@ const AcceptRequest = () => {
         await apiService.healthCheck();
         
         // Load data
-        await loadRequests();
         await loadCategories();
       } catch (error) {
         console.error("❌ Failed to initialize data:", error);
@@ -141,6 +229,12 @@ const AcceptRequest = () => {
           console.log("🎉 Request was accepted by someone!");
           loadRequests();
         }
+
+        // A requester chose between proposals, ours or someone else's
+        if (notification.type === "proposal_accepted" || notification.type === "proposal_declined") {
+          loadRequests();
+          loadProposals();
+        }
       });
 
       // Listen for request acceptance events
@@ -150,7 +244,7 @@ const AcceptRequest = () => {
           showSuccessNotification("Request Accepted!", "Your request has been accepted! Opening conversation...");
           
           // Find the accepted request and open conversation
-          const acceptedRequest = requests.find(req => req._id === message.request);
+          const acceptedRequest = [...availableRequests, ...acceptedRequests].find(req => req._id === message.request);
           if (acceptedRequest) {
             setTimeout(() => {
               setSelectedRequest(acceptedRequest);
@@ -160,13 +254,22 @@ const AcceptRequest = () => {
         }
       });
 
+      // Keep the available list in sync with requests being taken or reopened
+      socketService.joinFeed();
+      socketService.onFeedUpdate(() => {
+        loadRequests();
+      });
+
       // Listen for request completion events
       if (socketService.socket) {
         socketService.socket.on("request_status_updated", (data) => {
           console.log("🔄 Request status updated:", data);
           if (data.status === 'completed') {
-            showSuccessNotification("Request Completed!", `"${data.requestTitle}" has been marked as completed.`);
-            loadRequests(); // Refresh to remove completed request from AcceptRequest page
+            showSuccessNotification("Request Completed!", `"${data.requestTitle}" has been confirmed as completed.`);
+            loadRequests();
+          }
+          if (data.status === 'pending_confirmation' || data.status === 'disputed') {
+            loadRequests(); // Move the request out of or back into the accepted list
           }
         });
       }
@@ -176,6 +279,8 @@ const AcceptRequest = () => {
     return () => {
       socketService.offNotification();
       socketService.offMessage();
+      socketService.leaveFeed();
+      socketService.offFeedUpdate();
       if (socketService.socket) {
         socketService.socket.off("request_status_updated");
       }
@@ -183,42 +288,18 @@ const AcceptRequest = () => {
   }, [user]);
 
   useEffect(() => {
-    filterRequests();
-  }, [requests, filters]);
-
-  const loadRequests = async () => {
-    try {
-      setLoading(true);
-      
-      console.log("🔍 Loading requests...");
-      console.log("Current user:", user);
-      console.log("Auth token:", localStorage.getItem("authToken"));
-      
-      // Load open requests (for accepting) - only requests NOT created by current user
-      const openRequests = await apiService.getRequests({ status: "open" });
-      console.log("Open requests:", openRequests);
-      const availableRequests = openRequests.filter(
-        (req: HelpRequest) => req.requester._id !== user?.id
-      );
-      
-      // Load in_progress requests where current user is the helper (accepted requests)
-      const inProgressRequests = await apiService.getRequests({ status: "in_progress" });
-      console.log("In progress requests:", inProgressRequests);
-      const myAcceptedRequests = inProgressRequests.filter(
-        (req: HelpRequest) => req.helper?._id === user?.id // I am the helper
-      );
-      
-      // Combine both lists - only show requests available for accepting + requests I've accepted
-      const allRequests = [...availableRequests, ...myAcceptedRequests];
-      console.log("All requests:", allRequests);
-      setRequests(allRequests);
-    } catch (error) {
-      console.error("Failed to load requests:", error);
-      console.error("Error details:", error.response?.data || error.message);
+    if (availableQuery.isError || acceptedQuery.isError) {
+      console.error("Failed to load requests:", availableQuery.error || acceptedQuery.error);
       showErrorNotification("Error", "Failed to load requests");
-    } finally {
-      setLoading(false);
     }
+  }, [availableQuery.isError, acceptedQuery.isError]);
+
+  const loadRequests = () => {
+    return queryClient.invalidateQueries({ queryKey: ["requests"] });
+  };
+
+  const loadProposals = () => {
+    return queryClient.invalidateQueries({ queryKey: ["proposals"] });
   };
 
   const loadCategories = async () => {
@@ -230,75 +311,14 @@ const AcceptRequest = () => {
     }
   };
 
-  const filterRequests = () => {
-    let filtered = [...requests];
-
-    // Filter out requests with missing required data
-    filtered = filtered.filter(req => 
-      req.requester && req.category && req.requester.name && req.category.name
-    );
-
-    if (filters.search) {
-      const searchLower = filters.search.toLowerCase();
-      filtered = filtered.filter(
-        (req) =>
-          req.title.toLowerCase().includes(searchLower) ||
-          req.description.toLowerCase().includes(searchLower) ||
-          req.skillsNeeded.some((skill) =>
-            skill.toLowerCase().includes(searchLower)
-          )
-      );
-    }
-
-    if (filters.category && filters.category !== "all") {
-      filtered = filtered.filter(
-        (req) => req.category._id === filters.category
-      );
-    }
-
-    if (filters.urgency && filters.urgency !== "all") {
-      filtered = filtered.filter((req) => req.urgency === filters.urgency);
-    }
-
-    if (filters.remote && filters.remote !== "all") {
-      if (filters.remote === "remote") {
-        filtered = filtered.filter((req) => req.isRemote);
-      } else if (filters.remote === "local") {
-        filtered = filtered.filter((req) => !req.isRemote);
-      }
-    }
-
-    if (filters.status && filters.status !== "all") {
-      filtered = filtered.filter((req) => req.status === filters.status);
-    }
-
-    setFilteredRequests(filtered);
-  };
-
-  const handleAcceptRequest = async (request: HelpRequest) => {
+  const handleWithdrawProposal = async (proposalId: string) => {
     try {
-      await apiService.acceptRequest(request._id);
-      
-      showSuccessNotification("Request Accepted!", `You've accepted "${request.title}". You can now message ${request.requester.name}.`);
-
-      // Emit request accepted event to notify both users
-      if (socketService.getConnectionStatus().isConnected) {
-        socketService.socket?.emit("request_accepted", {
-          requestId: request._id,
-          helperId: user?.id,
-          requesterId: request.requester._id,
-          requestTitle: request.title
-        });
-      }
-
-      // Automatically open the full conversation dialog for the accepted request
-      setSelectedRequest(request);
-      setShowMessagesDialog(true);
-
-      loadRequests();
+      await apiService.withdrawProposal(proposalId);
+      showSuccessNotification("Proposal Withdrawn", "You can send a new proposal any time while the request is open.");
+      loadProposals();
     } catch (error) {
-      console.error("Failed to accept request:", error);
-      showErrorNotification("Error", "Failed to accept request");
+      console.error("Failed to withdraw proposal:", error);
+      showErrorNotification("Error", error.message || "Failed to withdraw proposal");
     }
   };
 
@@ -312,12 +332,12 @@ const AcceptRequest = () => {
         senderName: user?.name || "Unknown"
       };
 
-      // Send via socket
-      socketService.sendMessage(messageData);
+      // Queued in the outbox; the conversation shows whether it was delivered
+      await socketService.sendMessage(messageData);
       
       toast({
         title: "Message Sent",
-        description: `Your message has been sent to ${selectedRequest.requester.name}.`,
+        description: `Your message to ${selectedRequest.requester.name} is on its way.`,
       });
 
       setMessageText("");
@@ -330,7 +350,7 @@ const AcceptRequest = () => {
       console.error("Failed to send message:", error);
       toast({
         title: "Error",
-        description: "Failed to send message",
+        description: error.message || "Failed to send message",
         variant: "destructive",
       });
     }
@@ -345,7 +365,7 @@ const AcceptRequest = () => {
     try {
       await apiService.completeRequest(request._id);
       
-      showSuccessNotification("Request Completed!", `"${request.title}" has been marked as completed.`);
+      showSuccessNotification("Marked as Done", `${request.requester?.name || "The requester"} has been asked to confirm "${request.title}" is complete.`);
 
       // Refresh the requests list
       loadRequests();
@@ -380,6 +400,137 @@ const AcceptRequest = () => {
     return new Date(dateString).toLocaleDateString();
   };
 
+  // Card for a request the user can accept, with why it was recommended when `match` is given
+  const renderAvailableCard = (request: HelpRequest, match?: Recommendation) => (
+    <Card key={request._id} className="hover:shadow-lg transition-shadow bg-gray-900 border-gray-700">
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div className="flex-1">
+            <CardTitle className="text-lg mb-2">
+              {request.title}
+            </CardTitle>
+            <div className="flex items-center gap-2 mb-2">
+              <Badge variant="outline">{request.category?.name || 'Unknown Category'}</Badge>
+              <Badge className={getUrgencyColor(request.urgency)}>
+                {request.urgency}
+              </Badge>
+            </div>
+          </div>
+          <Avatar className="h-10 w-10">
+            <AvatarImage src={request.requester?.picture} />
+            <AvatarFallback>
+              {request.requester?.name?.charAt(0) || '?'}
+            </AvatarFallback>
+          </Avatar>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        <p className="text-gray-300 mb-4 line-clamp-3">
+          {request.description}
+        </p>
+
+        {match && (
+          <div className="mb-4 rounded-md border border-cyan-500/30 bg-cyan-500/10 p-3">
+            <p className="flex items-center gap-2 text-sm font-medium text-cyan-300 mb-2">
+              <Sparkles className="h-4 w-4" />
+              {match.score}% match
+            </p>
+            <ul className="space-y-1 text-xs text-gray-300">
+              {match.reasons.map((reason) => (
+                <li key={reason}>• {reason}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {request.skillsNeeded.length > 0 && (
+          <div className="mb-4">
+            <p className="text-sm font-medium text-gray-200 mb-2">
+              Skills needed:
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {request.skillsNeeded.map((skill) => (
+                <Badge key={skill} variant="secondary" className="text-xs">
+                  {skill}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2 text-sm text-gray-300">
+          {request.estimatedDuration && (
+            <div className="flex items-center gap-2">
+              <Clock className="h-4 w-4" />
+              <span>{request.estimatedDuration}</span>
+            </div>
+          )}
+
+          {request.location && !request.isRemote && (
+            <div className="flex items-center gap-2">
+              <MapPin className="h-4 w-4" />
+              <span>{request.location}</span>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <DollarSign className="h-4 w-4" />
+            <span>{formatBudget(request.budgetMin, request.budgetMax)}</span>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <User className="h-4 w-4" />
+            <span>
+              by{" "}
+              <a href={`/users/${request.requester?._id}`} className="hover:text-cyan-400 underline-offset-2 hover:underline">
+                {request.requester?.name}
+              </a>
+            </span>
+          </div>
+
+          <div className="text-xs text-gray-400">
+            Posted {formatDate(request.createdAt)}
+          </div>
+        </div>
+
+        <div className="flex gap-2 mt-4">
+          {pendingProposals.has(request._id) ? (
+            <>
+              <Button
+                variant="outline"
+                className="flex-1 border-slate-600 text-slate-400 cursor-not-allowed"
+                disabled>
+                Proposal Sent
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => handleWithdrawProposal(pendingProposals.get(request._id)!._id)}
+                className="border-slate-600 text-white hover:bg-slate-700">
+                Withdraw
+              </Button>
+            </>
+          ) : (
+            <Button
+              onClick={() => setProposalRequest(request)}
+              className="flex-1 bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600">
+              Send Proposal
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => {
+              setSelectedRequest(request);
+              setShowMessageDialog(true);
+            }}
+            className="border-slate-600 text-white hover:bg-slate-700">
+            <MessageCircle className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
       <Navigation />
@@ -395,318 +546,336 @@ const AcceptRequest = () => {
           </p>
         </div>
 
-          {/* Filters */}
-          <Card className="mb-6 bg-gray-900 border-gray-700">
-            <CardContent className="pt-6">
-              <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
-                <Input
-                  placeholder="Search requests..."
-                  value={filters.search}
-                  onChange={(e) =>
-                    setFilters({ ...filters, search: e.target.value })
-                  }
-                />
-
-                <Select
-                  value={filters.category}
-                  onValueChange={(value) =>
-                    setFilters({ ...filters, category: value })
-                  }>
-                  <SelectTrigger>
-                    <SelectValue placeholder="All categories" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">All categories</SelectItem>
-                    {categories.map((category) => (
-                      <SelectItem key={category._id} value={category._id}>
-                        {category.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-
-                <Select
-                  value={filters.urgency}
-                  onValueChange={(value) =>
-                    setFilters({ ...filters, urgency: value })
-                  }>
-                  <SelectTrigger>
-                    <SelectValue placeholder="All urgency levels" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">All urgency levels</SelectItem>
-                    <SelectItem value="low">Low</SelectItem>
-                    <SelectItem value="medium">Medium</SelectItem>
-                    <SelectItem value="high">High</SelectItem>
-                  </SelectContent>
-                </Select>
-
-                <Select
-                  value={filters.remote}
-                  onValueChange={(value) =>
-                    setFilters({ ...filters, remote: value })
-                  }>
-                  <SelectTrigger>
-                    <SelectValue placeholder="All locations" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">All locations</SelectItem>
-                    <SelectItem value="remote">Remote only</SelectItem>
-                    <SelectItem value="local">Local only</SelectItem>
-                  </SelectContent>
-                </Select>
-
-                <Select
-                  value={filters.status}
-                  onValueChange={(value) =>
-                    setFilters({ ...filters, status: value })
-                  }>
-                  <SelectTrigger>
-                    <SelectValue placeholder="All statuses" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">All statuses</SelectItem>
-                    <SelectItem value="open">Open</SelectItem>
-                    <SelectItem value="in_progress">In Progress</SelectItem>
-                    <SelectItem value="completed">Completed</SelectItem>
-                  </SelectContent>
-                </Select>
-            </div>
-            </CardContent>
-          </Card>
-
-          {/* Requests Grid */}
-          {loading ? (
-            <div className="text-center py-8">
-              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-400 mx-auto"></div>
-              <p className="mt-2 text-gray-300">Loading requests...</p>
-            </div>
-          ) : filteredRequests.length === 0 ? (
-            <Card className="bg-gray-900 border-gray-700">
-              <CardContent className="text-center py-12">
-                <p className="text-gray-300 mb-4">
-                  No help requests available for accepting at the moment.
-                </p>
-                <Button onClick={loadRequests} variant="outline">
-                  Refresh
-                </Button>
-              </CardContent>
-            </Card>
-          ) : (
-            <div className="space-y-8">
-              {/* Available Requests Section */}
-              {filteredRequests.filter(req => req.status === 'open').length > 0 && (
-                <div>
-                  <h2 className="text-xl font-semibold text-white mb-4">Available Requests</h2>
-                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                    {filteredRequests.filter(req => req.status === 'open').map((request) => (
-                <Card key={request._id} className="hover:shadow-lg transition-shadow bg-gray-900 border-gray-700">
-                  <CardHeader>
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1">
-                        <CardTitle className="text-lg mb-2">
-                          {request.title}
-                        </CardTitle>
-                        <div className="flex items-center gap-2 mb-2">
-                          <Badge variant="outline">{request.category?.name || 'Unknown Category'}</Badge>
-                          <Badge className={getUrgencyColor(request.urgency)}>
-                            {request.urgency}
-                          </Badge>
-                        </div>
-                      </div>
-                      <Avatar className="h-10 w-10">
-                        <AvatarImage src={request.requester?.picture} />
-                        <AvatarFallback>
-                          {request.requester?.name?.charAt(0) || '?'}
-                        </AvatarFallback>
-                      </Avatar>
-                    </div>
-                  </CardHeader>
-
-                  <CardContent>
-                    <p className="text-gray-300 mb-4 line-clamp-3">
-                      {request.description}
+          <Tabs value={activeTab} onValueChange={setActiveTab}>
+            <TabsList className="mb-2">
+              <TabsTrigger value="all">All requests</TabsTrigger>
+              <TabsTrigger value="recommended" className="gap-2">
+                <Sparkles className="h-4 w-4" />
+                Recommended for you
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="all">
+              {/* Filters */}
+              <Card className="mb-6 bg-gray-900 border-gray-700">
+                <CardContent className="pt-6">
+                  <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                    <Input
+                      placeholder="Search requests..."
+                      value={filters.search}
+                      onChange={(e) =>
+                        setFilters({ ...filters, search: e.target.value })
+                      }
+                    />
+
+                    <Select
+                      value={filters.category}
+                      onValueChange={(value) =>
+                        setFilters({ ...filters, category: value })
+                      }>
+                      <SelectTrigger>
+                        <SelectValue placeholder="All categories" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All categories</SelectItem>
+                        {categories.map((category) => (
+                          <SelectItem key={category._id} value={category._id}>
+                            {category.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    <Select
+                      value={filters.urgency}
+                      onValueChange={(value) =>
+                        setFilters({ ...filters, urgency: value })
+                      }>
+                      <SelectTrigger>
+                        <SelectValue placeholder="All urgency levels" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All urgency levels</SelectItem>
+                        <SelectItem value="low">Low</SelectItem>
+                        <SelectItem value="medium">Medium</SelectItem>
+                        <SelectItem value="high">High</SelectItem>
+                      </SelectContent>
+                    </Select>
+
+                    <Select
+                      value={filters.remote}
+                      onValueChange={(value) =>
+                        setFilters({ ...filters, remote: value })
+                      }>
+                      <SelectTrigger>
+                        <SelectValue placeholder="All locations" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All locations</SelectItem>
+                        <SelectItem value="remote">Remote only</SelectItem>
+                        <SelectItem value="local">Local only</SelectItem>
+                      </SelectContent>
+                    </Select>
+
+                    <Select
+                      value={filters.status}
+                      onValueChange={(value) =>
+                        setFilters({ ...filters, status: value })
+                      }>
+                      <SelectTrigger>
+                        <SelectValue placeholder="All statuses" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All statuses</SelectItem>
+                        <SelectItem value="open">Open</SelectItem>
+                        <SelectItem value="in_progress">In Progress</SelectItem>
+                        <SelectItem value="completed">Completed</SelectItem>
+                      </SelectContent>
+                    </Select>
+                </div>
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-4">
+                    <Select
+                      value={filters.sort}
+                      onValueChange={(value) =>
+                        setFilters({ ...filters, sort: value as RequestSort })
+                      }>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Sort by" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="newest">Newest first</SelectItem>
+                        <SelectItem value="urgency">Most urgent</SelectItem>
+                        <SelectItem value="budget">Highest budget</SelectItem>
+                      </SelectContent>
+                    </Select>
+
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="Min budget ($)"
+                      value={filters.budgetMin}
+                      onChange={(e) =>
+                        setFilters({ ...filters, budgetMin: e.target.value })
+                      }
+                    />
+
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="Max budget ($)"
+                      value={filters.budgetMax}
+                      onChange={(e) =>
+                        setFilters({ ...filters, budgetMax: e.target.value })
+                      }
+                    />
+
+                    <Input
+                      placeholder="Skills (comma separated)"
+                      value={filters.skills}
+                      onChange={(e) =>
+                        setFilters({ ...filters, skills: e.target.value })
+                      }
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Requests Grid */}
+              {loading ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-400 mx-auto"></div>
+                  <p className="mt-2 text-gray-300">Loading requests...</p>
+                </div>
+              ) : availableRequests.length === 0 && acceptedRequests.length === 0 ? (
+                <Card className="bg-gray-900 border-gray-700">
+                  <CardContent className="text-center py-12">
+                    <p className="text-gray-300 mb-4">
+                      No help requests available for accepting at the moment.
                     </p>
-
-                    {request.skillsNeeded.length > 0 && (
-                      <div className="mb-4">
-                        <p className="text-sm font-medium text-gray-200 mb-2">
-                          Skills needed:
-                        </p>
-                        <div className="flex flex-wrap gap-1">
-                          {request.skillsNeeded.map((skill) => (
-                            <Badge key={skill} variant="secondary" className="text-xs">
-                              {skill}
-                            </Badge>
-                          ))}
-                        </div>
-                      </div>
-                    )}
-
-                    <div className="space-y-2 text-sm text-gray-300">
-                      {request.estimatedDuration && (
-                        <div className="flex items-center gap-2">
-                          <Clock className="h-4 w-4" />
-                          <span>{request.estimatedDuration}</span>
-                        </div>
-                      )}
-
-                      {request.location && !request.isRemote && (
-                        <div className="flex items-center gap-2">
-                          <MapPin className="h-4 w-4" />
-                          <span>{request.location}</span>
-                        </div>
-                      )}
-
-                      <div className="flex items-center gap-2">
-                        <DollarSign className="h-4 w-4" />
-                        <span>{formatBudget(request.budgetMin, request.budgetMax)}</span>
-                      </div>
-
-                      <div className="flex items-center gap-2">
-                        <User className="h-4 w-4" />
-                        <span>by {request.requester?.name}</span>
-                      </div>
-
-                      <div className="text-xs text-gray-400">
-                        Posted {formatDate(request.createdAt)}
-                      </div>
-                    </div>
-
-                    <div className="flex gap-2 mt-4">
-                      <Button
-                        onClick={() => handleAcceptRequest(request)}
-                        className="flex-1 bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600">
-                        Accept Request
-                      </Button>
-                      <Button
-                        variant="outline"
-                        onClick={() => {
-                          setSelectedRequest(request);
-                          setShowMessageDialog(true);
-                        }}
-                        className="border-slate-600 text-white hover:bg-slate-700">
-                        <MessageCircle className="h-4 w-4" />
-                      </Button>
-                    </div>
+                    <Button onClick={loadRequests} variant="outline">
+                      Refresh
+                    </Button>
                   </CardContent>
                 </Card>
-                    ))}
-                  </div>
-                </div>
-              )}
-
-              {/* Accepted Requests Section */}
-              {filteredRequests.filter(req => req.status === 'in_progress' && req.helper?._id === user?.id).length > 0 && (
-                <div>
-                  <h2 className="text-xl font-semibold text-white mb-4">Your Accepted Requests</h2>
-                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                    {filteredRequests.filter(req => req.status === 'in_progress' && req.helper?._id === user?.id).map((request) => (
-                      <Card key={request._id} className="hover:shadow-lg transition-shadow bg-gray-900 border-gray-700">
-                        <CardHeader>
-                          <div className="flex items-start justify-between">
-                            <div className="flex-1">
-                              <CardTitle className="text-lg mb-2">
-                                {request.title}
-                              </CardTitle>
-                              <div className="flex items-center gap-2 mb-2">
-                                <Badge variant="outline">{request.category?.name || 'Unknown Category'}</Badge>
-                                <Badge className={getUrgencyColor(request.urgency)}>
-                                  {request.urgency}
-                                </Badge>
-                                <Badge className="bg-blue-100 text-blue-800">
-                                  In Progress
-                                </Badge>
+              ) : (
+                <div className="space-y-8">
+                  {/* Accepted Requests Section */}
+                  {acceptedRequests.length > 0 && (
+                    <div>
+                      <h2 className="text-xl font-semibold text-white mb-4">Your Accepted Requests</h2>
+                      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                        {acceptedRequests.map((request) => (
+                          <Card key={request._id} className="hover:shadow-lg transition-shadow bg-gray-900 border-gray-700">
+                            <CardHeader>
+                              <div className="flex items-start justify-between">
+                                <div className="flex-1">
+                                  <CardTitle className="text-lg mb-2">
+                                    {request.title}
+                                  </CardTitle>
+                                  <div className="flex items-center gap-2 mb-2">
+                                    <Badge variant="outline">{request.category?.name || 'Unknown Category'}</Badge>
+                                    <Badge className={getUrgencyColor(request.urgency)}>
+                                      {request.urgency}
+                                    </Badge>
+                                    <Badge className="bg-blue-100 text-blue-800">
+                                      In Progress
+                                    </Badge>
+                                  </div>
+                                </div>
+                                <Avatar className="h-10 w-10">
+                                  <AvatarImage src={request.requester?.picture} />
+                                  <AvatarFallback>
+                                    {request.requester?.name?.charAt(0) || '?'}
+                                  </AvatarFallback>
+                                </Avatar>
                               </div>
-                            </div>
-                            <Avatar className="h-10 w-10">
-                              <AvatarImage src={request.requester?.picture} />
-                              <AvatarFallback>
-                                {request.requester?.name?.charAt(0) || '?'}
-                              </AvatarFallback>
-                            </Avatar>
-                          </div>
-                        </CardHeader>
-
-                        <CardContent>
-                          <p className="text-gray-300 mb-4 line-clamp-3">
-                            {request.description}
-                          </p>
-
-                          {request.skillsNeeded.length > 0 && (
-                            <div className="mb-4">
-                              <p className="text-sm font-medium text-gray-200 mb-2">
-                                Skills needed:
+                            </CardHeader>
+
+                            <CardContent>
+                              <p className="text-gray-300 mb-4 line-clamp-3">
+                                {request.description}
                               </p>
-                              <div className="flex flex-wrap gap-1">
-                                {request.skillsNeeded.map((skill) => (
-                                  <Badge key={skill} variant="secondary" className="text-xs">
-                                    {skill}
-                                  </Badge>
-                                ))}
-                              </div>
-                            </div>
-                          )}
-
-                          <div className="space-y-2 text-sm text-gray-300">
-                            {request.estimatedDuration && (
-                              <div className="flex items-center gap-2">
-                                <Clock className="h-4 w-4" />
-                                <span>{request.estimatedDuration}</span>
-                              </div>
-                            )}
 
-                            {request.location && !request.isRemote && (
-                              <div className="flex items-center gap-2">
-                                <MapPin className="h-4 w-4" />
-                                <span>{request.location}</span>
+                              {request.skillsNeeded.length > 0 && (
+                                <div className="mb-4">
+                                  <p className="text-sm font-medium text-gray-200 mb-2">
+                                    Skills needed:
+                                  </p>
+                                  <div className="flex flex-wrap gap-1">
+                                    {request.skillsNeeded.map((skill) => (
+                                      <Badge key={skill} variant="secondary" className="text-xs">
+                                        {skill}
+                                      </Badge>
+                                    ))}
+                                  </div>
+                                </div>
+                              )}
+
+                              <div className="space-y-2 text-sm text-gray-300">
+                                {request.estimatedDuration && (
+                                  <div className="flex items-center gap-2">
+                                    <Clock className="h-4 w-4" />
+                                    <span>{request.estimatedDuration}</span>
+                                  </div>
+                                )}
+
+                                {request.location && !request.isRemote && (
+                                  <div className="flex items-center gap-2">
+                                    <MapPin className="h-4 w-4" />
+                                    <span>{request.location}</span>
+                                  </div>
+                                )}
+
+                                <div className="flex items-center gap-2">
+                                  <DollarSign className="h-4 w-4" />
+                                  <span>{formatBudget(request.budgetMin, request.budgetMax)}</span>
+                                </div>
+
+                                <div className="flex items-center gap-2">
+                                  <User className="h-4 w-4" />
+                                  <span>by {request.requester?.name}</span>
+                                  <PresenceStatus presence={requesterPresence[request.requester?._id]} className="ml-auto" />
+                                </div>
+
+                                <div className="text-xs text-gray-400">
+                                  Posted {formatDate(request.createdAt)}
+                                </div>
+
+                                {request.status === 'disputed' && request.disputeReason && (
+                                  <div className="p-2 bg-orange-900/30 border border-orange-700 rounded text-orange-200">
+                                    <span className="font-medium">Disputed:</span> {request.disputeReason}
+                                  </div>
+                                )}
                               </div>
-                            )}
-
-                            <div className="flex items-center gap-2">
-                              <DollarSign className="h-4 w-4" />
-                              <span>{formatBudget(request.budgetMin, request.budgetMax)}</span>
-                            </div>
-
-                            <div className="flex items-center gap-2">
-                              <User className="h-4 w-4" />
-                              <span>by {request.requester?.name}</span>
-                            </div>
-
-                            <div className="text-xs text-gray-400">
-                              Posted {formatDate(request.createdAt)}
-                            </div>
-                          </div>
 
                           
                           
-                        </CardContent>
-                        <CardFooter className="w-full ">
-                        <div className="flex gap-2">
-                            <Button
-                              onClick={() => openMessages(request)}
+                            </CardContent>
+                            <CardFooter className="w-full ">
+                            <div className="flex gap-2">
+                                <Button
+                                  onClick={() => openMessages(request)}
                               
-                              className="flex-1 bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600">
-                              <MessageCircle className="h-4 w-4" />
-                              Chat with Requester
-                            </Button>
-                            <Button
+                                  className="flex-1 bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600">
+                                  <MessageCircle className="h-4 w-4" />
+                                  Chat with Requester
+                                </Button>
+                                <Button
                               
-                              onClick={() => handleCompleteRequest(request)}
-                              className="flex-1 bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600">
-                              <CheckCircle className="h-4 w-4" />
-                              Complete Request
-                            </Button>
+                                  onClick={() => handleCompleteRequest(request)}
+                                  className="flex-1 bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600">
+                                  <CheckCircle className="h-4 w-4" />
+                                  {request.status === 'disputed' ? 'Mark as Done Again' : 'Complete Request'}
+                                </Button>
         
-                          </div>
-                        </CardFooter>
-                      </Card>
-                    ))}
-                  </div>
+                              </div>
+                            </CardFooter>
+                          </Card>
+                        ))}
+                      </div>
+                      <div ref={acceptedSentinelRef} />
+                      {acceptedQuery.isFetchingNextPage && (
+                        <div className="text-center py-4">
+                          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-purple-400 mx-auto"></div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Available Requests Section */}
+                  {availableRequests.length > 0 && (
+                    <div>
+                      <h2 className="text-xl font-semibold text-white mb-4">Available Requests</h2>
+                      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                        {availableRequests.map((request) => renderAvailableCard(request))}
+                      </div>
+                      <div ref={availableSentinelRef} />
+                      {availableQuery.isFetchingNextPage && (
+                        <div className="text-center py-4">
+                          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-purple-400 mx-auto"></div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+                )}
+            </TabsContent>
+
+            <TabsContent value="recommended">
+              {recommendedQuery.isLoading ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-400 mx-auto"></div>
+                  <p className="mt-2 text-gray-300">Finding requests that match your skills...</p>
+                </div>
+              ) : recommendedQuery.isError ? (
+                <Card className="bg-gray-900 border-gray-700">
+                  <CardContent className="text-center py-12">
+                    <p className="text-gray-300 mb-4">
+                      {recommendedQuery.error.message}
+                    </p>
+                    <Button onClick={() => recommendedQuery.refetch()} variant="outline">
+                      Try again
+                    </Button>
+                  </CardContent>
+                </Card>
+              ) : recommendations.length === 0 ? (
+                <Card className="bg-gray-900 border-gray-700">
+                  <CardContent className="text-center py-12">
+                    <p className="text-gray-300 mb-4">
+                      No recommendations yet. Add skills to your profile or complete requests to get matched with open ones.
+                    </p>
+                    <Button asChild variant="outline">
+                      <a href="/profile">Update your skills</a>
+                    </Button>
+                  </CardContent>
+                </Card>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {recommendations.map((match) => renderAvailableCard(match.request, match))}
                 </div>
               )}
-            </div>
-            )}
+            </TabsContent>
+          </Tabs>
           </div>
       </div>
 
@@ -750,6 +919,14 @@ const AcceptRequest = () => {
         </DialogContent>
       </Dialog>
 
+      {/* Proposal Dialog */}
+      <SendProposalDialog
+        isOpen={!!proposalRequest}
+        onClose={() => setProposalRequest(null)}
+        request={proposalRequest}
+        onProposalSent={() => loadProposals()}
+      />
+
       {/* Messages Dialog */}
       <Dialog open={showMessagesDialog} onOpenChange={setShowMessagesDialog}>
         <DialogContentWithoutClose className="max-w-4xl max-h-[80vh] overflow-y-auto bg-transparent border-none p-0">
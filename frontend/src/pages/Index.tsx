@@ -28,7 +28,7 @@ interface HelpRequest {
   isRemote: boolean;
   budgetMin?: number;
   budgetMax?: number;
-  status: "open" | "in_progress" | "completed";
+  status: "open" | "in_progress" | "pending_confirmation" | "completed" | "disputed" | "cancelled";
   createdAt: string;
 }
 
@@ -116,8 +116,9 @@ const Index = () => {
   const loadRequests = async () => {
     try {
       setLoading(true);
-      const data = await apiService.getRequests({ status: "open" });
-      setRequests(data.slice(0, 6)); // Show only first 6 requests
+      // Only the latest 6 open requests are previewed here
+      const data = await apiService.getRequests({ status: "open", limit: 6 });
+      setRequests(data.requests);
     } catch (error) {
       console.error("Failed to load requests:", error);
     } finally {
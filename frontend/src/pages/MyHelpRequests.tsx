@@ -18,10 +18,14 @@ import {
 } from "@/components/ui/dialog";
 import { toast } from "@/hooks/use-toast";
 import { useCustomToast } from "@/hooks/use-custom-toast";
-import { MapPin, Clock, DollarSign, User, MessageCircle, CheckCircle, Send } from "lucide-react";
+import { MapPin, Clock, DollarSign, User, MessageCircle, CheckCircle, Send, Star, Undo2 } from "lucide-react";
 import apiService from "../services/api";
 import socketService from "../services/socket";
 import Messages from "../components/Messages";
+import PresenceStatus from "../components/PresenceStatus";
+import { usePresence } from "@/hooks/use-presence";
+import ReviewDialog from "../components/ReviewDialog";
+import { useInfiniteRequests, useLoadMoreOnScroll } from "@/hooks/use-infinite-requests";
 
 interface HelpRequest {
   _id: string;
@@ -52,23 +56,40 @@ interface HelpRequest {
   isRemote: boolean;
   budgetMin?: number;
   budgetMax?: number;
-  status: "open" | "in_progress" | "completed";
+  status: "open" | "in_progress" | "pending_confirmation" | "completed" | "disputed" | "cancelled";
   createdAt: string;
   acceptedAt?: string;
   completedAt?: string;
+  confirmationDueAt?: string;
+  disputeReason?: string;
 }
 
+// Badge for each status a helper's request can be in
+const STATUS_BADGES: Partial<Record<HelpRequest["status"], { label: string; className: string }>> = {
+  in_progress: { label: "In Progress", className: "bg-blue-100 text-blue-800" },
+  pending_confirmation: { label: "Awaiting Confirmation", className: "bg-purple-100 text-purple-800" },
+  disputed: { label: "Disputed", className: "bg-orange-100 text-orange-800" },
+  completed: { label: "Completed", className: "bg-green-100 text-green-800" },
+};
+
 const MyHelpRequests = () => {
   const { user } = useAuth();
   const { showMessageNotification, showSuccessNotification, showErrorNotification } = useCustomToast();
-  const [requests, setRequests] = useState<HelpRequest[]>([]);
-  const [loading, setLoading] = useState(false);
+  // Active and completed requests where the current user is the helper
+  const requestsQuery = useInfiniteRequests<HelpRequest>(
+    { role: "helper", status: "in_progress,pending_confirmation,disputed,completed" },
+    { enabled: !!user?.id, mine: true }
+  );
+  const requests = requestsQuery.requests;
+  const loading = requestsQuery.isLoading;
+  const sentinelRef = useLoadMoreOnScroll(requestsQuery);
+  const requesterPresence = usePresence(requests.map(request => request.requester?._id));
   const [selectedRequest, setSelectedRequest] = useState<HelpRequest | null>(null);
   const [showMessagesDialog, setShowMessagesDialog] = useState(false);
+  const [reviewedRequestIds, setReviewedRequestIds] = useState<Set<string>>(new Set());
+  const [reviewRequest, setReviewRequest] = useState<HelpRequest | null>(null);
 
   useEffect(() => {
-    loadMyHelpRequests();
-    
     // Initialize socket connection if user is logged in
     if (user?.id) {
       socketService.connect(user.id);
@@ -96,7 +117,21 @@ const MyHelpRequests = () => {
         socketService.socket.on("request_status_updated", (data) => {
           console.log("🔄 Request status updated:", data);
           if (data.helperId === user?.id && data.status === 'completed') {
-            showSuccessNotification("Request Completed!", `"${data.requestTitle}" has been marked as completed.`);
+            showSuccessNotification("Request Completed!", data.autoConfirmed
+              ? `"${data.requestTitle}" was confirmed automatically.`
+              : `The requester confirmed "${data.requestTitle}" is complete.`);
+            loadMyHelpRequests();
+          }
+          if (data.helperId === user?.id && data.status === 'disputed') {
+            showMessageNotification("Completion Disputed", `"${data.requestTitle}" isn't finished yet: ${data.disputeReason}`);
+            loadMyHelpRequests();
+          }
+          if (data.helperId === user?.id && data.status === 'cancelled') {
+            showMessageNotification("Request Cancelled", `"${data.requestTitle}" was cancelled by ${data.cancelledByName || 'the requester'}.`);
+            loadMyHelpRequests();
+          }
+          if (data.previousHelperId === user?.id && data.reopenedBy) {
+            showMessageNotification("Released From Request", `${data.reopenedByName || 'The requester'} reopened "${data.requestTitle}" for other helpers.`);
             loadMyHelpRequests();
           }
         });
@@ -113,34 +148,36 @@ const MyHelpRequests = () => {
     };
   }, [user]);
 
-  const loadMyHelpRequests = async () => {
+  useEffect(() => {
+    if (requestsQuery.data) {
+      loadMyReviews();
+    }
+  }, [requestsQuery.data]);
+
+  useEffect(() => {
+    if (requestsQuery.isError) {
+      console.error("Failed to load help requests:", requestsQuery.error);
+      showErrorNotification("Error", "Failed to load your help requests");
+    }
+  }, [requestsQuery.isError]);
+
+  const loadMyHelpRequests = () => {
+    return requestsQuery.refetch();
+  };
+
+  const loadMyReviews = async () => {
     try {
-      setLoading(true);
-      
-      // Load both in_progress and completed requests where current user is the helper
-      const inProgressRequests = await apiService.getRequests({ status: "in_progress" });
-      const completedRequests = await apiService.getRequests({ status: "completed" });
-      
-      console.log("In progress requests:", inProgressRequests);
-      console.log("Completed requests:", completedRequests);
-      
-      // Filter requests where current user is the helper and ensure helper data exists
-      const myHelpRequests = [...inProgressRequests, ...completedRequests].filter((req: HelpRequest) => {
-        // Check if request has helper data and current user is the helper
-        return req.helper && req.helper._id && req.helper._id === user?.id;
-      });
-      
-      console.log("My help requests:", myHelpRequests);
-      setRequests(myHelpRequests);
-      
+      const reviews = await apiService.getMyReviews();
+      setReviewedRequestIds(new Set(reviews.map((review) => review.request?._id || review.request)));
     } catch (error) {
-      console.error("Failed to load help requests:", error);
-      showErrorNotification("Error", "Failed to load your help requests");
-    } finally {
-      setLoading(false);
+      console.error("Failed to load reviews:", error);
     }
   };
 
+  const handleReviewSubmitted = (requestId: string) => {
+    setReviewedRequestIds(prev => new Set(prev).add(requestId));
+  };
+
   const handleCompleteRequest = async (request: HelpRequest) => {
     // Safety check - ensure request has required data
     if (!request.helper || !request.requester) {
@@ -151,8 +188,7 @@ const MyHelpRequests = () => {
     try {
       await apiService.completeRequest(request._id);
       
-      showSuccessNotification("Request Completed!", `"${request.title}" has been marked as completed.`);
-
+      showSuccessNotification("Marked as Done", `${request.requester.name} has been asked to confirm "${request.title}" is complete.`);
       loadMyHelpRequests();
     } catch (error) {
       console.error("Failed to complete request:", error);
@@ -160,6 +196,17 @@ const MyHelpRequests = () => {
     }
   };
 
+  const handleWithdrawRequest = async (request: HelpRequest) => {
+    try {
+      await apiService.withdrawFromRequest(request._id);
+      showSuccessNotification("Withdrawn", `You are no longer helping with "${request.title}".`);
+      loadMyHelpRequests();
+    } catch (error) {
+      console.error("Failed to withdraw from request:", error);
+      showErrorNotification("Error", error.message || "Failed to withdraw from request");
+    }
+  };
+
   const openMessages = (request: HelpRequest) => {
     // Safety check - ensure request has required data
     if (!request.helper || !request.requester) {
@@ -248,9 +295,11 @@ const MyHelpRequests = () => {
                               <Badge className={getUrgencyColor(request.urgency)}>
                                 {request.urgency}
                               </Badge>
-                              <Badge className={request.status === 'completed' ? 'bg-green-100 text-green-800' : 'bg-blue-100 text-blue-800'}>
-                                {request.status === 'completed' ? 'Completed' : 'In Progress'}
-                              </Badge>
+                              {STATUS_BADGES[request.status] && (
+                                <Badge className={STATUS_BADGES[request.status].className}>
+                                  {STATUS_BADGES[request.status].label}
+                                </Badge>
+                              )}
                             </div>
                           </div>
                           <Avatar className="h-10 w-10">
@@ -305,23 +354,47 @@ const MyHelpRequests = () => {
                           <div className="flex items-center gap-2">
                             <User className="h-4 w-4" />
                             <span>by {request.requester?.name}</span>
+                            <PresenceStatus presence={requesterPresence[request.requester?._id]} className="ml-auto" />
                           </div>
 
                           <div className="text-xs text-gray-400">
                             Accepted {formatDate(request.acceptedAt || request.createdAt)}
                           </div>
+
+                          {request.status === 'pending_confirmation' && request.confirmationDueAt && (
+                            <div className="text-xs text-purple-300">
+                              Waiting for the requester. Confirms automatically on {formatDate(request.confirmationDueAt)}
+                            </div>
+                          )}
+
+                          {request.status === 'disputed' && request.disputeReason && (
+                            <div className="p-2 bg-orange-900/30 border border-orange-700 rounded text-orange-200">
+                              <span className="font-medium">Disputed:</span> {request.disputeReason}
+                            </div>
+                          )}
                         </div>
 
                         <div className="flex gap-2 mt-4">
                           {request.status === 'completed' ? (
-                            <Button
-                              variant="outline"
-                              className="flex-1 border-green-600 text-green-400 cursor-not-allowed"
-                              disabled
-                            >
-                              <CheckCircle className="h-4 w-4 mr-2" />
-                              Completed
-                            </Button>
+                            <>
+                              <Button
+                                variant="outline"
+                                className="flex-1 border-green-600 text-green-400 cursor-not-allowed"
+                                disabled
+                              >
+                                <CheckCircle className="h-4 w-4 mr-2" />
+                                Completed
+                              </Button>
+                              {!reviewedRequestIds.has(request._id) && (
+                                <Button
+                                  onClick={() => setReviewRequest(request)}
+                                  className="flex-1 bg-gradient-to-r from-yellow-500 to-orange-500 hover:from-yellow-600 hover:to-orange-600"
+                                >
+                                  <Star className="h-4 w-4 mr-2" />
+                                  Rate Requester
+                                </Button>
+                              )}
+                            </>
                           ) : (
                             <>
                               <Button
@@ -331,24 +404,53 @@ const MyHelpRequests = () => {
                                 <MessageCircle className="h-4 w-4 mr-2" />
                                 Chat with Requester
                               </Button>
-                              {isHelper && (
+                              {isHelper && request.status === 'pending_confirmation' && (
+                                <Button
+                                  variant="outline"
+                                  className="flex-1 border-purple-600 text-purple-300 cursor-not-allowed"
+                                  disabled
+                                >
+                                  <CheckCircle className="h-4 w-4 mr-2" />
+                                  Awaiting Confirmation
+                                </Button>
+                              )}
+                              {isHelper && request.status !== 'pending_confirmation' && (
                                 <Button
                                   onClick={() => handleCompleteRequest(request)}
                                   className="flex-1 bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600"
                                 >
                                   <CheckCircle className="h-4 w-4 mr-2" />
-                                  Mark Complete
+                                  {request.status === 'disputed' ? 'Mark as Done Again' : 'Mark Complete'}
                                 </Button>
                               )}
                             </>
                           )}
                         </div>
+
+                        {request.status === 'in_progress' && isHelper && (
+                          <div className="flex gap-2 mt-2">
+                            <Button
+                              variant="outline"
+                              onClick={() => handleWithdrawRequest(request)}
+                              className="flex-1 border-red-600 text-red-400 hover:bg-red-900/30"
+                            >
+                              <Undo2 className="h-4 w-4 mr-2" />
+                              Withdraw
+                            </Button>
+                          </div>
+                        )}
                       </CardContent>
                     </Card>
                   );
                 })}
               </div>
             )}
+            <div ref={sentinelRef} />
+            {requestsQuery.isFetchingNextPage && (
+              <div className="flex items-center justify-center py-4">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-cyan-400"></div>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -364,6 +466,16 @@ const MyHelpRequests = () => {
           )}
         </DialogContentWithoutClose>
       </Dialog>
+
+      {/* Review Dialog - Rate the requester after completion */}
+      <ReviewDialog
+        isOpen={!!reviewRequest}
+        onClose={() => setReviewRequest(null)}
+        requestId={reviewRequest?._id || null}
+        requestTitle={reviewRequest?.title}
+        revieweeName={reviewRequest?.requester?.name}
+        onReviewSubmitted={handleReviewSubmitted}
+      />
     </div>
   );
 };
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { useAuth } from "../contexts/AuthContext";
 import Navigation from "../components/Navigation";
 import { Button } from "@/components/ui/button";
@@ -19,10 +19,16 @@ import {
 } from "@/components/ui/dialog";
 import { toast } from "@/hooks/use-toast";
 import { useCustomToast } from "@/hooks/use-custom-toast";
-import { MapPin, Clock, DollarSign, User, MessageCircle, CheckCircle, XCircle, Send } from "lucide-react";
+import { MapPin, Clock, DollarSign, User, MessageCircle, CheckCircle, XCircle, Send, Star, RotateCcw, Pencil, Users, AlertTriangle } from "lucide-react";
 import apiService from "../services/api";
+import { useInfiniteRequests, useLoadMoreOnScroll } from "@/hooks/use-infinite-requests";
 import socketService from "../services/socket";
 import Messages from "../components/Messages";
+import PresenceStatus from "../components/PresenceStatus";
+import { usePresence } from "@/hooks/use-presence";
+import ReviewDialog from "../components/ReviewDialog";
+import ProposalsDialog from "../components/ProposalsDialog";
+import DisputeDialog from "../components/DisputeDialog";
 
 interface HelpRequest {
   _id: string;
@@ -53,26 +59,36 @@ interface HelpRequest {
   isRemote: boolean;
   budgetMin?: number;
   budgetMax?: number;
-  status: "open" | "in_progress" | "completed";
+  status: "open" | "in_progress" | "pending_confirmation" | "completed" | "disputed" | "cancelled";
   createdAt: string;
   acceptedAt?: string;
   completedAt?: string;
+  confirmationDueAt?: string;
+  disputeReason?: string;
 }
 
 const MyRequests = () => {
   const { user } = useAuth();
   const { showMessageNotification, showSuccessNotification, showErrorNotification } = useCustomToast();
-  const [requests, setRequests] = useState<HelpRequest[]>([]);
-  const [previousRequests, setPreviousRequests] = useState<HelpRequest[]>([]);
-  const [loading, setLoading] = useState(false);
+  const requestsQuery = useInfiniteRequests<HelpRequest>(
+    { role: "requester" },
+    { enabled: !!user?.id, mine: true }
+  );
+  const requests = requestsQuery.requests;
+  const loading = requestsQuery.isLoading;
+  const sentinelRef = useLoadMoreOnScroll(requestsQuery);
+  const helperPresence = usePresence(requests.map(request => request.helper?._id));
+  const previousRequestsRef = useRef<HelpRequest[] | null>(null);
   const [selectedRequest, setSelectedRequest] = useState<HelpRequest | null>(null);
   const [showMessageDialog, setShowMessageDialog] = useState(false);
   const [showMessagesDialog, setShowMessagesDialog] = useState(false);
   const [newMessageCount, setNewMessageCount] = useState(0);
+  const [reviewedRequestIds, setReviewedRequestIds] = useState<Set<string>>(new Set());
+  const [reviewRequest, setReviewRequest] = useState<HelpRequest | null>(null);
+  const [proposalsRequest, setProposalsRequest] = useState<HelpRequest | null>(null);
+  const [disputeRequest, setDisputeRequest] = useState<HelpRequest | null>(null);
 
   useEffect(() => {
-    loadMyRequests();
-    
     // Initialize socket connection if user is logged in
     if (user?.id) {
       socketService.connect(user.id);
@@ -120,11 +136,26 @@ const MyRequests = () => {
           showSuccessNotification("Request Accepted!", `Your request "${data.requestTitle}" has been accepted! Opening conversation...`);
           loadMyRequests();
         }
-        // Listen for request completion
-        if (data.requesterId === user?.id && data.status === 'completed') {
-          showSuccessNotification("Request Completed!", `Your request "${data.requestTitle}" has been marked as completed by ${data.completedByName || 'the helper'}.`);
+        // Listen for the helper withdrawing
+        if (data.requesterId === user?.id && data.status === 'open' && data.withdrawnBy) {
+          showMessageNotification("Helper Withdrew", `${data.withdrawnByName || 'Your helper'} withdrew from "${data.requestTitle}". It is open for other helpers again.`);
+          loadMyRequests();
+        }
+        // Listen for the helper marking the request as done
+        if (data.requesterId === user?.id && data.status === 'pending_confirmation') {
+          showMessageNotification("Please Confirm", `${data.completedByName || 'Your helper'} marked "${data.requestTitle}" as done. Confirm it or raise a dispute.`);
           loadMyRequests();
         }
+        // Confirming it yourself is handled by handleConfirmCompletion
+        if (data.requesterId === user?.id && data.status === 'completed' && data.autoConfirmed) {
+          showSuccessNotification("Request Completed!", `Your request "${data.requestTitle}" was confirmed automatically.`);
+          loadMyRequests().then((myRequests) => {
+            const completedRequest = myRequests?.find(req => req._id === data.requestId?.toString());
+            if (completedRequest) {
+              setReviewRequest(completedRequest);
+            }
+          });
+        }
       });
     }
     
@@ -139,52 +170,100 @@ const MyRequests = () => {
     };
   }, [user]);
 
+  useEffect(() => {
+    if (!requestsQuery.data) return;
+
+    const previousRequests = previousRequestsRef.current;
+    previousRequestsRef.current = requests;
+    loadMyReviews();
+
+    // Nothing to compare against on the first load
+    if (!previousRequests) return;
+
+    console.log("📋 Current requests:", requests.map(r => ({ id: r._id, title: r.title, status: r.status, helper: r.helper?.name })));
+
+    // Check if any request was just accepted (status changed to in_progress)
+    const newlyAcceptedRequest = requests.find(req =>
+      req.status === 'in_progress' && req.helper &&
+      !previousRequests.find(existingReq =>
+        existingReq._id === req._id && existingReq.status === 'in_progress' && existingReq.helper
+      )
+    );
+
+    // Automatically open message dialog for newly accepted request
+    if (newlyAcceptedRequest) {
+      console.log("🎉 Auto-opening message dialog for newly accepted request:", newlyAcceptedRequest.title);
+      showSuccessNotification("Request Accepted!", `Your request "${newlyAcceptedRequest.title}" has been accepted! Opening conversation...`);
+      setTimeout(() => {
+        setSelectedRequest(newlyAcceptedRequest);
+        setShowMessagesDialog(true);
+      }, 1000); // Small delay to ensure UI is ready
+    }
+  }, [requestsQuery.data]);
+
+  useEffect(() => {
+    if (requestsQuery.isError) {
+      console.error("Failed to load requests:", requestsQuery.error);
+      showErrorNotification("Error", "Failed to load your requests");
+    }
+  }, [requestsQuery.isError]);
+
   const loadMyRequests = async () => {
+    const result = await requestsQuery.refetch();
+    return result.data?.pages.flatMap((page) => page.requests) ?? [];
+  };
+
+  const loadMyReviews = async () => {
     try {
-      setLoading(true);
-      const data = await apiService.getRequests();
-      // Filter requests by current user's ID - show ALL requests (open, in_progress, completed)
-      const myRequests = data.filter(
-        (req: HelpRequest) => req.requester._id === user?.id
-      );
-      
-      console.log("📋 Current requests:", myRequests.map(r => ({ id: r._id, title: r.title, status: r.status, helper: r.helper?.name })));
-      console.log("📋 Previous requests:", previousRequests.map(r => ({ id: r._id, title: r.title, status: r.status, helper: r.helper?.name })));
-      
-      // Check if any request was just accepted (status changed to in_progress)
-      const newlyAcceptedRequest = myRequests.find(req => 
-        req.status === 'in_progress' && req.helper && 
-        !previousRequests.find(existingReq => 
-          existingReq._id === req._id && existingReq.status === 'in_progress' && existingReq.helper
-        )
-      );
-      
-      console.log("🎯 Newly accepted request:", newlyAcceptedRequest);
-      
-      // Update previous requests for next comparison
-      setPreviousRequests(requests);
-      setRequests(myRequests);
-      
-      // Automatically open message dialog for newly accepted request
-      if (newlyAcceptedRequest) {
-        console.log("🎉 Auto-opening message dialog for newly accepted request:", newlyAcceptedRequest.title);
-        showSuccessNotification("Request Accepted!", `Your request "${newlyAcceptedRequest.title}" has been accepted! Opening conversation...`);
-        setTimeout(() => {
-          setSelectedRequest(newlyAcceptedRequest);
-          setShowMessagesDialog(true);
-        }, 1000); // Small delay to ensure UI is ready
-      }
-      
+      const reviews = await apiService.getMyReviews();
+      setReviewedRequestIds(new Set(reviews.map((review) => review.request?._id || review.request)));
     } catch (error) {
-      console.error("Failed to load requests:", error);
-      showErrorNotification("Error", "Failed to load your requests");
-    } finally {
-      setLoading(false);
+      console.error("Failed to load reviews:", error);
     }
   };
 
+  const handleReviewSubmitted = (requestId: string) => {
+    setReviewedRequestIds(prev => new Set(prev).add(requestId));
+  };
+
 
 
+  const handleCancelRequest = async (request: HelpRequest) => {
+    try {
+      await apiService.cancelRequest(request._id);
+      showSuccessNotification("Request Cancelled", `"${request.title}" has been cancelled.`);
+      loadMyRequests();
+    } catch (error) {
+      console.error("Failed to cancel request:", error);
+      showErrorNotification("Error", error.message || "Failed to cancel request");
+    }
+  };
+
+  const handleConfirmCompletion = async (request: HelpRequest) => {
+    try {
+      await apiService.confirmCompletion(request._id);
+      showSuccessNotification("Request Completed!", `You confirmed "${request.title}" is complete.`);
+
+      // Prompt the requester to rate the helper right away
+      setReviewRequest(request);
+      loadMyRequests();
+    } catch (error) {
+      console.error("Failed to confirm completion:", error);
+      showErrorNotification("Error", error.message || "Failed to confirm completion");
+    }
+  };
+
+  const handleReopenRequest = async (request: HelpRequest) => {
+    try {
+      await apiService.reopenRequest(request._id);
+      showSuccessNotification("Request Reopened", `"${request.title}" is open for helpers again.`);
+      loadMyRequests();
+    } catch (error) {
+      console.error("Failed to reopen request:", error);
+      showErrorNotification("Error", error.message || "Failed to reopen request");
+    }
+  };
+
   const openMessages = (request: HelpRequest) => {
     // Safety check - ensure request has required data
     if (!request.requester) {
@@ -207,8 +286,14 @@ const MyRequests = () => {
         return "bg-yellow-100 text-yellow-800";
       case "in_progress":
         return "bg-blue-100 text-blue-800";
+      case "pending_confirmation":
+        return "bg-purple-100 text-purple-800";
       case "completed":
         return "bg-green-100 text-green-800";
+      case "disputed":
+        return "bg-orange-100 text-orange-800";
+      case "cancelled":
+        return "bg-red-100 text-red-800";
       default:
         return "bg-gray-100 text-gray-800";
     }
@@ -252,7 +337,7 @@ const MyRequests = () => {
                   My Requests
                 </h1>
                 <p className="text-gray-300">
-                  All requests you've created (open, in progress, and completed)
+                  All requests you've created (open, in progress, completed, and cancelled)
                 </p>
               </div>
               {newMessageCount > 0 && (
@@ -371,8 +456,24 @@ const MyRequests = () => {
                             </AvatarFallback>
                           </Avatar>
                           <span className="text-sm text-gray-300">
-                            Helper: {request.helper.name}
+                            Helper:{" "}
+                            <a href={`/users/${request.helper._id}`} className="hover:text-cyan-400 underline-offset-2 hover:underline">
+                              {request.helper.name}
+                            </a>
                           </span>
+                          <PresenceStatus presence={helperPresence[request.helper._id]} className="ml-auto" />
+                        </div>
+                      )}
+
+                      {request.status === "pending_confirmation" && request.confirmationDueAt && (
+                        <div className="text-xs text-purple-300">
+                          Marked as done. Confirms automatically on {formatDate(request.confirmationDueAt)}
+                        </div>
+                      )}
+
+                      {request.status === "disputed" && request.disputeReason && (
+                        <div className="p-2 bg-orange-900/30 border border-orange-700 rounded text-orange-200">
+                          <span className="font-medium">Your dispute:</span> {request.disputeReason}
                         </div>
                       )}
                     </div>
@@ -380,16 +481,15 @@ const MyRequests = () => {
                     <div className="flex gap-2 mt-4">
                       {request.status === "open" && (
                         <Button
-                          variant="outline"
-                          className="flex-1 border-slate-600 text-slate-400 cursor-not-allowed"
-                          disabled
+                          onClick={() => setProposalsRequest(request)}
+                          className="flex-1 bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600"
                         >
-                          <MessageCircle className="h-4 w-4 mr-2" />
-                          Waiting for Helper
+                          <Users className="h-4 w-4 mr-2" />
+                          Review Proposals
                         </Button>
                       )}
                       
-                      {request.status === "in_progress" && request.helper && (
+                      {(request.status === "in_progress" || request.status === "disputed") && request.helper && (
                         <Button
                           onClick={() => openMessages(request)}
                           className="flex-1 bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600"
@@ -399,6 +499,27 @@ const MyRequests = () => {
                         </Button>
                       )}
                       
+                      {(request.status === "pending_confirmation" || request.status === "disputed") && (
+                        <Button
+                          onClick={() => handleConfirmCompletion(request)}
+                          className="flex-1 bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600"
+                        >
+                          <CheckCircle className="h-4 w-4 mr-2" />
+                          Confirm Completion
+                        </Button>
+                      )}
+
+                      {request.status === "pending_confirmation" && (
+                        <Button
+                          variant="outline"
+                          onClick={() => setDisputeRequest(request)}
+                          className="flex-1 border-orange-600 text-orange-400 hover:bg-orange-900/30"
+                        >
+                          <AlertTriangle className="h-4 w-4 mr-2" />
+                          Dispute
+                        </Button>
+                      )}
+
                       {request.status === "completed" && (
                         <Button
                           variant="outline"
@@ -409,12 +530,71 @@ const MyRequests = () => {
                           Completed
                         </Button>
                       )}
+
+                      {request.status === "completed" && request.helper && !reviewedRequestIds.has(request._id) && (
+                        <Button
+                          onClick={() => setReviewRequest(request)}
+                          className="flex-1 bg-gradient-to-r from-yellow-500 to-orange-500 hover:from-yellow-600 hover:to-orange-600"
+                        >
+                          <Star className="h-4 w-4 mr-2" />
+                          Rate Helper
+                        </Button>
+                      )}
+
+                      {request.status === "cancelled" && (
+                        <Button
+                          onClick={() => handleReopenRequest(request)}
+                          className="flex-1 bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600"
+                        >
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          Reopen Request
+                        </Button>
+                      )}
                     </div>
+
+                    {(request.status === "open" || request.status === "in_progress") && (
+                      <div className="flex gap-2 mt-2">
+                        {request.status === "open" && (
+                          <Button
+                            variant="outline"
+                            onClick={() => window.location.href = `/send-request/${request._id}/edit`}
+                            className="flex-1 border-slate-600 text-white hover:bg-slate-700"
+                          >
+                            <Pencil className="h-4 w-4 mr-2" />
+                            Edit
+                          </Button>
+                        )}
+                        {request.status === "in_progress" && (
+                          <Button
+                            variant="outline"
+                            onClick={() => handleReopenRequest(request)}
+                            className="flex-1 border-slate-600 text-white hover:bg-slate-700"
+                          >
+                            <RotateCcw className="h-4 w-4 mr-2" />
+                            Find Another Helper
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          onClick={() => handleCancelRequest(request)}
+                          className="flex-1 border-red-600 text-red-400 hover:bg-red-900/30"
+                        >
+                          <XCircle className="h-4 w-4 mr-2" />
+                          Cancel Request
+                        </Button>
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               ))}
             </div>
           )}
+          <div ref={sentinelRef} />
+          {requestsQuery.isFetchingNextPage && (
+            <div className="text-center py-4">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-purple-400 mx-auto"></div>
+            </div>
+          )}
         </div>
       </div>
 
@@ -430,6 +610,32 @@ const MyRequests = () => {
         </DialogContentWithoutClose>
       </Dialog>
 
+      {/* Review Dialog - Rate the helper after completion */}
+      <ReviewDialog
+        isOpen={!!reviewRequest}
+        onClose={() => setReviewRequest(null)}
+        requestId={reviewRequest?._id || null}
+        requestTitle={reviewRequest?.title}
+        revieweeName={reviewRequest?.helper?.name}
+        onReviewSubmitted={handleReviewSubmitted}
+      />
+
+      {/* Proposals Dialog - Compare offers and choose a helper */}
+      <ProposalsDialog
+        isOpen={!!proposalsRequest}
+        onClose={() => setProposalsRequest(null)}
+        request={proposalsRequest}
+        onProposalAccepted={() => loadMyRequests()}
+      />
+
+      {/* Dispute Dialog - Say why a request marked as done isn't finished */}
+      <DisputeDialog
+        isOpen={!!disputeRequest}
+        onClose={() => setDisputeRequest(null)}
+        request={disputeRequest}
+        onDisputed={() => loadMyRequests()}
+      />
+
       {/* Message Dialog - Quick Message */}
       <Dialog open={showMessageDialog} onOpenChange={setShowMessageDialog}>
         <DialogContent className="bg-slate-800 border-slate-700 text-white">
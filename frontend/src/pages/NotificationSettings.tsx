@@ -0,0 +1,333 @@
+import React, { useState, useEffect } from "react";
+import Navigation from "../components/Navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useCustomToast } from "@/hooks/use-custom-toast";
+import apiService from "../services/api";
+
+interface Category {
+  _id: string;
+  name: string;
+}
+
+interface SubscriptionSettings {
+  categories: string[];
+  skills: string[];
+  realtime: boolean;
+  emailDigest: "off" | "daily";
+  maxPerHour: number;
+  quietHours: {
+    enabled: boolean;
+    // Minutes after midnight in `timezone`
+    start: number;
+    end: number;
+    timezone: string;
+  };
+}
+
+const RATE_LIMIT_OPTIONS = [1, 3, 5, 10, 20];
+
+const toTimeValue = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+const fromTimeValue = (value: string) => {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+const NotificationSettings = () => {
+  const { showSuccessNotification, showErrorNotification } = useCustomToast();
+  const [settings, setSettings] = useState<SubscriptionSettings | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [newSkill, setNewSkill] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setLoading(true);
+      const [subscription, categoryList] = await Promise.all([
+        apiService.getSubscription(),
+        apiService.getCategories(),
+      ]);
+      setSettings(subscription);
+      setCategories(categoryList);
+    } catch (error) {
+      console.error("Failed to load notification settings:", error);
+      setSettings(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const update = (changes: Partial<SubscriptionSettings>) => {
+    setSettings((prev) => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const updateQuietHours = (changes: Partial<SubscriptionSettings["quietHours"]>) => {
+    setSettings((prev) => (prev ? { ...prev, quietHours: { ...prev.quietHours, ...changes } } : prev));
+  };
+
+  const toggleCategory = (categoryId: string) => {
+    if (!settings) return;
+    update({
+      categories: settings.categories.includes(categoryId)
+        ? settings.categories.filter((id) => id !== categoryId)
+        : [...settings.categories, categoryId],
+    });
+  };
+
+  const addSkill = () => {
+    const skill = newSkill.trim();
+    if (settings && skill && !settings.skills.some((s) => s.toLowerCase() === skill.toLowerCase())) {
+      update({ skills: [...settings.skills, skill] });
+      setNewSkill("");
+    }
+  };
+
+  const removeSkill = (skillToRemove: string) => {
+    if (!settings) return;
+    update({ skills: settings.skills.filter((skill) => skill !== skillToRemove) });
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    try {
+      setSaving(true);
+      // Quiet hours follow the browser's time zone
+      const saved = await apiService.updateSubscription({
+        ...settings,
+        quietHours: {
+          ...settings.quietHours,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        },
+      });
+      setSettings(saved);
+      showSuccessNotification("Settings Saved", "Your notification settings have been updated.");
+    } catch (error) {
+      console.error("Failed to save notification settings:", error);
+      showErrorNotification("Error", error.message || "Failed to save your notification settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+      <Navigation />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-20 pb-8">
+        <div className="max-w-3xl mx-auto">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-white mb-2">Request Alerts</h1>
+            <p className="text-gray-300">
+              Choose which new requests you hear about and when
+            </p>
+          </div>
+
+          {loading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-400 mx-auto"></div>
+              <p className="mt-2 text-gray-300">Loading settings...</p>
+            </div>
+          ) : !settings ? (
+            <Card className="bg-gray-900 border-gray-700">
+              <CardContent className="text-center py-12">
+                <p className="text-gray-300 mb-4">Your notification settings could not be loaded.</p>
+                <Button onClick={loadSettings} variant="outline">
+                  Try again
+                </Button>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-6">
+              <Card className="bg-gray-900 border-gray-700">
+                <CardHeader>
+                  <CardTitle className="text-white">What to watch</CardTitle>
+                  <CardDescription className="text-gray-400">
+                    You'll be notified when a request is posted in one of these categories or needs one of these skills.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="space-y-2">
+                    <Label className="text-white">Categories</Label>
+                    <div className="flex flex-wrap gap-2">
+                      {categories.map((category) => {
+                        const selected = settings.categories.includes(category._id);
+                        return (
+                          <Badge
+                            key={category._id}
+                            variant={selected ? "default" : "outline"}
+                            className={`cursor-pointer ${
+                              selected
+                                ? "bg-cyan-500 text-white hover:bg-cyan-600"
+                                : "border-slate-600 text-gray-300 hover:bg-slate-700"
+                            }`}
+                            onClick={() => toggleCategory(category._id)}>
+                            {category.name}
+                          </Badge>
+                        );
+                      })}
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label className="text-white">Skills</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="Add a skill"
+                        value={newSkill}
+                        maxLength={50}
+                        onChange={(e) => setNewSkill(e.target.value)}
+                        onKeyPress={(e) =>
+                          e.key === "Enter" && (e.preventDefault(), addSkill())
+                        }
+                        className="bg-slate-700 border-slate-600 text-white placeholder:text-slate-400 focus:border-cyan-400"
+                      />
+                      <Button type="button" onClick={addSkill} variant="outline" className="border-slate-600 text-white hover:bg-slate-600">
+                        Add
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {settings.skills.map((skill) => (
+                        <Badge
+                          key={skill}
+                          variant="secondary"
+                          className="cursor-pointer bg-slate-600 text-white hover:bg-slate-500"
+                          onClick={() => removeSkill(skill)}>
+                          {skill} ×
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card className="bg-gray-900 border-gray-700">
+                <CardHeader>
+                  <CardTitle className="text-white">How to notify me</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <Label htmlFor="realtime" className="text-white">Instant notifications</Label>
+                      <p className="text-sm text-gray-400">Show an alert as soon as a matching request is posted.</p>
+                    </div>
+                    <Switch
+                      id="realtime"
+                      checked={settings.realtime}
+                      onCheckedChange={(checked) => update({ realtime: checked })}
+                    />
+                  </div>
+
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <Label className="text-white">Email digest</Label>
+                      <p className="text-sm text-gray-400">A summary of matching requests you haven't seen yet.</p>
+                    </div>
+                    <Select
+                      value={settings.emailDigest}
+                      onValueChange={(value) => update({ emailDigest: value as SubscriptionSettings["emailDigest"] })}>
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="off">Off</SelectItem>
+                        <SelectItem value="daily">Daily</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <Label className="text-white">Limit</Label>
+                      <p className="text-sm text-gray-400">The most matching requests you'll be told about in an hour.</p>
+                    </div>
+                    <Select
+                      value={String(settings.maxPerHour)}
+                      onValueChange={(value) => update({ maxPerHour: Number(value) })}>
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {RATE_LIMIT_OPTIONS.map((option) => (
+                          <SelectItem key={option} value={String(option)}>
+                            {option} per hour
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between gap-4">
+                      <div>
+                        <Label htmlFor="quiet-hours" className="text-white">Quiet hours</Label>
+                        <p className="text-sm text-gray-400">No instant alerts or digests during these hours.</p>
+                      </div>
+                      <Switch
+                        id="quiet-hours"
+                        checked={settings.quietHours.enabled}
+                        onCheckedChange={(checked) => updateQuietHours({ enabled: checked })}
+                      />
+                    </div>
+                    {settings.quietHours.enabled && (
+                      <div className="flex items-center gap-2 text-gray-300">
+                        <span className="text-sm">From</span>
+                        <Input
+                          type="time"
+                          value={toTimeValue(settings.quietHours.start)}
+                          onChange={(e) => e.target.value && updateQuietHours({ start: fromTimeValue(e.target.value) })}
+                          className="w-32 bg-slate-700 border-slate-600 text-white"
+                        />
+                        <span className="text-sm">to</span>
+                        <Input
+                          type="time"
+                          value={toTimeValue(settings.quietHours.end)}
+                          onChange={(e) => e.target.value && updateQuietHours({ end: fromTimeValue(e.target.value) })}
+                          className="w-32 bg-slate-700 border-slate-600 text-white"
+                        />
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Button
+                onClick={handleSave}
+                disabled={saving}
+                className="w-full bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600"
+              >
+                {saving ? "Saving..." : "Save Settings"}
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationSettings;
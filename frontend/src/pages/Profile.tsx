@@ -0,0 +1,337 @@
+import React, { useState, useEffect } from "react";
+import { useParams } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+import Navigation from "../components/Navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { useCustomToast } from "@/hooks/use-custom-toast";
+import { Star, CheckCircle, Pencil } from "lucide-react";
+import apiService from "../services/api";
+
+interface Review {
+  _id: string;
+  reviewer: {
+    _id: string;
+    name: string;
+    picture?: string;
+  };
+  request?: {
+    _id: string;
+    title: string;
+  };
+  rating: number;
+  comment: string;
+  createdAt: string;
+}
+
+interface PublicProfile {
+  id: string;
+  name: string;
+  picture?: string;
+  bio: string;
+  skills: string[];
+  rating: number;
+  totalReviews: number;
+  completedHelpCount: number;
+  recentReviews: Review[];
+  memberSince: string;
+}
+
+const Profile = () => {
+  const { id: routeUserId } = useParams<{ id: string }>();
+  const { user, updateProfile } = useAuth();
+  const { showSuccessNotification, showErrorNotification } = useCustomToast();
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [bio, setBio] = useState("");
+  const [skills, setSkills] = useState<string[]>([]);
+  const [newSkill, setNewSkill] = useState("");
+
+  const profileUserId = routeUserId || user?.id;
+  const isOwnProfile = !!user && profileUserId === user.id;
+
+  useEffect(() => {
+    if (profileUserId) {
+      loadProfile(profileUserId);
+    }
+  }, [profileUserId]);
+
+  const loadProfile = async (userId: string) => {
+    try {
+      setLoading(true);
+      const data = await apiService.getUserById(userId);
+      setProfile(data);
+      setBio(data.bio || "");
+      setSkills(data.skills || []);
+    } catch (error) {
+      console.error("Failed to load profile:", error);
+      setProfile(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addSkill = () => {
+    const skill = newSkill.trim();
+    if (skill && !skills.some((s) => s.toLowerCase() === skill.toLowerCase())) {
+      setSkills([...skills, skill]);
+      setNewSkill("");
+    }
+  };
+
+  const removeSkill = (skillToRemove: string) => {
+    setSkills(skills.filter((skill) => skill !== skillToRemove));
+  };
+
+  const cancelEditing = () => {
+    setBio(profile?.bio || "");
+    setSkills(profile?.skills || []);
+    setNewSkill("");
+    setIsEditing(false);
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      await updateProfile({ bio: bio.trim(), skills });
+      setProfile((prev) => (prev ? { ...prev, bio: bio.trim(), skills } : prev));
+      setIsEditing(false);
+      showSuccessNotification("Profile Updated", "Your profile has been saved.");
+    } catch (error) {
+      console.error("Failed to update profile:", error);
+      showErrorNotification("Error", "Failed to update your profile");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderStars = (rating: number, size = "h-4 w-4") => (
+    <div className="flex items-center gap-0.5">
+      {[1, 2, 3, 4, 5].map((value) => (
+        <Star
+          key={value}
+          className={`${size} ${
+            value <= Math.round(rating) ? "fill-yellow-400 text-yellow-400" : "text-slate-500"
+          }`}
+        />
+      ))}
+    </div>
+  );
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString();
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+      <Navigation />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-20 pb-8">
+        <div className="max-w-3xl mx-auto">
+          {loading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-400 mx-auto"></div>
+              <p className="mt-2 text-gray-300">Loading profile...</p>
+            </div>
+          ) : !profile ? (
+            <Card className="bg-gray-900 border-gray-700">
+              <CardContent className="text-center py-12">
+                <p className="text-gray-300">This profile could not be found.</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-6">
+              <Card className="bg-gray-900 border-gray-700">
+                <CardContent className="pt-6">
+                  <div className="flex items-start gap-6">
+                    <Avatar className="h-20 w-20 ring-2 ring-cyan-400">
+                      <AvatarImage src={profile.picture} />
+                      <AvatarFallback className="text-2xl bg-gradient-to-r from-cyan-500 to-purple-500 text-white">
+                        {profile.name?.charAt(0) || "?"}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1">
+                      <div className="flex items-center justify-between">
+                        <h1 className="text-3xl font-bold text-white">{profile.name}</h1>
+                        {isOwnProfile && !isEditing && (
+                          <Button
+                            variant="outline"
+                            onClick={() => setIsEditing(true)}
+                            className="border-slate-600 text-white hover:bg-slate-700"
+                          >
+                            <Pencil className="h-4 w-4 mr-2" />
+                            Edit Profile
+                          </Button>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-4 mt-2 text-sm text-gray-300">
+                        <div className="flex items-center gap-2">
+                          {renderStars(profile.rating)}
+                          <span>
+                            {profile.totalReviews > 0
+                              ? `${profile.rating.toFixed(1)} (${profile.totalReviews} review${profile.totalReviews === 1 ? "" : "s"})`
+                              : "No reviews yet"}
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <CheckCircle className="h-4 w-4 text-green-400" />
+                          <span>{profile.completedHelpCount} request{profile.completedHelpCount === 1 ? "" : "s"} helped</span>
+                        </div>
+                      </div>
+                      {profile.memberSince && (
+                        <p className="text-xs text-gray-400 mt-1">
+                          Member since {formatDate(profile.memberSince)}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card className="bg-gray-900 border-gray-700">
+                <CardHeader>
+                  <CardTitle className="text-white">About</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {isEditing ? (
+                    <div className="space-y-6">
+                      <div className="space-y-2">
+                        <Label htmlFor="bio" className="text-white">Bio</Label>
+                        <Textarea
+                          id="bio"
+                          value={bio}
+                          maxLength={500}
+                          rows={4}
+                          onChange={(e) => setBio(e.target.value)}
+                          placeholder="Tell others what you're studying and how you like to help..."
+                          className="bg-slate-700 border-slate-600 text-white placeholder:text-slate-400 focus:border-cyan-400"
+                        />
+                        <p className="text-xs text-gray-400 text-right">{bio.length}/500</p>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label className="text-white">Skills I can help with</Label>
+                        <div className="flex gap-2">
+                          <Input
+                            placeholder="Add a skill"
+                            value={newSkill}
+                            maxLength={50}
+                            onChange={(e) => setNewSkill(e.target.value)}
+                            onKeyPress={(e) =>
+                              e.key === "Enter" && (e.preventDefault(), addSkill())
+                            }
+                            className="bg-slate-700 border-slate-600 text-white placeholder:text-slate-400 focus:border-cyan-400"
+                          />
+                          <Button type="button" onClick={addSkill} variant="outline" className="border-slate-600 text-white hover:bg-slate-600">
+                            Add
+                          </Button>
+                        </div>
+                        <div className="flex flex-wrap gap-2 mt-2">
+                          {skills.map((skill) => (
+                            <Badge
+                              key={skill}
+                              variant="secondary"
+                              className="cursor-pointer bg-slate-600 text-white hover:bg-slate-500"
+                              onClick={() => removeSkill(skill)}>
+                              {skill} ×
+                            </Badge>
+                          ))}
+                        </div>
+                      </div>
+
+                      <div className="flex gap-2">
+                        <Button
+                          onClick={handleSave}
+                          disabled={saving}
+                          className="flex-1 bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600"
+                        >
+                          {saving ? "Saving..." : "Save Profile"}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          onClick={cancelEditing}
+                          className="border-slate-600 text-white hover:bg-slate-700"
+                        >
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="space-y-4">
+                      <p className="text-gray-300 whitespace-pre-line">
+                        {profile.bio || (isOwnProfile ? "Add a bio so others know how you can help." : "No bio yet.")}
+                      </p>
+                      <div>
+                        <p className="text-sm font-medium text-gray-200 mb-2">Skills:</p>
+                        {profile.skills.length > 0 ? (
+                          <div className="flex flex-wrap gap-1">
+                            {profile.skills.map((skill) => (
+                              <Badge key={skill} variant="secondary" className="text-xs">
+                                {skill}
+                              </Badge>
+                            ))}
+                          </div>
+                        ) : (
+                          <p className="text-sm text-gray-400">No skills listed yet.</p>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="bg-gray-900 border-gray-700">
+                <CardHeader>
+                  <CardTitle className="text-white">Recent Reviews</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {profile.recentReviews.length === 0 ? (
+                    <p className="text-gray-400 text-sm">No reviews yet.</p>
+                  ) : (
+                    <div className="space-y-4">
+                      {profile.recentReviews.map((review) => (
+                        <div key={review._id} className="p-3 bg-gray-800 rounded">
+                          <div className="flex items-center justify-between mb-2">
+                            <div className="flex items-center gap-2">
+                              <Avatar className="h-6 w-6">
+                                <AvatarImage src={review.reviewer?.picture} />
+                                <AvatarFallback>{review.reviewer?.name?.charAt(0) || "?"}</AvatarFallback>
+                              </Avatar>
+                              <span className="text-sm text-white">{review.reviewer?.name}</span>
+                            </div>
+                            {renderStars(review.rating, "h-3 w-3")}
+                          </div>
+                          {review.comment && (
+                            <p className="text-sm text-gray-300">{review.comment}</p>
+                          )}
+                          <p className="text-xs text-gray-400 mt-1">
+                            {review.request?.title ? `${review.request.title} · ` : ""}
+                            {formatDate(review.createdAt)}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Profile;
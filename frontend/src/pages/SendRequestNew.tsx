@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useParams } from "react-router-dom";
 import { useAuth } from "../contexts/AuthContext";
 import Navigation from "../components/Navigation";
 import { Button } from "@/components/ui/button";
@@ -35,8 +35,11 @@ interface Category {
 const SendRequest = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
+  const { id: editRequestId } = useParams<{ id: string }>();
+  const isEditMode = !!editRequestId;
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(false);
+  const [loadingRequest, setLoadingRequest] = useState(isEditMode);
   const [skills, setSkills] = useState<string[]>([]);
   const [newSkill, setNewSkill] = useState("");
 
@@ -56,6 +59,52 @@ const SendRequest = () => {
     fetchCategories();
   }, []);
 
+  useEffect(() => {
+    if (editRequestId) {
+      loadRequestForEdit(editRequestId);
+    }
+  }, [editRequestId]);
+
+  const loadRequestForEdit = async (requestId: string) => {
+    try {
+      setLoadingRequest(true);
+      const request = await apiService.getRequestById(requestId);
+
+      if (request.requester?._id !== user?.id || request.status !== "open") {
+        toast({
+          title: "Cannot edit request",
+          description: "Only your own open requests can be edited.",
+          variant: "destructive",
+        });
+        navigate("/my-requests");
+        return;
+      }
+
+      setFormData({
+        title: request.title,
+        description: request.description,
+        categoryId: request.category?._id || "",
+        urgency: request.urgency || "medium",
+        estimatedDuration: request.estimatedDuration || "",
+        location: request.location || "",
+        isRemote: request.isRemote !== false,
+        budgetMin: request.budgetMin != null ? String(request.budgetMin) : "",
+        budgetMax: request.budgetMax != null ? String(request.budgetMax) : "",
+      });
+      setSkills(request.skillsNeeded || []);
+    } catch (error) {
+      console.error("Failed to load request:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load the request for editing.",
+        variant: "destructive",
+      });
+      navigate("/my-requests");
+    } finally {
+      setLoadingRequest(false);
+    }
+  };
+
   const fetchCategories = async () => {
     try {
       const data = await apiService.getCategories();
@@ -131,19 +180,32 @@ const SendRequest = () => {
         budgetMax: formData.budgetMax ? parseFloat(formData.budgetMax) : null,
       };
 
-      await apiService.createRequest(requestData);
+      if (isEditMode) {
+        await apiService.updateRequest(editRequestId, requestData);
 
-      toast({
-        title: "Success",
-        description: "Your help request has been posted!",
-      });
+        toast({
+          title: "Success",
+          description: "Your help request has been updated!",
+        });
 
-      navigate("/accept-request");
+        navigate("/my-requests");
+      } else {
+        await apiService.createRequest(requestData);
+
+        toast({
+          title: "Success",
+          description: "Your help request has been posted!",
+        });
+
+        navigate("/accept-request");
+      }
     } catch (error) {
-      console.error("Failed to create request:", error);
+      console.error(`Failed to ${isEditMode ? "update" : "create"} request:`, error);
       toast({
         title: "Error",
-        description: "Failed to post your request. Please try again.",
+        description: isEditMode
+          ? "Failed to update your request. Please try again."
+          : "Failed to post your request. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -160,192 +222,204 @@ const SendRequest = () => {
           <Card className="bg-slate-800 border-slate-700 text-white">
             <CardHeader>
               <CardTitle className="text-2xl text-center text-white">
-                Post a Help Request
+                {isEditMode ? "Edit Help Request" : "Post a Help Request"}
               </CardTitle>
               <CardDescription className="text-center text-slate-300">
-                Describe what you need help with and connect with skilled peers
+                {isEditMode
+                  ? "Update the details of your request while it is still open"
+                  : "Describe what you need help with and connect with skilled peers"}
               </CardDescription>
             </CardHeader>
 
             <CardContent className="text-white">
-              <form onSubmit={handleSubmit} className="space-y-6">
-                {/* Title */}
-                <div className="space-y-2">
-                  <Label htmlFor="title" className="text-white">Title *</Label>
-                  <Input
-                    id="title"
-                    placeholder="What do you need help with?"
-                    value={formData.title}
-                    onChange={(e) => handleInputChange("title", e.target.value)}
-                    required
-                    className="bg-slate-700 border-slate-600 text-white placeholder:text-slate-400 focus:border-cyan-400"
-                  />
+              {loadingRequest ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-400 mx-auto"></div>
+                  <p className="mt-2 text-gray-300">Loading request...</p>
                 </div>
-
-                {/* Description */}
-                <div className="space-y-2">
-                  <Label htmlFor="description" className="text-white">Description *</Label>
-                  <Textarea
-                    id="description"
-                    placeholder="Provide more details about your request..."
-                    value={formData.description}
-                    onChange={(e) =>
-                      handleInputChange("description", e.target.value)
-                    }
-                    rows={4}
-                    required
-                    className="bg-slate-700 border-slate-600 text-white placeholder:text-slate-400 focus:border-cyan-400"
-                  />
-                </div>
-
-                {/* Category */}
-                <div className="space-y-2">
-                  <Label className="text-white">Category *</Label>
-                  <Select
-                    onValueChange={(value) =>
-                      handleInputChange("categoryId", value)
-                    }>
-                    <SelectTrigger className="bg-slate-700 border-slate-600 text-white focus:border-cyan-400">
-                      <SelectValue placeholder="Select a category" />
-                    </SelectTrigger>
-                    <SelectContent className="bg-slate-700 border-slate-600">
-                      {categories.map((category) => (
-                        <SelectItem
-                          key={category._id}
-                          value={category._id}
-                          className="text-white hover:bg-slate-600">
-                          {category.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-
-                {/* Skills Needed */}
-                <div className="space-y-2">
-                  <Label className="text-white">Skills Needed</Label>
-                  <div className="flex gap-2">
+              ) : (
+                <form onSubmit={handleSubmit} className="space-y-6">
+                  {/* Title */}
+                  <div className="space-y-2">
+                    <Label htmlFor="title" className="text-white">Title *</Label>
                     <Input
-                      placeholder="Add a skill"
-                      value={newSkill}
-                      onChange={(e) => setNewSkill(e.target.value)}
-                      onKeyPress={(e) =>
-                        e.key === "Enter" && (e.preventDefault(), addSkill())
-                      }
+                      id="title"
+                      placeholder="What do you need help with?"
+                      value={formData.title}
+                      onChange={(e) => handleInputChange("title", e.target.value)}
+                      required
                       className="bg-slate-700 border-slate-600 text-white placeholder:text-slate-400 focus:border-cyan-400"
                     />
-                    <Button type="button" onClick={addSkill} variant="outline" className="border-slate-600 text-white hover:bg-slate-600">
-                      Add
-                    </Button>
-                  </div>
-                  <div className="flex flex-wrap gap-2 mt-2">
-                    {skills.map((skill) => (
-                      <Badge
-                        key={skill}
-                        variant="secondary"
-                        className="cursor-pointer bg-slate-600 text-white hover:bg-slate-500"
-                        onClick={() => removeSkill(skill)}>
-                        {skill} ×
-                      </Badge>
-                    ))}
                   </div>
-                </div>
-
-                {/* Urgency */}
-                <div className="space-y-2">
-                  <Label className="text-white">Urgency</Label>
-                  <Select
-                    onValueChange={(value) =>
-                      handleInputChange("urgency", value)
-                    }
-                    defaultValue="medium">
-                    <SelectTrigger className="bg-slate-700 border-slate-600 text-white focus:border-cyan-400">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent className="bg-slate-700 border-slate-600">
-                      <SelectItem value="low" className="text-white hover:bg-slate-600">Low - Can wait</SelectItem>
-                      <SelectItem value="medium" className="text-white hover:bg-slate-600">
-                        Medium - Within a week
-                      </SelectItem>
-                      <SelectItem value="high" className="text-white hover:bg-slate-600">High - Urgent</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-
-                {/* Duration */}
-                <div className="space-y-2">
-                  <Label htmlFor="duration" className="text-white">Estimated Duration</Label>
-                  <Input
-                    id="duration"
-                    placeholder="e.g., 2 hours, 1 day, 1 week"
-                    value={formData.estimatedDuration}
-                    onChange={(e) =>
-                      handleInputChange("estimatedDuration", e.target.value)
-                    }
-                    className="bg-slate-700 border-slate-600 text-white placeholder:text-slate-400 focus:border-cyan-400"
-                  />
-                </div>
 
-                {/* Remote/Location */}
-                <div className="space-y-4">
-                  <div className="flex items-center space-x-2">
-                    <Switch
-                      id="remote"
-                      checked={formData.isRemote}
-                      
-                      onCheckedChange={(checked) =>
-                        handleInputChange("isRemote", checked)
+                  {/* Description */}
+                  <div className="space-y-2">
+                    <Label htmlFor="description" className="text-white">Description *</Label>
+                    <Textarea
+                      id="description"
+                      placeholder="Provide more details about your request..."
+                      value={formData.description}
+                      onChange={(e) =>
+                        handleInputChange("description", e.target.value)
                       }
-                      className="data-[state=checked]:bg-cyan-400 data-[state=unchecked]:bg-slate-600"
+                      rows={4}
+                      required
+                      className="bg-slate-700 border-slate-600 text-white placeholder:text-slate-400 focus:border-cyan-400"
                     />
-                    <Label htmlFor="remote" className="text-white">Remote help is okay</Label>
                   </div>
 
-                  {!formData.isRemote && (
-                    <div className="space-y-2">
-                      <Label htmlFor="location" className="text-white">Location</Label>
+                  {/* Category */}
+                  <div className="space-y-2">
+                    <Label className="text-white">Category *</Label>
+                    <Select
+                      value={formData.categoryId}
+                      onValueChange={(value) =>
+                        handleInputChange("categoryId", value)
+                      }>
+                      <SelectTrigger className="bg-slate-700 border-slate-600 text-white focus:border-cyan-400">
+                        <SelectValue placeholder="Select a category" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-slate-700 border-slate-600">
+                        {categories.map((category) => (
+                          <SelectItem
+                            key={category._id}
+                            value={category._id}
+                            className="text-white hover:bg-slate-600">
+                            {category.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Skills Needed */}
+                  <div className="space-y-2">
+                    <Label className="text-white">Skills Needed</Label>
+                    <div className="flex gap-2">
                       <Input
-                        id="location"
-                        placeholder="Where do you need help?"
-                        value={formData.location}
-                        onChange={(e) =>
-                          handleInputChange("location", e.target.value)
+                        placeholder="Add a skill"
+                        value={newSkill}
+                        onChange={(e) => setNewSkill(e.target.value)}
+                        onKeyPress={(e) =>
+                          e.key === "Enter" && (e.preventDefault(), addSkill())
                         }
                         className="bg-slate-700 border-slate-600 text-white placeholder:text-slate-400 focus:border-cyan-400"
                       />
+                      <Button type="button" onClick={addSkill} variant="outline" className="border-slate-600 text-white hover:bg-slate-600">
+                        Add
+                      </Button>
                     </div>
-                  )}
-                </div>
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {skills.map((skill) => (
+                        <Badge
+                          key={skill}
+                          variant="secondary"
+                          className="cursor-pointer bg-slate-600 text-white hover:bg-slate-500"
+                          onClick={() => removeSkill(skill)}>
+                          {skill} ×
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
 
-                {/* Budget */}
-                <div className="space-y-2">
-                  <Label className="text-white">Budget (Optional)</Label>
-                  <div className="flex gap-2">
-                    <Input
-                      placeholder="Min $"
-                      type="number"
-                      value={formData.budgetMin}
-                      onChange={(e) =>
-                        handleInputChange("budgetMin", e.target.value)
+                  {/* Urgency */}
+                  <div className="space-y-2">
+                    <Label className="text-white">Urgency</Label>
+                    <Select
+                      onValueChange={(value) =>
+                        handleInputChange("urgency", value)
                       }
-                      className="bg-slate-700 border-slate-600 text-white placeholder:text-slate-400 focus:border-cyan-400"
-                    />
+                      value={formData.urgency}>
+                      <SelectTrigger className="bg-slate-700 border-slate-600 text-white focus:border-cyan-400">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-slate-700 border-slate-600">
+                        <SelectItem value="low" className="text-white hover:bg-slate-600">Low - Can wait</SelectItem>
+                        <SelectItem value="medium" className="text-white hover:bg-slate-600">
+                          Medium - Within a week
+                        </SelectItem>
+                        <SelectItem value="high" className="text-white hover:bg-slate-600">High - Urgent</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Duration */}
+                  <div className="space-y-2">
+                    <Label htmlFor="duration" className="text-white">Estimated Duration</Label>
                     <Input
-                      placeholder="Max $"
-                      type="number"
-                      value={formData.budgetMax}
+                      id="duration"
+                      placeholder="e.g., 2 hours, 1 day, 1 week"
+                      value={formData.estimatedDuration}
                       onChange={(e) =>
-                        handleInputChange("budgetMax", e.target.value)
+                        handleInputChange("estimatedDuration", e.target.value)
                       }
                       className="bg-slate-700 border-slate-600 text-white placeholder:text-slate-400 focus:border-cyan-400"
                     />
                   </div>
-                </div>
 
-                <Button type="submit" className="w-full bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white" disabled={loading}>
-                  {loading ? "Posting..." : "Post Request"}
-                </Button>
-              </form>
+                  {/* Remote/Location */}
+                  <div className="space-y-4">
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id="remote"
+                        checked={formData.isRemote}
+                        
+                        onCheckedChange={(checked) =>
+                          handleInputChange("isRemote", checked)
+                        }
+                        className="data-[state=checked]:bg-cyan-400 data-[state=unchecked]:bg-slate-600"
+                      />
+                      <Label htmlFor="remote" className="text-white">Remote help is okay</Label>
+                    </div>
+
+                    {!formData.isRemote && (
+                      <div className="space-y-2">
+                        <Label htmlFor="location" className="text-white">Location</Label>
+                        <Input
+                          id="location"
+                          placeholder="Where do you need help?"
+                          value={formData.location}
+                          onChange={(e) =>
+                            handleInputChange("location", e.target.value)
+                          }
+                          className="bg-slate-700 border-slate-600 text-white placeholder:text-slate-400 focus:border-cyan-400"
+                        />
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Budget */}
+                  <div className="space-y-2">
+                    <Label className="text-white">Budget (Optional)</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="Min $"
+                        type="number"
+                        value={formData.budgetMin}
+                        onChange={(e) =>
+                          handleInputChange("budgetMin", e.target.value)
+                        }
+                        className="bg-slate-700 border-slate-600 text-white placeholder:text-slate-400 focus:border-cyan-400"
+                      />
+                      <Input
+                        placeholder="Max $"
+                        type="number"
+                        value={formData.budgetMax}
+                        onChange={(e) =>
+                          handleInputChange("budgetMax", e.target.value)
+                        }
+                        className="bg-slate-700 border-slate-600 text-white placeholder:text-slate-400 focus:border-cyan-400"
+                      />
+                    </div>
+                  </div>
+
+                  <Button type="submit" className="w-full bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white" disabled={loading}>
+                    {loading
+                      ? isEditMode ? "Saving..." : "Posting..."
+                      : isEditMode ? "Save Changes" : "Post Request"}
+                  </Button>
+                </form>
+              )}
             </CardContent>
           </Card>
         </div>
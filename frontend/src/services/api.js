@@ -94,7 +94,7 @@ class ApiService {
   // User methods
   async updateProfile(userData) {
     try {
-      return await api.put("/users/profile", userData);
+      return await api.put("/auth/profile", userData);
     } catch (error) {
       throw new Error(error.response?.data?.error || "Profile update failed");
     }
@@ -108,6 +108,16 @@ class ApiService {
     }
   }
 
+  // Online status of users the current user shares a request with
+  async getPresence(userIds) {
+    try {
+      const params = new URLSearchParams({ ids: userIds.join(",") });
+      return await api.get(`/users/presence?${params.toString()}`);
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to get presence");
+    }
+  }
+
   // Request methods
   async createRequest(requestData) {
     try {
@@ -119,13 +129,41 @@ class ApiService {
 
   async getRequests(filters = {}) {
     try {
-      const params = new URLSearchParams(filters);
+      const params = new URLSearchParams();
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== "") {
+          params.append(key, value);
+        }
+      });
       return await api.get(`/requests?${params.toString()}`);
     } catch (error) {
       throw new Error(error.response?.data?.error || "Failed to get requests");
     }
   }
 
+  async getMyRequests(filters = {}) {
+    try {
+      const params = new URLSearchParams();
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== "") {
+          params.append(key, value);
+        }
+      });
+      return await api.get(`/requests/mine?${params.toString()}`);
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to get your requests");
+    }
+  }
+
+  async getRecommendedRequests(limit) {
+    try {
+      const query = limit ? `?limit=${limit}` : "";
+      return await api.get(`/requests/recommended${query}`);
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to get recommended requests");
+    }
+  }
+
   async getRequestById(requestId) {
     try {
       return await api.get(`/requests/${requestId}`);
@@ -142,11 +180,84 @@ class ApiService {
     }
   }
 
-  async acceptRequest(requestId) {
+  async submitProposal(proposalData) {
+    try {
+      return await api.post("/proposals", proposalData);
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to send proposal");
+    }
+  }
+
+  async getProposals(requestId) {
+    try {
+      return await api.get(`/proposals/request/${requestId}`);
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to get proposals");
+    }
+  }
+
+  async getMyProposals(status) {
+    try {
+      const query = status ? `?status=${status}` : "";
+      return await api.get(`/proposals/mine${query}`);
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to get your proposals");
+    }
+  }
+
+  async acceptProposal(proposalId) {
+    try {
+      return await api.post(`/proposals/${proposalId}/accept`);
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to accept proposal");
+    }
+  }
+
+  async withdrawProposal(proposalId) {
+    try {
+      return await api.post(`/proposals/${proposalId}/withdraw`);
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to withdraw proposal");
+    }
+  }
+
+  async getSessions(requestId) {
+    try {
+      return await api.get(`/sessions/request/${requestId}`);
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to get sessions");
+    }
+  }
+
+  async proposeSession(sessionData) {
+    try {
+      return await api.post("/sessions", sessionData);
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to propose session");
+    }
+  }
+
+  async acceptSessionSlot(sessionId, slotId) {
     try {
-      return await api.post(`/requests/${requestId}/accept`);
+      return await api.post(`/sessions/${sessionId}/accept`, { slotId });
     } catch (error) {
-      throw new Error(error.response?.data?.error || "Failed to accept request");
+      throw new Error(error.response?.data?.error || "Failed to accept session");
+    }
+  }
+
+  async declineSession(sessionId) {
+    try {
+      return await api.post(`/sessions/${sessionId}/decline`);
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to decline session");
+    }
+  }
+
+  async cancelSession(sessionId) {
+    try {
+      return await api.post(`/sessions/${sessionId}/cancel`);
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to cancel session");
     }
   }
 
@@ -158,6 +269,46 @@ class ApiService {
     }
   }
 
+  async confirmCompletion(requestId) {
+    try {
+      return await api.post(`/requests/${requestId}/confirm`);
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to confirm completion");
+    }
+  }
+
+  async disputeCompletion(requestId, reason) {
+    try {
+      return await api.post(`/requests/${requestId}/dispute`, { reason });
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to dispute completion");
+    }
+  }
+
+  async cancelRequest(requestId, reason) {
+    try {
+      return await api.post(`/requests/${requestId}/cancel`, { reason });
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to cancel request");
+    }
+  }
+
+  async reopenRequest(requestId) {
+    try {
+      return await api.post(`/requests/${requestId}/reopen`);
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to reopen request");
+    }
+  }
+
+  async withdrawFromRequest(requestId) {
+    try {
+      return await api.post(`/requests/${requestId}/withdraw`);
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to withdraw from request");
+    }
+  }
+
   // Category methods
   async getCategories() {
     try {
@@ -168,14 +319,30 @@ class ApiService {
   }
 
   // Message methods
-  async getMessages(requestId) {
+  // `page` may hold one of `before`, `after` or `around` (a message id) and a `limit`
+  async getMessages(requestId, page = {}) {
     try {
-      return await api.get(`/messages/request/${requestId}`);
+      const params = new URLSearchParams();
+      Object.entries(page).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== "") {
+          params.append(key, value);
+        }
+      });
+      return await api.get(`/messages/request/${requestId}?${params.toString()}`);
     } catch (error) {
       throw new Error(error.response?.data?.error || "Failed to get messages");
     }
   }
 
+  async searchMessages(requestId, query) {
+    try {
+      const params = new URLSearchParams({ q: query });
+      return await api.get(`/messages/request/${requestId}/search?${params.toString()}`);
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to search messages");
+    }
+  }
+
   async sendMessage(messageData) {
     try {
       return await api.post("/messages", messageData);
@@ -184,6 +351,38 @@ class ApiService {
     }
   }
 
+  async editMessage(messageId, content) {
+    try {
+      return await api.patch(`/messages/${messageId}`, { content });
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to edit message");
+    }
+  }
+
+  async deleteMessage(messageId) {
+    try {
+      return await api.delete(`/messages/${messageId}`);
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to delete message");
+    }
+  }
+
+  async addReaction(messageId, emoji) {
+    try {
+      return await api.post(`/messages/${messageId}/reactions`, { emoji });
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to add reaction");
+    }
+  }
+
+  async removeReaction(messageId, emoji) {
+    try {
+      return await api.delete(`/messages/${messageId}/reactions/${encodeURIComponent(emoji)}`);
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to remove reaction");
+    }
+  }
+
   async markMessagesAsRead(requestId) {
     try {
       return await api.put(`/messages/request/${requestId}/read`);
@@ -192,6 +391,19 @@ class ApiService {
     }
   }
 
+  // Turn an API-relative path such as a signed attachment link into a full URL
+  resolveApiUrl(path) {
+    return `${API_BASE_URL}${path}`;
+  }
+
+  async getAttachmentUrl(attachmentId) {
+    try {
+      return await api.get(`/attachments/${attachmentId}/url`);
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to get attachment url");
+    }
+  }
+
   async uploadFile(formData) {
     try {
       const response = await fetch(`${API_BASE_URL}/messages/upload`, {
@@ -246,6 +458,14 @@ class ApiService {
     }
   }
 
+  async getMyReviews() {
+    try {
+      return await api.get("/reviews/mine");
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to get your reviews");
+    }
+  }
+
   // Notification methods
   async getUnreadMessageCount() {
     try {
@@ -262,6 +482,22 @@ class ApiService {
       throw new Error(error.response?.data?.error || "Failed to mark all messages as read");
     }
   }
+  async getSubscription() {
+    try {
+      return await api.get("/subscriptions");
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to get notification settings");
+    }
+  }
+
+  async updateSubscription(settings) {
+    try {
+      return await api.put("/subscriptions", settings);
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to update notification settings");
+    }
+  }
+
   async getNotifications() {
     try {
       return await api.get("/notifications");
@@ -286,6 +522,14 @@ class ApiService {
     }
   }
 
+  async deleteNotification(notificationId) {
+    try {
+      return await api.delete(`/notifications/${notificationId}`);
+    } catch (error) {
+      throw new Error(error.response?.data?.error || "Failed to delete notification");
+    }
+  }
+
   // Health check
   async healthCheck() {
     try {
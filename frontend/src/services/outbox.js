@@ -0,0 +1,85 @@
+// Chat messages waiting to be delivered, persisted in IndexedDB so they
+// survive a reload. Entries are keyed by their client-generated id.
+const DB_NAME = 'skillfull-outbox';
+const DB_VERSION = 1;
+const STORE = 'messages';
+
+class OutboxStore {
+  constructor() {
+    this.dbPromise = null;
+    // Used when IndexedDB isn't available (private browsing, old browsers)
+    this.memory = new Map();
+  }
+
+  open() {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.resolve(null);
+    }
+
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE, { keyPath: 'clientId' });
+          store.createIndex('requestId', 'requestId');
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.error('❌ Failed to open message outbox:', request.error);
+          resolve(null);
+        };
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  async run(mode, operation) {
+    const db = await this.open();
+    if (!db) return null;
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = operation(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async put(entry) {
+    this.memory.set(entry.clientId, entry);
+    try {
+      await this.run('readwrite', (store) => store.put(entry));
+    } catch (error) {
+      console.error('❌ Failed to save message to outbox:', error);
+    }
+  }
+
+  async remove(clientId) {
+    this.memory.delete(clientId);
+    try {
+      await this.run('readwrite', (store) => store.delete(clientId));
+    } catch (error) {
+      console.error('❌ Failed to remove message from outbox:', error);
+    }
+  }
+
+  // All entries, oldest first
+  async getAll() {
+    let entries = null;
+    try {
+      entries = await this.run('readonly', (store) => store.getAll());
+    } catch (error) {
+      console.error('❌ Failed to read message outbox:', error);
+    }
+
+    const byId = new Map((entries || []).map((entry) => [entry.clientId, entry]));
+    this.memory.forEach((entry, clientId) => byId.set(clientId, entry));
+    return [...byId.values()].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+}
+
+const outboxStore = new OutboxStore();
+export default outboxStore;
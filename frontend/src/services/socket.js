@@ -1,4 +1,12 @@
 import io from 'socket.io-client';
+import outboxStore from './outbox';
+
+const MAX_SEND_ATTEMPTS = 3;
+
+const generateClientId = () =>
+  typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
 
 class SocketService {
   constructor() {
@@ -8,9 +16,19 @@ class SocketService {
     this.messageListeners = [];
     this.notificationListeners = [];
     this.typingListeners = [];
+    this.readReceiptListeners = [];
+    this.messageUpdateListeners = [];
+    this.reactionListeners = [];
+    this.outboxListeners = [];
+    this.sendingClientIds = new Set();
+    this.presenceListeners = [];
     this.connectionStatusListeners = [];
+    this.authErrorListeners = [];
+    this.feedListeners = [];
     this.currentRoom = null;
+    this.inFeed = false;
     this.reconnectAttempts = 0;
+    this.tokenExpired = false;
     this.maxReconnectAttempts = 5;
     this.connectionTimeout = 10000; // 10 seconds timeout
   }
@@ -25,15 +43,22 @@ class SocketService {
       return;
     }
 
+    if (!localStorage.getItem("authToken")) {
+      console.warn('🔒 No auth token found, cannot connect socket');
+      return;
+    }
+
     this.userId = userId;
+    this.tokenExpired = false;
     const socketUrl = this.getSocketUrl();
     
     console.log(`🔌 Attempting to connect to socket server at: ${socketUrl}`);
     
-    // Connect to the backend socket server
+    // Connect to the backend socket server. The auth callback runs on every
+    // (re)connect, so a token refreshed by a new login is picked up.
     this.socket = io(socketUrl, {
-      auth: {
-        userId: userId
+      auth: (cb) => {
+        cb({ token: localStorage.getItem("authToken") });
       },
       transports: ['websocket', 'polling'],
       reconnection: true,
@@ -57,6 +82,14 @@ class SocketService {
       this.isConnected = true;
       this.reconnectAttempts = 0;
       this.notifyConnectionStatus(true);
+
+      // Socket.IO rooms don't survive a reconnect, so re-subscribe to the feed
+      if (this.inFeed) {
+        this.socket.emit('join_feed');
+      }
+
+      // Deliver anything queued while we were offline
+      this.flushOutbox();
     });
 
     this.socket.on('disconnect', (reason) => {
@@ -64,6 +97,11 @@ class SocketService {
       this.isConnected = false;
       this.notifyConnectionStatus(false);
       
+      // The server drops the socket when its token expires; don't reconnect with it
+      if (this.tokenExpired) {
+        return;
+      }
+
       // Attempt to reconnect if it wasn't a manual disconnect
       if (reason === 'io server disconnect' || reason === 'transport close' || reason === 'ping timeout') {
         this.reconnectAttempts++;
@@ -82,6 +120,13 @@ class SocketService {
       console.error('🔌 Socket connection error:', error);
       this.isConnected = false;
       this.notifyConnectionStatus(false);
+
+      // Authentication failures won't fix themselves by retrying
+      if (error.message === 'Token expired' || error.message === 'Authentication error') {
+        console.error('🔒 Socket authentication failed:', error.message);
+        this.handleAuthError(error.message);
+        return;
+      }
       
       // Handle specific error types
       if (error.message.includes('timeout')) {
@@ -121,6 +166,47 @@ class SocketService {
       this.typingListeners.forEach(listener => listener(data));
     });
 
+    // Listen for read receipts on messages in a conversation
+    this.socket.on('messages_read', (data) => {
+      console.log('👀 Messages read:', data);
+      this.readReceiptListeners.forEach(listener => listener(data));
+    });
+
+    // Listen for messages edited or deleted by their sender. Both events carry
+    // the updated message; deleted ones come back as tombstones.
+    this.socket.on('message_updated', (message) => {
+      console.log('✏️ Message updated:', message);
+      this.messageUpdateListeners.forEach(listener => listener(message));
+    });
+
+    this.socket.on('message_deleted', (message) => {
+      console.log('🗑️ Message deleted:', message);
+      this.messageUpdateListeners.forEach(listener => listener(message));
+    });
+
+    // Listen for reactions added to or removed from a message
+    this.socket.on('message_reactions', (data) => {
+      console.log('😀 Message reactions:', data);
+      this.reactionListeners.forEach(listener => listener(data));
+    });
+
+    // Listen for the people we share requests with coming online or going offline
+    this.socket.on('presence_changed', (data) => {
+      console.log('🟢 Presence changed:', data);
+      this.presenceListeners.forEach(listener => listener(data));
+    });
+
+    // Listen for anonymized feed updates (a request closed or opened again)
+    this.socket.on('request_unavailable', (data) => {
+      console.log('📋 Request no longer available:', data);
+      this.feedListeners.forEach(listener => listener(data));
+    });
+
+    this.socket.on('request_available', (data) => {
+      console.log('📋 Request available again:', data);
+      this.feedListeners.forEach(listener => listener(data));
+    });
+
     // Listen for user joined/left room
     this.socket.on('user_joined_room', (data) => {
       console.log('👤 User joined room:', data);
@@ -130,6 +216,12 @@ class SocketService {
       console.log('👤 User left room:', data);
     });
 
+    // Server tells us the token expired right before dropping the connection
+    this.socket.on('token_expired', () => {
+      console.error('⏰ Socket token expired');
+      this.handleAuthError('Token expired');
+    });
+
     // Listen for errors
     this.socket.on('error', (error) => {
       console.error('❌ Socket error:', error);
@@ -161,7 +253,7 @@ class SocketService {
     }
 
     console.log('🏠 Joining room:', requestId);
-    this.socket.emit('join_room', { requestId, userId: this.userId });
+    this.socket.emit('join_room', { requestId });
     this.currentRoom = requestId;
   }
 
@@ -169,28 +261,154 @@ class SocketService {
     if (!this.socket || !this.isConnected) return;
 
     console.log('🏠 Leaving room:', requestId);
-    this.socket.emit('leave_room', { requestId, userId: this.userId });
+    this.socket.emit('leave_room', { requestId });
     
     if (this.currentRoom === requestId) {
       this.currentRoom = null;
     }
   }
 
+  // Request feed subscription
+  joinFeed() {
+    this.inFeed = true;
+    if (this.socket && this.isConnected) {
+      this.socket.emit('join_feed');
+    }
+  }
+
+  leaveFeed() {
+    this.inFeed = false;
+    if (this.socket && this.isConnected) {
+      this.socket.emit('leave_feed');
+    }
+  }
+
   // Message sending
-  sendMessage(messageData) {
-    if (!this.socket || !this.isConnected) {
-      console.error('Socket not connected, cannot send message');
+  // Messages go through a persistent outbox: sendMessage queues the message
+  // and resolves with its outbox entry straight away. Delivery happens now if
+  // connected, otherwise on reconnect; progress is reported to onOutboxChange
+  // listeners. Extra fields in messageData (e.g. for optimistic rendering) are
+  // kept on the entry.
+  async sendMessage(messageData) {
+    const entry = {
+      clientId: generateClientId(),
+      requestId: messageData.requestId,
+      senderId: this.userId,
+      message: messageData,
+      status: 'pending',
+      attempts: 0,
+      error: null,
+      createdAt: new Date().toISOString()
+    };
+
+    await outboxStore.put(entry);
+    this.notifyOutbox({ type: 'queued', entry });
+    this.deliver(entry);
+    return entry;
+  }
+
+  // Outbox entries of the current user, optionally for one request
+  async getOutbox(requestId) {
+    const entries = await outboxStore.getAll();
+    return entries.filter(entry =>
+      entry.senderId === this.userId && (!requestId || entry.requestId === requestId)
+    );
+  }
+
+  // Try a failed message again
+  async retryMessage(clientId) {
+    const [entry] = (await this.getOutbox()).filter(e => e.clientId === clientId);
+    if (!entry) return;
+
+    const retried = { ...entry, status: 'pending', attempts: 0, error: null };
+    await outboxStore.put(retried);
+    this.notifyOutbox({ type: 'updated', entry: retried });
+    this.deliver(retried);
+  }
+
+  async discardMessage(clientId) {
+    const [entry] = (await this.getOutbox()).filter(e => e.clientId === clientId);
+    if (!entry) return;
+
+    await outboxStore.remove(clientId);
+    this.notifyOutbox({ type: 'discarded', entry });
+  }
+
+  async flushOutbox() {
+    const entries = await this.getOutbox();
+    entries
+      .filter(entry => entry.status === 'pending')
+      .forEach(entry => this.deliver(entry));
+  }
+
+  // Send one outbox entry. The server dedupes by clientId, so resending after a
+  // lost acknowledgement is safe.
+  deliver(entry) {
+    if (!this.socket || !this.isConnected || this.sendingClientIds.has(entry.clientId)) {
       return;
     }
 
+    this.sendingClientIds.add(entry.clientId);
+    const attempt = { ...entry, attempts: entry.attempts + 1 };
     const message = {
-      ...messageData,
-      senderId: this.userId,
+      ...entry.message,
+      clientId: entry.clientId,
       timestamp: new Date().toISOString()
     };
 
     console.log('📤 Sending message:', message);
-    this.socket.emit('send_message', message);
+    this.socket.timeout(this.connectionTimeout).emit('send_message', message, async (err, response) => {
+      this.sendingClientIds.delete(entry.clientId);
+
+      if (!err && response?.ok) {
+        await outboxStore.remove(entry.clientId);
+        this.notifyOutbox({ type: 'sent', entry: attempt, message: response.message });
+        return;
+      }
+
+      if (err && attempt.attempts < MAX_SEND_ATTEMPTS) {
+        // No acknowledgement; keep it pending and try again shortly (or on reconnect)
+        await outboxStore.put(attempt);
+        setTimeout(() => this.deliver(attempt), 2000 * attempt.attempts);
+        return;
+      }
+
+      const failed = {
+        ...attempt,
+        status: 'failed',
+        error: err ? 'Message was not acknowledged by the server' : (response?.error || 'Failed to send message')
+      };
+      await outboxStore.put(failed);
+      this.notifyOutbox({ type: 'updated', entry: failed });
+    });
+  }
+
+  // Reactions
+  // Both resolve with the message's reactions once the server has applied the change
+  addReaction(messageId, emoji) {
+    return this.emitReaction('add_reaction', messageId, emoji);
+  }
+
+  removeReaction(messageId, emoji) {
+    return this.emitReaction('remove_reaction', messageId, emoji);
+  }
+
+  emitReaction(event, messageId, emoji) {
+    if (!this.socket || !this.isConnected) {
+      return Promise.reject(new Error('Not connected to chat server'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.socket.timeout(this.connectionTimeout).emit(event, { messageId, emoji }, (err, response) => {
+        if (err) {
+          reject(new Error('Reaction was not acknowledged by the server'));
+        } else if (!response?.ok) {
+          reject(new Error(response?.error || 'Failed to update reaction'));
+        } else {
+          resolve(response);
+        }
+      });
+    });
   }
 
   // Typing indicators
@@ -199,8 +417,6 @@ class SocketService {
 
     this.socket.emit('typing', {
       requestId,
-      userId: this.userId,
-      userName,
       isTyping: true
     });
   }
@@ -210,8 +426,6 @@ class SocketService {
 
     this.socket.emit('typing', {
       requestId,
-      userId: this.userId,
-      userName,
       isTyping: false
     });
   }
@@ -241,6 +455,60 @@ class SocketService {
     this.typingListeners = [];
   }
 
+  onMessagesRead(callback) {
+    this.readReceiptListeners.push(callback);
+  }
+
+  offMessagesRead() {
+    this.readReceiptListeners = [];
+  }
+
+  onMessageUpdated(callback) {
+    this.messageUpdateListeners.push(callback);
+  }
+
+  offMessageUpdated() {
+    this.messageUpdateListeners = [];
+  }
+
+  onReactions(callback) {
+    this.reactionListeners.push(callback);
+  }
+
+  offReactions() {
+    this.reactionListeners = [];
+  }
+
+  onOutboxChange(callback) {
+    this.outboxListeners.push(callback);
+  }
+
+  offOutboxChange() {
+    this.outboxListeners = [];
+  }
+
+  notifyOutbox(event) {
+    this.outboxListeners.forEach(listener => listener(event));
+  }
+
+  // Several components can watch presence at once (a page and its chat dialog),
+  // so listeners are removed individually
+  onPresenceChanged(callback) {
+    this.presenceListeners.push(callback);
+  }
+
+  offPresenceChanged(callback) {
+    this.presenceListeners = this.presenceListeners.filter(listener => listener !== callback);
+  }
+
+  onFeedUpdate(callback) {
+    this.feedListeners.push(callback);
+  }
+
+  offFeedUpdate() {
+    this.feedListeners = [];
+  }
+
   onConnectionStatus(callback) {
     this.connectionStatusListeners.push(callback);
   }
@@ -253,6 +521,23 @@ class SocketService {
     this.connectionStatusListeners.forEach(listener => listener(status));
   }
 
+  onAuthError(callback) {
+    this.authErrorListeners.push(callback);
+  }
+
+  offAuthError() {
+    this.authErrorListeners = [];
+  }
+
+  handleAuthError(reason) {
+    this.tokenExpired = reason === 'Token expired';
+    if (this.socket) {
+      this.socket.io.opts.reconnection = false;
+      this.socket.disconnect();
+    }
+    this.authErrorListeners.forEach(listener => listener(reason));
+  }
+
   // Utility methods
   getConnectionStatus() {
     return {
@@ -298,12 +583,21 @@ class SocketService {
       this.socket = null;
     }
     this.isConnected = false;
+    this.tokenExpired = false;
     this.userId = null;
     this.currentRoom = null;
+    this.inFeed = false;
     this.reconnectAttempts = 0;
     this.messageListeners = [];
+    this.feedListeners = [];
     this.notificationListeners = [];
     this.typingListeners = [];
+    this.readReceiptListeners = [];
+    this.messageUpdateListeners = [];
+    this.reactionListeners = [];
+    this.outboxListeners = [];
+    this.sendingClientIds.clear();
+    this.presenceListeners = [];
     this.connectionStatusListeners = [];
   }
 }